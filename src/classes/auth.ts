@@ -232,11 +232,24 @@ export class Authentication implements AuthenticationData, ClientAuthenticationD
     }
 
     this.setRefreshing(true);
-    const newAuthentication = await this.client.authenticate();
+
+    let newAuthentication;
+    try {
+      newAuthentication = await this.client.authenticate();
+    } catch (error) {
+      this.setRefreshing(false);
+      this.client.emit('authFailed', { error });
+      throw error;
+    }
+
     this.issuedAt = newAuthentication.issuedAt;
     this.expiresAt = newAuthentication.expiresAt;
     this.authenticationToken = newAuthentication.token;
     this.setRefreshing(false);
+    this.client.emit('tokenRefreshed', {
+      issuedAt: newAuthentication.issuedAt,
+      expiresAt: newAuthentication.expiresAt,
+    });
 
     if (this.refreshTimeout) {
       this.logger.debug('Clearing existing refresh timeout');
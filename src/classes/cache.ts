@@ -1,24 +1,70 @@
 import crypto from 'crypto';
-import { Keyv } from 'keyv';
+import { Keyv, KeyvStoreAdapter } from 'keyv';
 import { LRUCache } from 'lru-cache';
 import { createCache } from 'cache-manager';
 
-const keyv = new Keyv({ store: new LRUCache({ max: 500 }) });
-const cache = createCache({ stores: [keyv] });
+import { isSerializedPlayerId, PlayerId } from '../resolvers/player-ids';
+
+/**
+ * A Keyv-compatible store to cache responses in, e.g. a `Keyv` instance backed by
+ * Redis or SQLite, a Keyv store adapter, or a `Map`-like store.
+ */
+export type CacheStore = Keyv | KeyvStoreAdapter | Map<string, unknown>;
+
+/**
+ * An entry in the cache, wraps the cached value with the time it expires at. Entries
+ * can outlive their expiry time when they are set with a stale time-to-live.
+ */
+export type CacheEntry<T> = {
+  /** The cached value. */
+  value: T;
+  /** The timestamp (in ms) at which the entry expires. */
+  expiresAt: number;
+  /** Whether the entry has expired, but is still kept as a stale entry. */
+  stale: boolean;
+};
+
+/**
+ * The metadata that is tracked for every key that is set through a cache manager.
+ */
+export type CacheKeyMetadata = {
+  /** The key before it was hashed, e.g. the options a response was requested with. */
+  logicalKey: unknown;
+  /** The timestamp (in ms) at which the entry was set. */
+  createdAt: number;
+  /** The timestamp (in ms) at which the entry is removed from the store, including stale time. */
+  removedAt: number;
+  /** The (approximate) size of the serialized entry, in bytes. */
+  size: number;
+};
 
 export class CacheManager {
-  /** The singleton instance of the cache manager. */
+  /** The shared instance of the cache manager, see {@link getInstance}. */
   private static instance: CacheManager;
   /** The cache manager instance. */
-  private static cache: ReturnType<typeof createCache> = cache;
-  /** The keyv instance, currently unused. */
-  private static keyv: Keyv = keyv;
+  private cache: ReturnType<typeof createCache>;
+  /** The keyv instance that wraps the store. */
+  private keyv: Keyv;
   
-  /** The set of keys in the cache, needed because keyv doesn't support listing keys. */
-  private keysSet: Set<string> = new Set();
+  /**
+   * The keys in the cache and their metadata, needed because keyv doesn't support listing
+   * keys. Note that when sharing a store between processes, only keys that are set through
+   * this cache manager are tracked.
+   */
+  private trackedKeys: Map<string, CacheKeyMetadata> = new Map();
 
-  private constructor() {
-    void 0;
+  /**
+   * Creates a new cache manager, every client owns its own cache manager.
+   * @param store The Keyv-compatible store to use, defaults to an in-memory LRU cache (500 entries)
+   * @param namespace The namespace to prefix keys with in the store, allows multiple
+   * clients (or processes) to share a store without reading each other's entries
+   */
+  constructor(
+    store?: CacheStore,
+    public readonly namespace: string | null = null,
+  ) {
+    this.keyv = store instanceof Keyv ? store : new Keyv({ store: store ?? new LRUCache({ max: 500 }) });
+    this.cache = createCache({ stores: [this.keyv] });
   }
 
   /**
@@ -44,7 +90,8 @@ export class CacheManager {
   }
 
   /**
-   * @returns The singleton instance of the cache manager.
+   * @returns The shared (process-wide) instance of the cache manager, clients
+   * create their own cache manager instead.
    */
   public static getInstance(): CacheManager {
     if (!CacheManager.instance) {
@@ -54,7 +101,7 @@ export class CacheManager {
   }
 
   /**
-   * Deserialization helper for {@link JSON.parse} to handle dates.
+   * Deserialization helper for {@link JSON.parse} to handle dates and player IDs.
    * @param _key The key of the value, unused
    * @param value The value to deserialize
    * @returns The deserialized value
@@ -66,33 +113,91 @@ export class CacheManager {
         return new Date(value);
       }
     }
+    if (isSerializedPlayerId(value)) {
+      return PlayerId.fromJSON(value);
+    }
     return value;
   }
+
+  /**
+   * Resolves the key that is used in the store, prefixed with the namespace.
+   * @param key The key to resolve
+   * @returns The key in the store
+   */
+  private storeKey(key: string): string {
+    return this.namespace ? `${this.namespace}:${key}` : key;
+  }
   
   /**
    * Retrieves data from the cache, by it's key.
    * @param key The key to retrieve the data for
-   * @returns The data for the key, or `null` if it doesn't exist
+   * @returns The data for the key, or `null` if it doesn't exist or has expired
    */
   public async get<T>(key: string): Promise<T | null> {
-    const value = await CacheManager.cache.get<string>(key);
+    const entry = await this.getEntry<T>(key);
+
+    if (!entry || entry.stale) {
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * Retrieves an entry from the cache, by it's key. Unlike {@link get}, this
+   * includes entries that have expired but are still kept as stale entries.
+   * @param key The key to retrieve the entry for
+   * @returns The entry for the key, or `null` if it doesn't exist
+   */
+  public async getEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+    const value = await this.cache.get<string>(this.storeKey(key));
 
     if (typeof value === 'undefined') {
       return null;
     }
 
-    return JSON.parse(value, CacheManager.deserializationHelper) as T;
+    const { value: data, expiresAt } = JSON.parse(
+      value, CacheManager.deserializationHelper,
+    ) as Omit<CacheEntry<T>, 'stale'>;
+
+    return {
+      value: data,
+      expiresAt,
+      stale: expiresAt <= Date.now(),
+    };
   }
 
   /**
    * Sets data in the cache, by it's key.
-   * @param key 
-   * @param value 
-   * @param ttl 
+   * @param key The key to set the data for
+   * @param value The data to set
+   * @param ttl The time-to-live in milliseconds
+   * @param staleTtl The time (in milliseconds) the entry is kept as a stale entry
+   * after it expires, see {@link getEntry}
+   * @param logicalKey The key before it was hashed, used to inspect entries
    */
-  public async set<T>(key: string, value: T, ttl: number): Promise<void> {
-    await CacheManager.cache.set(key, JSON.stringify(value), ttl);
-    this.keysSet.add(key);
+  public async set<T>(key: string, value: T, ttl: number, staleTtl = 0, logicalKey: unknown = key): Promise<void> {
+    const createdAt = Date.now();
+    const entry = JSON.stringify({ value, expiresAt: createdAt + ttl });
+
+    await this.cache.set(this.storeKey(key), entry, ttl + staleTtl);
+    // Re-insert the key, so keys are ordered from oldest to newest
+    this.trackedKeys.delete(key);
+    this.trackedKeys.set(key, {
+      logicalKey,
+      createdAt,
+      removedAt: createdAt + ttl + staleTtl,
+      size: Buffer.byteLength(entry),
+    });
+  }
+
+  /**
+   * Retrieves the metadata of a key that has been set through this cache manager.
+   * @param key The key to retrieve the metadata for
+   * @returns The metadata for the key, or `null` if the key isn't tracked
+   */
+  public metadata(key: string): CacheKeyMetadata | null {
+    return this.trackedKeys.get(key) ?? null;
   }
 
   /**
@@ -101,26 +206,26 @@ export class CacheManager {
    * @returns Whether the key existed in the cache
    */
   public async del(key: string): Promise<boolean> {
-    const result = await CacheManager.cache.del(key);
-    this.keysSet.delete(key);
+    const result = await this.cache.del(this.storeKey(key));
+    this.trackedKeys.delete(key);
     return result;
   }
 
   /**
-   * Clears all data from the cache.
+   * Clears all data from the cache that has been set through this cache manager,
+   * entries of other clients sharing the same store are left untouched.
    * @returns Whether the cache was cleared
    */
   public async clear(): Promise<boolean> {
-    const result = await CacheManager.cache.clear();
-    this.keysSet.clear();
-    return result;
+    await Promise.all(Array.from(this.trackedKeys.keys()).map((key) => this.del(key)));
+    return true;
   }
 
   /**
    * @returns All keys in the cache
    */
   public async keys(): Promise<string[]> {
-    return Array.from(this.keysSet);
+    return Array.from(this.trackedKeys.keys());
   }
 
   /**
@@ -129,14 +234,14 @@ export class CacheManager {
    * @returns Whether the key exists in the cache
    */
   public async has(key: string): Promise<boolean> {
-    return this.keysSet.has(key);
+    return this.trackedKeys.has(key);
   }
 
   /**
    * @returns The number of keys in the cache
    */
   public async size(): Promise<number> {
-    return this.keysSet.size;
+    return this.trackedKeys.size;
   }
 
   /**
@@ -144,7 +249,7 @@ export class CacheManager {
    * This method returns all keys that match the given prefix.
    */
   public async keysForPrefix(prefix: string): Promise<string[]> {
-    return Array.from(this.keysSet).filter((key) => key.startsWith(prefix));
+    return Array.from(this.trackedKeys.keys()).filter((key) => key.startsWith(prefix));
   }
 
   /**
@@ -152,22 +257,26 @@ export class CacheManager {
    * The keys should be tracked by using prefixes (e.g. `'categoryName:categoryKey'`)
    * @param prefix The prefix to use for filtering keys
    * @param maxSize The maximum size to enforce
-   * @returns Promise<void>
+   * @returns The number of deleted keys
    */
-  public async enforceMaxSizeForPrefix(prefix: string, maxSize: number): Promise<void> {
+  public async enforceMaxSizeForPrefix(prefix: string, maxSize: number): Promise<number> {
     const keys = await this.keysForPrefix(prefix);
     if (keys.length > maxSize) {
       const keysToDelete = keys.slice(0, keys.length - maxSize);
       await Promise.all(keysToDelete.map((key) => this.del(key)));
+      return keysToDelete.length;
     }
+    return 0;
   }
 
   /**
    * Clears all entries that match the given prefix
    * @param prefix The prefix to use for filtering keys
+   * @returns The number of cleared entries
    */
-  public async clearPrefixEntries(prefix: string): Promise<void> {
+  public async clearPrefixEntries(prefix: string): Promise<number> {
     const keys = await this.keysForPrefix(prefix);
     await Promise.all(keys.map((key) => this.del(key)));
+    return keys.length;
   }
 }
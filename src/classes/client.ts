@@ -1,29 +1,76 @@
+import { EventEmitter } from 'events';
 import { isIPv4 } from 'net';
 
 import { Authentication } from './auth';
-import { CacheManager } from './cache';
+import { CacheEntry, CacheKeyMetadata, CacheManager, CacheStore } from './cache';
 import { API_VERSION, AUTHENTICATION_TOKEN_REFRESH_INTERVAL, CFTOOLS_BASE_URL, UnitConstants } from '../constants';
 import { ConsoleLogger } from './logger';
-import { RequestClient } from './requests';
+import { BanListHandle, ServerHandle } from './handles';
+import { PlayerListWatcher } from './player-list-watcher';
+import { RequestClient, RetryConfiguration } from './requests';
+import { RateLimitOptions } from './rate-limiter';
+import { ServerHealthMonitor } from './server-health-monitor';
+import { ExpirationScheduler } from './expiration-scheduler';
+import type { ApiBaseUrls, FetchFunction, RequestInterceptors } from '../types/requests';
+import type { ServerFanOutResult } from '../types/handles';
+import type {
+  BulkCreateBanItem,
+  BulkCreateBanOptions,
+  BulkOperationOptions,
+  BulkOperationReport,
+  BulkPostPriorityQueueOptions,
+  BulkPostWhitelistOptions,
+} from '../types/bulk';
+import type {
+  BanTransferRow,
+  ImportBansOptions,
+  ImportPlanItem,
+  ImportPlayerListOptions,
+  ImportReport,
+  ParsedTransferRows,
+  PlayerListTransferRow,
+} from '../types/import-export';
+import type {
+  DesiredEntry,
+  ReconciledEntry,
+  ReconcileOptions,
+  ReconcilePlanItem,
+  ReconcileReport,
+  ReconcileStepResult,
+} from '../types/reconcile';
+import type { IterateBansOptions, IteratePriorityQueueOptions, IterateWhitelistOptions } from '../types/listing';
+import type { RenewBanOptions, RenewEntryOptions } from '../types/renewal';
+import type { GameLabsActionWrappers } from '../types/game-labs-actions';
+import type {
+  PlayerIdentities,
+  PlayerProfile,
+  PlayerProfileBanList,
+  PlayerProfileOptions,
+  PlayerProfileServer,
+} from '../types/profile';
 import { GameLabsActionCode } from '../types/general';
 
 import { 
   DuplicateEntryError,
+  GameLabsActionError,
   InvalidOptionError,
   LengthMismatchError,
   MaxLengthExceededError,
   MinLengthNotReachedError,
   MissingServerApiIdError,
-  NotFoundError
+  NotFoundError,
+  RenewalFailedError,
 } from './errors';
 
 void typeof MissingServerApiIdError; // Keep in bundle for @throws
 
 import type { ClientAuthenticationData, ClientAuthentication } from '../types/auth';
+import type { ClientEvents, ExpirationTarget } from '../types/events';
 import { AbstractLogger } from '../types/logger';
 import type {
   AuthenticationResponse,
   BatchPostGameLabsActionOptions,
+  BuildGameLabsActionOptions,
   ClientGameLabsActionsResponse,
   ClientGameLabsEntityEventsResponse,
   ClientGameLabsEntityVehiclesResponse,
@@ -82,8 +129,19 @@ import type {
   LBMutePlayerOptions,
 } from '../types/responses';
 
-import { AnyPlayerId, isCFToolsId, isSteam64 } from '../resolvers/player-ids';
+import { AnyPlayerId, isCFToolsId, isSteam64, resolveRawPlayerId } from '../resolvers/player-ids';
 import { resolveServerId, ResolveServerIdOptions } from '../resolvers/server-id';
+import { runBulkOperation } from '../resolvers/bulk';
+import { parseBans, parsePlayerListEntries } from '../resolvers/import-export';
+import { matchesBanFilter, matchesEntryFilter } from '../resolvers/listing';
+import { buildGameLabsAction, createGameLabsActionWrappers, resolveGameLabsAction } from '../resolvers/game-labs';
+import {
+  deriveSteam64Identities,
+  mergeStatsIdentities,
+  resolveProfileIdentities,
+  seedPlayerIdentities,
+  settleProfileSection,
+} from '../resolvers/profile';
 import {
   transformBanListResponse,
   transformGameLabsActionsResponse,
@@ -99,7 +157,7 @@ import {
   transformServerStatisticsResponse,
   transformWhitelistResponse,
 } from '../resolvers/transformers';
-import { isNotFoundError } from './type-guards';
+import { isNotFoundError, isRenewalFailedError } from './type-guards';
 
 /**
  * CacheConfigurationEntry is a tuple that represents the cache configuration
@@ -165,6 +223,12 @@ export type CachePrefix = keyof CacheConfiguration;
  * there's no specific key to store the cache entry under.
  */
 export const rootCacheKey = 'root';
+/**
+ * The wildcard cache scope is used for cache entries that are not scoped to a
+ * specific resource, e.g. a whitelist that is not filtered by player. These
+ * entries are invalidated whenever any entry in the parent scope changes.
+ */
+export const anyCacheScope = '*';
 /**
  * The cache prefixes are an array of all cache prefixes that are used in the
  * client. These are used to determine the cache configuration for a specific
@@ -172,6 +236,47 @@ export const rootCacheKey = 'root';
  */
 export const cachePrefixes: CachePrefix[] = Object.keys(defaultCacheConfiguration) as CachePrefix[];
 
+/**
+ * The cache statistics for a specific cache prefix, see {@link CFToolsClient.cacheStats}.
+ */
+export type CachePrefixStatistics = {
+  /** The number of lookups that were served from the cache, including stale hits. */
+  hits: number;
+  /** The number of lookups that served an expired entry (stale-while-revalidate). */
+  staleHits: number;
+  /** The number of lookups that weren't served from the cache. */
+  misses: number;
+  /** The number of entries that were removed because they expired, or the maximum size was exceeded. */
+  evictions: number;
+  /** The number of entries that were removed after mutating calls, or through {@link CFToolsClient.evictCache}. */
+  invalidations: number;
+  /** The number of entries that are currently cached. */
+  entries: number;
+  /** The (approximate) size of the currently cached entries, in bytes. */
+  size: number;
+  /** The age (in ms) of the oldest entry that is currently cached, or `null` if there are no entries. */
+  oldestEntryAge: number | null;
+};
+
+/**
+ * The cache statistics of a client, per cache prefix and in total.
+ */
+export type CacheStatistics = {
+  prefixes: Record<CachePrefix, CachePrefixStatistics>;
+  total: CachePrefixStatistics;
+};
+
+/**
+ * A cached entry and it's metadata, see {@link CFToolsClient.inspectCache}.
+ */
+export type CacheEntryDetails<T = unknown> = CacheEntry<T> & CacheKeyMetadata & {
+  prefix: CachePrefix;
+  /** The key of the entry, without the prefix. */
+  key: string;
+  /** The age (in ms) of the entry. */
+  age: number;
+};
+
 /**
  * The options to instantiate a new CFTools client with. The client options
  * can be used to configure the client with a custom logger and cache
@@ -189,12 +294,55 @@ export type ClientOptions = {
    */
   cacheConfiguration?: Partial<CacheConfiguration> & {
     enabled?: boolean;
+    /**
+     * The time (in seconds) an expired cache entry may still be served for. When
+     * a stale entry is served, a single background request refreshes it. Disabled
+     * (`0`) by default.
+     */
+    staleWhileRevalidate?: number;
   }
   /**
    * The amount of time (in ms) that has to pass before requests are considered
    * timed out, and aborted.
    */
   requestTimeout?: number;
+  /**
+   * The retry policy to use for failed requests. If not provided, the default
+   * retry policy will be used. See `defaultRetryConfiguration`.
+   */
+  retryConfiguration?: Partial<RetryConfiguration>;
+  /**
+   * The client-side rate limiting configuration to use for the client. Requests
+   * are queued and paced per bucket, instead of being fired as fast as methods are
+   * invoked. If not provided, the default configuration will be used.
+   * See `defaultRateLimitConfiguration`.
+   */
+  rateLimitConfiguration?: RateLimitOptions;
+  /**
+   * A custom `fetch` implementation to perform requests with, e.g. to point the
+   * client at a proxy or an instrumented `fetch`. Defaults to the global `fetch`.
+   */
+  fetch?: FetchFunction;
+  /**
+   * Overrides the base URLs used to resolve API URLs. Provide a string to use it as
+   * the origin for all API versions (e.g. `'http://localhost:3000'` for a local mock
+   * server), or an object to override individual base URLs.
+   */
+  apiBaseUrls?: string | Partial<ApiBaseUrls>;
+  /**
+   * Interceptors to observe and modify requests, responses and errors, e.g. to inject
+   * tracing headers, record latency or short-circuit requests in tests. Interceptors
+   * are called in order of registration, and can be modified later through
+   * `requestClient.interceptors`.
+   */
+  interceptors?: Partial<RequestInterceptors>;
+  /**
+   * The Keyv-compatible store to cache responses in, e.g. a `Keyv` instance backed by
+   * Redis, SQLite or a file, allowing multiple processes to share a warm cache. Every
+   * client owns its own cache, entries are namespaced by application ID and enterprise
+   * mode. Defaults to an in-memory LRU cache.
+   */
+  cacheStore?: CacheStore;
   /**
    * Should the Account Creation API be used? Explicit permission needs to be 
    * obtained from the CFTools team to use this API. When enabled, the client
@@ -210,8 +358,11 @@ export type ClientOptions = {
  * looking up users, listing bans, and sending messages to players.
  * See {@link https://developer.cftools.cloud/documentation/data-api} for more
  * information on the CFTools Data API.
+ *
+ * The client emits typed events ({@link ClientEvents}) for requests, responses,
+ * cache lookups, authentication and GameLabs actions.
  */
-export class CFToolsClient {
+export class CFToolsClient extends EventEmitter<ClientEvents> {
   /**
    * The logger used by the client to log messages.
    */
@@ -236,11 +387,39 @@ export class CFToolsClient {
    * Whether caching is enabled for the client.
    */
   public cachingEnabled = true;
+  /**
+   * The time (in seconds) an expired cache entry may still be served for,
+   * while it's refreshed in the background.
+   * @see {@link ClientOptions.cacheConfiguration}
+   */
+  public staleWhileRevalidate = 0;
   /**
    * Whether the account creation API is enabled for the client.
    * @see {@link ClientOptions.useAccountCreationAPI}
    */
   public useAccountCreationAPI = false;
+  /**
+   * Typed wrappers for GameLabs actions, by action code, e.g.
+   * `client.actions.CFCloud_HealPlayer({ target })`. Modded actions can be
+   * typed through `generateGameLabsActionTypes`.
+   * @see {@link performGameLabsAction}
+   */
+  public actions: GameLabsActionWrappers = createGameLabsActionWrappers(
+    (options) => this.performGameLabsAction(options),
+  );
+  /**
+   * The requests that are currently in-flight, by their cache key. Identical
+   * concurrent calls share the same promise, instead of firing duplicate requests.
+   * Requests are marked as invalidated when their cache entry is invalidated while
+   * they are in-flight, see {@link invalidateCache}.
+   */
+  private pendingRequests: Map<string, { request: Promise<unknown>; invalidated: boolean }> = new Map();
+  /**
+   * The hits, misses, evictions and invalidations per cache prefix, see {@link cacheStats}.
+   */
+  private cacheCounters = Object.fromEntries(cachePrefixes.map((prefix) => [
+    prefix, { hits: 0, staleHits: 0, misses: 0, evictions: 0, invalidations: 0 },
+  ])) as Record<CachePrefix, Omit<CachePrefixStatistics, 'entries' | 'size' | 'oldestEntryAge'>>;
 
   constructor(
     /**
@@ -252,6 +431,7 @@ export class CFToolsClient {
      */
     options?: ClientOptions,
   ) {
+    super();
     const { logger, cacheConfiguration } = options ?? {
       logger: undefined,
       cacheConfiguration: {},
@@ -261,11 +441,22 @@ export class CFToolsClient {
     this.requestClient = new RequestClient(
       this.authProvider,
       this.logger.extend('RequestClient'),
-      options?.requestTimeout
+      options?.requestTimeout,
+      options?.retryConfiguration,
+      options?.rateLimitConfiguration,
+      options?.fetch,
+      options?.apiBaseUrls,
+      options?.interceptors,
+      this,
+    );
+    this.cacheManager = new CacheManager(
+      options?.cacheStore,
+      `cftools:${clientAuth.applicationId}:${clientAuth.enterpriseToken ? 'enterprise' : 'public'}`,
     );
-    this.cacheManager = CacheManager.getInstance();
     this.cachingEnabled = cacheConfiguration?.enabled ?? true;
+    this.staleWhileRevalidate = cacheConfiguration?.staleWhileRevalidate ?? 0;
     delete cacheConfiguration?.enabled;
+    delete cacheConfiguration?.staleWhileRevalidate;
     this.cacheConfiguration = { ...defaultCacheConfiguration, ...cacheConfiguration };
     this.useAccountCreationAPI = options?.useAccountCreationAPI ?? false;
   }
@@ -278,26 +469,579 @@ export class CFToolsClient {
     return this.cacheConfiguration[prefix][1];
   }
 
-  private async cacheGet<T>(prefix: CachePrefix, key: string): Promise<T | null> {
+  private async cacheGet<T>(prefix: CachePrefix, key: string): Promise<CacheEntry<T> | null> {
     const resolvedKey = `${prefix}:${key}`;
-    const data = this.cachingEnabled ? await this.cacheManager.get<T>(resolvedKey) : null;
+    const entry = this.cachingEnabled ? await this.cacheManager.getEntry<T>(resolvedKey) : null;
+
+    this.logger.debug('Cache get', resolvedKey, entry);
 
-    this.logger.debug('Cache get', resolvedKey, data);
+    if (this.cachingEnabled) {
+      const counters = this.cacheCounters[prefix];
 
-    return data;
+      if (entry) {
+        counters.hits++;
+        counters.staleHits += entry.stale ? 1 : 0;
+      }
+      else {
+        counters.misses++;
+
+        // The entry is still tracked, but has been removed from the store
+        if (await this.cacheManager.has(resolvedKey)) {
+          counters.evictions++;
+          await this.cacheManager.del(resolvedKey);
+        }
+      }
+
+      this.emit(entry ? 'cacheHit' : 'cacheMiss', { prefix, key, stale: entry?.stale ?? false });
+    }
+
+    return entry;
   }
 
-  private async cacheSet<T>(prefix: CachePrefix, key: string, value: T): Promise<void> {
+  private async cacheSet<T>(prefix: CachePrefix, key: string, value: T, logicalKey?: unknown): Promise<void> {
     if (this.cachingEnabled) {
       const resolvedKey = `${prefix}:${key}`;
       const ttl = this.cacheTTL(prefix);
+      const staleTtl = this.staleWhileRevalidate * UnitConstants.MS_IN_ONE_S;
       const maxSize = this.cacheMaxSize(prefix);
 
-      await this.cacheManager.set<T>(resolvedKey, value, ttl);
-      await this.cacheManager.enforceMaxSizeForPrefix(prefix, maxSize);
+      await this.cacheManager.set<T>(resolvedKey, value, ttl, staleTtl, logicalKey);
+      this.cacheCounters[prefix].evictions += await this.cacheManager.enforceMaxSizeForPrefix(prefix, maxSize);
+
+      this.logger.debug('Cache set', `${resolvedKey} (${ttl}ms, ${staleTtl}ms stale, ${maxSize} max)`, value);
+    }
+  }
+
+  /**
+   * Resolves a response from the cache, or fetches (and caches) it when it's not cached.
+   * Identical concurrent calls share a single request, and when stale-while-revalidate is
+   * enabled, expired entries are served while a single background request refreshes them.
+   * @param prefix The prefix of the cache entry
+   * @param key The key of the cache entry, without the prefix
+   * @param logicalKey The key before it was hashed, e.g. the options the response is requested with
+   * @param fetcher The function that fetches the (transformed) response
+   * @returns The cached or fetched response
+   */
+  private async cached<T>(
+    prefix: CachePrefix,
+    key: string,
+    logicalKey: unknown,
+    fetcher: () => Promise<T>,
+  ): Promise<T> {
+    const entry = await this.cacheGet<T>(prefix, key);
+
+    if (entry && !entry.stale) {
+      return entry.value;
+    }
+
+    if (entry) {
+      this.coalesce(prefix, key, logicalKey, fetcher).catch((error) => {
+        this.logger.warn('Failed to revalidate stale cache entry', `${prefix}:${key}`, error);
+      });
+
+      return entry.value;
+    }
+
+    return this.coalesce(prefix, key, logicalKey, fetcher);
+  }
+
+  /**
+   * Fetches (and caches) a response, sharing the in-flight request with identical concurrent calls.
+   * Responses of requests that were invalidated while in-flight are not cached, as they may be outdated.
+   * @param prefix The prefix of the cache entry
+   * @param key The key of the cache entry, without the prefix
+   * @param logicalKey The key before it was hashed, e.g. the options the response is requested with
+   * @param fetcher The function that fetches the (transformed) response
+   * @returns The fetched response
+   */
+  private coalesce<T>(prefix: CachePrefix, key: string, logicalKey: unknown, fetcher: () => Promise<T>): Promise<T> {
+    const resolvedKey = `${prefix}:${key}`;
+    const pendingRequest = this.pendingRequests.get(resolvedKey);
+
+    if (pendingRequest) {
+      this.logger.debug('Joining in-flight request', resolvedKey);
+      return pendingRequest.request as Promise<T>;
+    }
+
+    const pending = { invalidated: false } as { request: Promise<T>; invalidated: boolean };
+
+    pending.request = (async () => {
+      const value = await fetcher();
+
+      if (!pending.invalidated) {
+        await this.cacheSet(prefix, key, value, logicalKey);
+      }
+
+      return value;
+    })().finally(() => {
+      if (this.pendingRequests.get(resolvedKey) === pending) {
+        this.pendingRequests.delete(resolvedKey);
+      }
+    });
+
+    this.pendingRequests.set(resolvedKey, pending);
+
+    return pending.request;
+  }
+
+  /**
+   * Resolves a cache key that is scoped to resources (e.g. a banlist, server or player),
+   * allowing the entries for a resource to be invalidated without affecting other resources.
+   * @param scope The resources the entry belongs to, from broad to narrow, missing
+   * resources are resolved to the {@link anyCacheScope}
+   * @param options Additional options the response was requested with
+   * @returns The scoped cache key
+   */
+  private scopedCacheKey(scope: (string | null | undefined)[], options?: unknown): string {
+    return [
+      ...scope.map((resource) => resource ?? anyCacheScope),
+      options === undefined ? rootCacheKey : CacheManager.hashKeyFromObject(options),
+    ].join(':');
+  }
+
+  /**
+   * Invalidates all cache entries that belong to the provided scope. Requests for the scope
+   * that are in-flight are no longer shared with new calls, and their response isn't cached.
+   * @param prefix The prefix of the cache entries to invalidate
+   * @param scope The resources to invalidate the entries for, from broad to narrow
+   */
+  private async invalidateCache(prefix: CachePrefix, ...scope: string[]): Promise<void> {
+    const resolvedPrefix = `${[prefix, ...scope].join(':')}:`;
+
+    for (const [key, pendingRequest] of this.pendingRequests) {
+      if (key.startsWith(resolvedPrefix)) {
+        pendingRequest.invalidated = true;
+        this.pendingRequests.delete(key);
+      }
+    }
+
+    this.cacheCounters[prefix].invalidations += await this.cacheManager.clearPrefixEntries(resolvedPrefix);
+
+    this.logger.debug('Cache invalidated', resolvedPrefix);
+  }
+
+  /**
+   * Resolves the cached entries for a cache prefix, optionally filtered by their logical key.
+   * @param prefix The prefix of the cache entries
+   * @param logicalKey The key before it was hashed, e.g. the options the response was requested with
+   * @returns The (tracked) keys of the matching entries, including the prefix
+   */
+  private async cacheKeysFor(prefix: CachePrefix, logicalKey?: unknown): Promise<string[]> {
+    const keys = await this.cacheManager.keysForPrefix(`${prefix}:`);
+
+    if (logicalKey === undefined) {
+      return keys;
+    }
+
+    const serializedLogicalKey = JSON.stringify(logicalKey);
+
+    return keys.filter((key) => JSON.stringify(this.cacheManager.metadata(key)?.logicalKey) === serializedLogicalKey);
+  }
+
+  /**
+   * Reports the cache statistics of this client, per cache prefix and in total. The hits,
+   * misses, evictions and invalidations are counted since the client was created, and can
+   * be used to tune the {@link cacheConfiguration}.
+   * @returns The cache statistics of this client.
+   */
+  public async cacheStats(): Promise<CacheStatistics> {
+    const now = Date.now();
+    const total: CachePrefixStatistics = {
+      hits: 0, staleHits: 0, misses: 0, evictions: 0, invalidations: 0, entries: 0, size: 0, oldestEntryAge: null,
+    };
+    const prefixes = {} as Record<CachePrefix, CachePrefixStatistics>;
+
+    for (const prefix of cachePrefixes) {
+      const metadata = (await this.cacheKeysFor(prefix))
+        .map((key) => this.cacheManager.metadata(key))
+        .filter((entry): entry is CacheKeyMetadata => entry !== null && entry.removedAt > now);
+      const statistics: CachePrefixStatistics = {
+        ...this.cacheCounters[prefix],
+        entries: metadata.length,
+        size: metadata.reduce((size, entry) => size + entry.size, 0),
+        oldestEntryAge: metadata.length ? now - Math.min(...metadata.map((entry) => entry.createdAt)) : null,
+      };
+
+      prefixes[prefix] = statistics;
+      total.hits += statistics.hits;
+      total.staleHits += statistics.staleHits;
+      total.misses += statistics.misses;
+      total.evictions += statistics.evictions;
+      total.invalidations += statistics.invalidations;
+      total.entries += statistics.entries;
+      total.size += statistics.size;
+      total.oldestEntryAge = statistics.oldestEntryAge === null
+        ? total.oldestEntryAge
+        : Math.max(total.oldestEntryAge ?? 0, statistics.oldestEntryAge);
+    }
+
+    return { prefixes, total };
+  }
+
+  /**
+   * Inspects the cached entries for a cache prefix. Entries can be looked up by their logical
+   * key, which is the argument the response was requested with, e.g. the server API ID for
+   * `serverInfo`, or the options for `listBans`.
+   * @param prefix The prefix of the cache entries to inspect
+   * @param logicalKey The logical key to inspect the entry for, inspects all entries if omitted
+   * @returns The cached entries, including their metadata
+   */
+  public async inspectCache<T = unknown>(prefix: CachePrefix, logicalKey?: unknown): Promise<CacheEntryDetails<T>[]> {
+    const now = Date.now();
+    const details: CacheEntryDetails<T>[] = [];
+
+    for (const key of await this.cacheKeysFor(prefix, logicalKey)) {
+      const [entry, metadata] = [await this.cacheManager.getEntry<T>(key), this.cacheManager.metadata(key)];
+
+      if (entry && metadata) {
+        details.push({
+          ...entry,
+          ...metadata,
+          prefix,
+          key: key.slice(prefix.length + 1),
+          age: now - metadata.createdAt,
+        });
+      }
+    }
+
+    return details;
+  }
+
+  /**
+   * Evicts cached entries for a cache prefix, by their logical key, see {@link inspectCache}.
+   * @param prefix The prefix of the cache entries to evict
+   * @param logicalKey The logical key to evict the entry for, evicts all entries if omitted
+   * @returns The number of evicted entries
+   */
+  public async evictCache(prefix: CachePrefix, logicalKey?: unknown): Promise<number> {
+    const keys = await this.cacheKeysFor(prefix, logicalKey);
+
+    await Promise.all(keys.map((key) => this.cacheManager.del(key)));
+    this.cacheCounters[prefix].invalidations += keys.length;
+    this.logger.debug('Cache evicted', prefix, keys);
+
+    return keys.length;
+  }
+
+  /**
+   * Plans and (unless in dry-run mode) replays an import. Rows that have expired, resolve
+   * to an existing entry or to a player that doesn't exist are skipped, as are duplicate
+   * rows within the import itself.
+   * @param parsed The parsed rows to import
+   * @param options The options to import the rows with
+   * @param resolve Resolves the identifier of a row, or a plan item if the row is skipped
+   * @param existing The identifiers of the existing entries
+   * @param operation Creates the entry for a row, with the resolved identifier
+   * @param label The label of the entries, used for logging
+   * @returns The report of the import
+   */
+  private async importEntries<R extends { expiresAt: Date | null }>(
+    parsed: ParsedTransferRows<R>,
+    options: BulkOperationOptions & { dryRun?: boolean },
+    resolve: (row: R) => Promise<string | ImportPlanItem<R>>,
+    existing: Set<string>,
+    operation: (row: R, identifier: string) => Promise<void>,
+    label: string,
+  ): Promise<ImportReport<R>> {
+    const plan: ImportPlanItem<R>[] = [];
+    const identifiers = new Map<R, string>();
+    const { results: resolutions } = await runBulkOperation(
+      parsed.rows.filter((row) => !row.expiresAt || row.expiresAt.getTime() > Date.now()),
+      resolve,
+      options.concurrency,
+    );
+    const resolutionsByRow = new Map(resolutions.map((result) => [result.item, result]));
+
+    // Rows are resolved concurrently, but existing and duplicate rows are detected in row order
+    for (const row of parsed.rows) {
+      const resolution = resolutionsByRow.get(row);
+
+      if (!resolution) {
+        plan.push({ row, action: 'skip', reason: 'expired' });
+        continue;
+      }
+
+      if (resolution.status !== 'success' && !isNotFoundError(resolution.error)) {
+        throw resolution.error;
+      }
+
+      const resolved = resolution.status === 'success'
+        ? resolution.value
+        : { row, action: 'skip', reason: 'player-not-found' } as const;
+
+      if (typeof resolved !== 'string') {
+        plan.push(resolved);
+      }
+      else if (existing.has(resolved)) {
+        plan.push({ row, action: 'skip', reason: 'exists' });
+      }
+      else {
+        existing.add(resolved);
+        identifiers.set(row, resolved);
+        plan.push({ row, action: 'create' });
+      }
+    }
+
+    const dryRun = options.dryRun ?? false;
+    const rows = plan.filter((item) => item.action === 'create').map((item) => item.row);
+    const { results } = dryRun
+      ? { results: [] }
+      : await runBulkOperation(rows, (row) => operation(row, identifiers.get(row) as string), options.concurrency);
+
+    this.logger.debug(
+      `${dryRun ? 'Planned' : 'Completed'} import of ${label}`,
+      { errors: parsed.errors.length, create: rows.length, skip: plan.length - rows.length },
+    );
+
+    return { dryRun, errors: parsed.errors, plan, results };
+  }
+
+  /**
+   * Lists the whitelist or priority queue entries for a server, an empty list
+   * is returned instead of throwing a `NotFoundError`.
+   * @param bucket The list to fetch the entries for
+   * @param options The options to fetch the entries with
+   * @returns The entries in the list
+   */
+  private async listEntries(
+    bucket: 'whitelist' | 'priorityQueue',
+    options: GetWhitelistOptions | GetPriorityQueueOptions,
+  ): Promise<ReconciledEntry[]> {
+    try {
+      return bucket === 'whitelist'
+        ? await this.getWhitelist(options)
+        : await this.getPriorityQueue(options);
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Plans and (unless in dry-run mode) applies the minimal changes to make the whitelist
+   * or priority queue of a server match the desired entries.
+   * @param bucket The list to reconcile
+   * @param options The options to reconcile the list with
+   * @returns The report of the reconciliation
+   */
+  private async reconcileEntries(
+    bucket: 'whitelist' | 'priorityQueue',
+    options: ReconcileOptions,
+  ): Promise<ReconcileReport> {
+    const serverApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
+    const current = new Map((await this.listEntries(bucket, { serverApiId }))
+      .map((entry) => [entry.user.cftoolsId, entry]));
+    const desired = new Map<string, DesiredEntry>();
+    const plan: ReconcilePlanItem[] = [];
+    const isManaged = (entry: ReconciledEntry) => entry.meta.fromApi || (options.includeManualEntries ?? false);
+
+    const lookups = await runBulkOperation(
+      options.entries.filter((entry) => !entry.expiresAt || entry.expiresAt.getTime() > Date.now()),
+      async (entry) => (await this.lookupUser(entry.playerId)).cftoolsId,
+      options.concurrency,
+    );
+
+    for (const result of lookups.results) {
+      if (result.status !== 'success') {
+        if (!isNotFoundError(result.error)) {
+          throw result.error;
+        }
+        plan.push({ action: 'skip', cftoolsId: null, desired: result.item, current: null, reason: 'player-not-found' });
+        continue;
+      }
+
+      if (desired.has(result.value)) {
+        plan.push({
+          action: 'skip',
+          cftoolsId: result.value,
+          desired: result.item,
+          current: current.get(result.value) ?? null,
+          reason: 'duplicate',
+        });
+        continue;
+      }
+
+      desired.set(result.value, result.item);
+    }
+
+    for (const [cftoolsId, entry] of desired) {
+      const currentEntry = current.get(cftoolsId) ?? null;
+
+      if (!currentEntry) {
+        plan.push({ action: 'add', cftoolsId, desired: entry, current: null });
+        continue;
+      }
+
+      const changes: ('comment' | 'expiresAt')[] = [];
+
+      if (entry.comment !== currentEntry.meta.comment) {
+        changes.push('comment');
+      }
+      if ((entry.expiresAt?.getTime() ?? null) !== (currentEntry.meta.expiration?.getTime() ?? null)) {
+        changes.push('expiresAt');
+      }
+
+      plan.push(!changes.length
+        ? { action: 'keep', cftoolsId, desired: entry, current: currentEntry }
+        : isManaged(currentEntry)
+          ? { action: 'update', cftoolsId, desired: entry, current: currentEntry, changes }
+          : { action: 'skip', cftoolsId, desired: entry, current: currentEntry, changes, reason: 'manual-entry' });
+    }
 
-      this.logger.debug('Cache set', `${resolvedKey} (${ttl}ms, ${maxSize} max)`, value);
+    for (const [cftoolsId, entry] of current) {
+      if (!desired.has(cftoolsId)) {
+        plan.push(isManaged(entry)
+          ? { action: 'remove', cftoolsId, desired: null, current: entry }
+          : { action: 'skip', cftoolsId, desired: null, current: entry, reason: 'manual-entry' });
+      }
     }
+
+    const post = bucket === 'whitelist' ? this.postWhitelist : this.postPriorityQueue;
+    const remove = bucket === 'whitelist' ? this.deleteWhitelist : this.deletePriorityQueue;
+    const dryRun = options.dryRun ?? false;
+    const steps = plan.filter((item) => ['add', 'update', 'remove'].includes(item.action));
+    const { results } = dryRun ? { results: [] } : await runBulkOperation(steps, async (item) => {
+      const playerId = item.cftoolsId as string;
+      const postDesired = () => post.call(this, {
+        serverApiId,
+        playerId,
+        comment: item.desired?.comment ?? '',
+        expiresAt: item.desired?.expiresAt ?? null,
+      });
+
+      switch (item.action) {
+      case 'add':
+        return postDesired();
+      case 'remove':
+        return remove.call(this, { serverApiId, playerId });
+      default:
+        return this.replaceEntry(
+          () => remove.call(this, { serverApiId, playerId }),
+          postDesired,
+          () => post.call(this, {
+            serverApiId,
+            playerId,
+            comment: item.current?.meta.comment ?? '',
+            expiresAt: item.current?.meta.expiration ?? null,
+          }),
+        );
+      }
+    }, options.concurrency);
+
+    this.logger.debug(
+      `${dryRun ? 'Planned' : 'Completed'} reconciliation of ${bucket}`,
+      Object.fromEntries(['add', 'update', 'remove', 'keep', 'skip']
+        .map((action) => [action, plan.filter((item) => item.action === action).length])),
+    );
+
+    return {
+      dryRun,
+      plan,
+      results: results.map((result): ReconcileStepResult => result.status !== 'success'
+        && isRenewalFailedError(result.error)
+        ? { ...result, partial: result.error.restored ? 'restored' : 'removed' }
+        : result),
+    };
+  }
+
+  /**
+   * Extends an expiration date by a duration, from the current expiration or from now
+   * if the entry has already expired. Permanent entries are kept permanent.
+   * @param expiresAt The current expiration date, `null` for permanent entries
+   * @param extendBy The duration (in ms) to extend the expiration by
+   * @returns The extended expiration date
+   */
+  private extendExpiration(expiresAt: Date | null, extendBy: number): Date | null {
+    return expiresAt ? new Date(Math.max(expiresAt.getTime(), Date.now()) + extendBy) : null;
+  }
+
+  /**
+   * Throws if a renewed entry would already have expired, the entry is deleted
+   * before it's re-created - so everything that can be validated is validated first.
+   * @param expiresAt The renewed expiration, `null` for permanent entries
+   * @throws {InvalidOptionError} Thrown if the renewed expiration is not in the future.
+   */
+  private assertRenewedExpiration(expiresAt: Date | null): void {
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new InvalidOptionError(null, 'The renewed expiration must be in the future');
+    }
+  }
+
+  /**
+   * Replaces an entry by deleting and re-creating it, the API doesn't support updating
+   * entries. If re-creating the entry fails, the original entry is restored.
+   * @param remove Deletes the current entry
+   * @param create Creates the new entry
+   * @param restore Re-creates the original entry
+   * @throws {RenewalFailedError} Thrown if the new entry could not be created.
+   */
+  private async replaceEntry(
+    remove: () => Promise<void>,
+    create: () => Promise<void>,
+    restore: () => Promise<void>,
+  ): Promise<void> {
+    await remove();
+
+    try {
+      await create();
+    } catch (error) {
+      let restored = true;
+
+      try {
+        await restore();
+      } catch (restoreError) {
+        restored = false;
+        this.logger.error('Failed to restore the original entry', restoreError);
+      }
+
+      throw new RenewalFailedError(error, restored);
+    }
+  }
+
+  /**
+   * Renews a whitelist or priority queue entry with a new expiration, by deleting and
+   * re-posting the entry - the API doesn't support updating entries.
+   * @param bucket The list the entry is in
+   * @param options The options to renew the entry with
+   * @returns The new expiration date of the entry, `null` for permanent entries
+   * @throws {InvalidOptionError} Thrown if the renewed expiration is not in the future.
+   * @throws {RenewalFailedError} Thrown if the entry was deleted, but could not be re-posted.
+   */
+  private async renewEntry(bucket: 'whitelist' | 'priorityQueue', options: RenewEntryOptions): Promise<Date | null> {
+    const serverApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
+    const [current] = await this.listEntries(bucket, { serverApiId, playerId: options.playerId });
+
+    if (!current) {
+      throw new NotFoundError(null, `Player not found in ${bucket === 'whitelist' ? 'whitelist' : 'priority queue'}`);
+    }
+
+    const playerId = current.user.cftoolsId;
+    const comment = options.comment ?? current.meta.comment;
+    const expiresAt = options.extendBy !== undefined
+      ? this.extendExpiration(current.meta.expiration, options.extendBy)
+      : options.expiresAt;
+
+    this.assertRenewedExpiration(expiresAt);
+
+    const post = bucket === 'whitelist' ? this.postWhitelist : this.postPriorityQueue;
+    const remove = bucket === 'whitelist' ? this.deleteWhitelist : this.deletePriorityQueue;
+
+    await this.replaceEntry(
+      () => remove.call(this, { serverApiId, playerId }),
+      () => post.call(this, { serverApiId, playerId, comment, expiresAt }),
+      () => post.call(this, {
+        serverApiId,
+        playerId,
+        comment: current.meta.comment,
+        expiresAt: current.meta.expiration,
+      }),
+    );
+
+    this.logger.debug(`Renewed ${bucket} entry`, playerId, expiresAt);
+
+    return expiresAt;
   }
 
   /**
@@ -317,8 +1061,8 @@ export class CFToolsClient {
   }
 
   /**
-   * Resolves the dynamic player ID to a CFTools ID. This id can be a string,
-   * or {@link AnyPlayerId}.
+   * Resolves the dynamic player ID to a CFTools ID. This id can be a string (including
+   * Steam and CFTools profile URLs, see {@link lookupUser}), or {@link AnyPlayerId}.
    * @param options The options to resolve the dynamic player ID from.
    * @returns The resolved CFTools ID.
    */
@@ -398,23 +1142,90 @@ export class CFToolsClient {
    */
   public async getAppGrants(): Promise<ClientGrantsResponse> {
     const cachePrefix = 'appGrants';
-    const cachedResponse = await this.cacheGet<ClientGrantsResponse>(cachePrefix, rootCacheKey);
 
-    if (cachedResponse) {
-      this.logger.debug('Returning cached app grants', cachedResponse);
-      return cachedResponse;
-    }
+    return this.cached<ClientGrantsResponse>(cachePrefix, rootCacheKey, null, async () => {
+      const response = await this.requestClient.get<GrantsResponse>(
+        this.requestClient.apiUrl(API_VERSION.V1, '/@app/grants'),
+      );
 
-    const response = await this.requestClient.get<GrantsResponse>(
-      this.requestClient.apiUrl(API_VERSION.V1, '/@app/grants'),
-    );
+      const transformedResponse = transformGrantResponse(response);
+
+      this.logger.debug('Transformed app grants', response, transformedResponse);
+
+      return transformedResponse;
+    });
+  }
+
+  /**
+   * Resolves a handle for every server the client has been granted access to, see
+   * {@link getAppGrants}. The handles expose the client methods without the server API ID.
+   * @returns The handles for all granted servers.
+   */
+  public async servers(): Promise<ServerHandle[]> {
+    const grants = await this.getAppGrants();
+
+    return grants.server.map((grant) => new ServerHandle(this, grant.resource.id, grant));
+  }
+
+  /**
+   * Resolves a handle for a single server, which exposes the client methods without
+   * the server API ID. Doesn't verify the client has been granted access to the server.
+   * @param serverApiId The server API ID of the server, defaults to the client's server API ID.
+   * @returns The handle for the server.
+   * @throws {MissingServerApiIdError} Thrown if the server API ID is not provided.
+   */
+  public server(serverApiId?: string): ServerHandle {
+    return new ServerHandle(this, this.authProvider.resolveServerApiId(serverApiId, true));
+  }
+
+  /**
+   * Resolves a handle for every banlist the client has been granted access to, see
+   * {@link getAppGrants}. The handles expose the client methods without the banlist ID.
+   * @returns The handles for all granted banlists.
+   */
+  public async banLists(): Promise<BanListHandle[]> {
+    const grants = await this.getAppGrants();
 
-    const transformedResponse = transformGrantResponse(response);
+    return grants.banlist.map((grant) => new BanListHandle(this, grant.resource.id, grant));
+  }
 
-    this.cacheSet(cachePrefix, rootCacheKey, transformedResponse);
-    this.logger.debug('Transformed app grants', response, transformedResponse);
+  /**
+   * Resolves a handle for a single banlist, which exposes the client methods without
+   * the banlist ID. Doesn't verify the client has been granted access to the banlist.
+   * @param banListId The ID of the banlist.
+   * @returns The handle for the banlist.
+   */
+  public banList(banListId: string): BanListHandle {
+    return new BanListHandle(this, banListId);
+  }
+
+  /**
+   * Performs an operation on every server the client has been granted access to, concurrently.
+   * A failure for one server doesn't affect the others, and is reported in it's result.
+   * @param operation The operation to perform for every server.
+   * @returns The result of the operation for every server.
+   */
+  public async forEachServer<T>(operation: (server: ServerHandle) => Promise<T>): Promise<ServerFanOutResult<T>[]> {
+    const servers = await this.servers();
+    const results = await Promise.allSettled(servers.map((server) => operation(server)));
+
+    return results.map((result, index): ServerFanOutResult<T> => result.status === 'fulfilled'
+      ? { serverApiId: servers[index].serverApiId, status: 'fulfilled', value: result.value }
+      : { serverApiId: servers[index].serverApiId, status: 'rejected', error: result.reason });
+  }
+
+  /**
+   * Broadcasts a message to all players on every server the client has been granted access to.
+   * @param content The content of the message.
+   * @returns The result for every server.
+   * @throws {MaxLengthExceededError} Thrown if the message content exceeds 256 characters.
+   */
+  public async broadcastMessage(content: string): Promise<ServerFanOutResult<void>[]> {
+    if (content.length > 256) {
+      throw new MaxLengthExceededError(null, 'Server message content must be less than 256 characters');
+    }
 
-    return transformedResponse;
+    return this.forEachServer((server) => server.messageServer({ content }));
   }
 
   /**
@@ -428,30 +1239,27 @@ export class CFToolsClient {
   public async gameServerDetails(options: string | ResolveServerIdOptions): Promise<ClientGameServerResponse> {
     const cachePrefix = 'gameServerDetails';
     const cacheKey = CacheManager.hashKeyFromObject(options);
-    const cachedResponse = await this.cacheGet<ClientGameServerResponse>(cachePrefix, cacheKey);
-
-    if (cachedResponse) {
-      this.logger.debug('Returning cached game server details', cachedResponse);
-      return cachedResponse;
-    }
 
-    const serverId = this.resolveServerId(options);
-    const response = await this.requestClient.get<GameServerResponse>(
-      this.requestClient.apiUrl(API_VERSION.V1, `/gameserver/${serverId}`),
-    );
+    return this.cached<ClientGameServerResponse>(cachePrefix, cacheKey, options, async () => {
+      const serverId = this.resolveServerId(options);
+      const response = await this.requestClient.get<GameServerResponse>(
+        this.requestClient.apiUrl(API_VERSION.V1, `/gameserver/${serverId}`),
+      );
 
-    const transformedResponse = transformGameServerDetails(response, serverId);
+      const transformedResponse = transformGameServerDetails(response, serverId);
 
-    this.cacheSet(cachePrefix, cacheKey, transformedResponse);
-    this.logger.debug('Transformed game server details', response, transformedResponse);
+      this.logger.debug('Transformed game server details', response, transformedResponse);
 
-    return transformedResponse;
+      return transformedResponse;
+    });
   }
 
   /**
-   * Resolves a string or {@link AnyPlayerId} to a CFTools ID.
+   * Resolves a string or {@link AnyPlayerId} to a CFTools ID. Strings can also be any input
+   * that is accepted by {@link PlayerId.parse}, e.g. a Steam or CFTools profile URL.
    * @param id The ID to lookup.
    * @returns The resolved CFTools ID.
+   * @throws {UnresolvedVanityUrlError} Thrown if the ID is a Steam vanity URL.
    * @see {`/v1/users/lookup`} for more information.
    */
   public async lookupUser(
@@ -462,16 +1270,7 @@ export class CFToolsClient {
      */
     useAccountCreationAPI = this.useAccountCreationAPI,
   ): Promise<ClientLookupUserResponse> {
-    const cachePrefix = 'userLookup';
-    const cacheKey = CacheManager.hashKeyFromObject(id);
-    const cachedResponse = await this.cacheGet<ClientLookupUserResponse>(cachePrefix, cacheKey);
-
-    if (cachedResponse) {
-      this.logger.debug('Returning cached user lookup', cachedResponse);
-      return cachedResponse;
-    }
-
-    const resolvedId = typeof id === 'string' ? id : id.getRawId();
+    const resolvedId = resolveRawPlayerId(id);
     const usesAccountCreationAPI = useAccountCreationAPI && isSteam64(resolvedId);
 
     if (isCFToolsId(resolvedId)) {
@@ -480,36 +1279,187 @@ export class CFToolsClient {
       };
     }
 
-    let response;
-    try {
-      response = await this.requestClient.get<LookupUserResponse>(
-        this.requestClient.apiUrl(API_VERSION.V1, '/users/lookup', {
-          identifier: resolvedId,
-        }),
-      );
-    } catch (error) {
-      if (isNotFoundError(error) && usesAccountCreationAPI) {
+    const cachePrefix = 'userLookup';
+    const cacheKey = CacheManager.hashKeyFromObject(resolvedId);
+
+    return this.cached<ClientLookupUserResponse>(cachePrefix, cacheKey, resolvedId, async () => {
+      let response;
+      try {
         response = await this.requestClient.get<LookupUserResponse>(
           this.requestClient.apiUrl(API_VERSION.V1, '/users/lookup', {
             identifier: resolvedId,
-            create: 'true',
           }),
         );
+      } catch (error) {
+        if (isNotFoundError(error) && usesAccountCreationAPI) {
+          response = await this.requestClient.get<LookupUserResponse>(
+            this.requestClient.apiUrl(API_VERSION.V1, '/users/lookup', {
+              identifier: resolvedId,
+              create: 'true',
+            }),
+          );
+        }
+        else {
+          throw error;
+        }
       }
-      else {
-        throw error;
+
+      const transformedResponse: ClientLookupUserResponse = {
+        cftoolsId: response.cftools_id,
+        notice: response.notice,
+      };
+
+      this.logger.debug('Successfully looked up user', response);
+
+      return transformedResponse;
+    });
+  }
+
+  /**
+   * Resolves all known identities of a player, by combining {@link lookupUser} with the
+   * identities in the player statistics ({@link getPlayerStats}) on a server. The identities
+   * are cached under the `userLookup` prefix for every known ID form, so that later calls to
+   * this method (for the same server) or {@link lookupUser} with any of them hit the cache.
+   * @param id The ID of the player to resolve the identities for.
+   * @param serverApiId The server to resolve the player statistics from, without a server (or
+   * when the player has no statistics on the server) only the looked up identities, and the
+   * identities derived from a Steam64 ID, are known.
+   * @returns The known identities of the player.
+   * @throws {NotFoundError} Thrown if the player could not be looked up.
+   * @throws {UnresolvedVanityUrlError} Thrown if the ID is a Steam vanity URL, see {@link lookupUser}.
+   */
+  public async resolveIdentities(id: string | AnyPlayerId, serverApiId?: string): Promise<PlayerIdentities> {
+    const resolvedId = resolveRawPlayerId(id);
+    const resolvedServerApiId = this.authProvider.resolveServerApiId(serverApiId);
+    const cachePrefix = 'userLookup';
+    // The identities depend on the statistics on the server, so they are cached per server
+    const identitiesKey = (playerId: string) => this.scopedCacheKey(['identities', resolvedServerApiId], playerId);
+
+    return this.cached<PlayerIdentities>(cachePrefix, identitiesKey(resolvedId), resolvedId, async () => {
+      const { cftoolsId } = await this.lookupUser(resolvedId);
+      const identities = seedPlayerIdentities(cftoolsId, resolvedId);
+
+      if (resolvedServerApiId) {
+        try {
+          mergeStatsIdentities(identities, await this.getPlayerStats({
+            serverApiId: resolvedServerApiId,
+            playerId: cftoolsId,
+          }));
+        } catch (error) {
+          if (!isNotFoundError(error)) {
+            throw error;
+          }
+        }
       }
-    }
 
-    const transformedResponse: ClientLookupUserResponse = {
-      cftoolsId: response.cftools_id,
-      notice: response.notice,
+      deriveSteam64Identities(identities);
+
+      const otherIds = [identities.cftoolsId, identities.steam64, identities.battleyeGuid, identities.bohemiaUid]
+        .filter((playerId): playerId is string => playerId !== null && playerId !== resolvedId);
+
+      // CFTools IDs are never looked up, see lookupUser
+      await Promise.all(otherIds.flatMap((playerId) => [
+        this.cacheSet(cachePrefix, identitiesKey(playerId), identities, playerId),
+        ...playerId === cftoolsId ? [] : [this.cacheSet<ClientLookupUserResponse>(
+          cachePrefix, CacheManager.hashKeyFromObject(playerId), { cftoolsId }, playerId,
+        )],
+      ]));
+
+      this.logger.debug('Resolved player identities', identities);
+
+      return identities;
+    });
+  }
+
+  /**
+   * Resolves multiple players to their CFTools IDs, see {@link lookupUser}. Players are
+   * looked up with bounded concurrency, and failures are reported per player.
+   * @param playerIds The IDs of the players to lookup.
+   * @param options The options to lookup the players with.
+   * @returns The report with a result for every player.
+   */
+  public async bulkLookupUser(
+    playerIds: (AnyPlayerId | string)[],
+    options: BulkOperationOptions & {
+      /**
+       * Whether the Account Creation API should be used.
+       * @see {@link ClientOptions.useAccountCreationAPI}
+       */
+      useAccountCreationAPI?: boolean;
+    } = {},
+  ): Promise<BulkOperationReport<AnyPlayerId | string, ClientLookupUserResponse>> {
+    const report = await runBulkOperation(
+      playerIds,
+      (playerId) => this.lookupUser(playerId, options.useAccountCreationAPI),
+      options.concurrency,
+    );
+
+    this.logger.debug('Bulk looked up users', report.counts);
+
+    return report;
+  }
+
+  /**
+   * Aggregates the profile of a player, combining {@link lookupUser}, {@link getSessionByPlayerId},
+   * {@link getPlayerStats}, {@link getWhitelist} and {@link getPriorityQueue} for every server, and
+   * {@link listBans} for every banlist. Everything after the lookup is resolved concurrently, and
+   * failures are included per section instead of failing the whole profile.
+   * @param playerId The ID of the player to aggregate the profile for.
+   * @param options The servers and banlists to include in the profile.
+   * @returns The profile of the player.
+   * @throws {NotFoundError} Thrown if the player could not be looked up.
+   */
+  public async getPlayerProfile(
+    playerId: AnyPlayerId | string,
+    options: PlayerProfileOptions = {},
+  ): Promise<PlayerProfile> {
+    const lookup = await this.lookupUser(playerId);
+    const { cftoolsId } = lookup;
+    const defaultServerApiId = this.authProvider.resolveServerApiId();
+    const serverApiIds = options.servers ?? (defaultServerApiId ? [defaultServerApiId] : []);
+
+    const [servers, banLists] = await Promise.all([
+      Promise.all(serverApiIds.map(async (serverApiId): Promise<PlayerProfileServer> => {
+        const [session, stats, whitelist, priorityQueue] = await Promise.all([
+          settleProfileSection(() => this.getSessionByPlayerId({ serverApiId, playerId: cftoolsId })),
+          settleProfileSection(() => this.getPlayerStats({ serverApiId, playerId: cftoolsId })),
+          settleProfileSection(async () => {
+            const [entry] = await this.getWhitelist({ serverApiId, playerId: cftoolsId });
+            return entry ?? null;
+          }),
+          settleProfileSection(async () => {
+            const [entry] = await this.getPriorityQueue({ serverApiId, playerId: cftoolsId });
+            return entry ?? null;
+          }),
+        ]);
+
+        return { serverApiId, session, stats, whitelist, priorityQueue };
+      })),
+      Promise.all((options.banLists ?? []).map(async (banListId): Promise<PlayerProfileBanList> => {
+        const bans = await settleProfileSection(() => this.listBans({ banListId, filter: cftoolsId }));
+
+        return {
+          banListId,
+          bans: bans.status === 'fulfilled' ? { status: 'fulfilled', value: bans.value ?? [] } : bans,
+        };
+      })),
+    ]);
+
+    const banned = banLists.some(({ bans }) => bans.status === 'fulfilled' && bans.value.some(
+      (ban) => ban.status === 'Ban.ACTIVE' && (!ban.expiresAt || ban.expiresAt.getTime() > Date.now()),
+    ));
+    const profile: PlayerProfile = {
+      cftoolsId,
+      lookup,
+      identities: resolveProfileIdentities(cftoolsId, servers, resolveRawPlayerId(playerId)),
+      servers,
+      banLists,
+      banned,
     };
 
-    this.cacheSet(cachePrefix, cacheKey, transformedResponse);
-    this.logger.debug('Successfully looked up user', response);
+    this.logger.debug('Aggregated player profile', profile);
 
-    return transformedResponse;
+    return profile;
   }
 
   /**
@@ -520,17 +1470,8 @@ export class CFToolsClient {
    * @param options The options to list bans with.
    * @returns The list of bans.
    * @see {`/v1/banlist/{banlist_id}/bans`} for more information.
-   */
-  public async listBans(options: ListBansOptions): Promise<ClientListBansResponse> {
-    const cachePrefix = 'listBans';
-    const cacheKey = CacheManager.hashKeyFromObject(options);
-    const cachedResponse = await this.cacheGet<ClientListBansResponse>(cachePrefix, cacheKey);
-
-    if (cachedResponse) {
-      this.logger.debug('Returning cached ban list', cachedResponse);
-      return cachedResponse;
-    }
-
+   */
+  public async listBans(options: ListBansOptions): Promise<ClientListBansResponse> {
     const { banListId, filter } = options;
     const resolvedFilterId = typeof filter === 'string' ? filter : filter?.getRawId();
     const resolvedFilter = typeof resolvedFilterId === 'string'
@@ -539,17 +1480,40 @@ export class CFToolsClient {
         : (await this.lookupUser(resolvedFilterId)).cftoolsId
       : resolvedFilterId;
 
-    const params = resolvedFilter ? new URLSearchParams({ filter: resolvedFilter }) : undefined;
-    const response = await this.requestClient.get<ListBansResponse>(
-      this.requestClient.apiUrl(API_VERSION.V1, `/banlist/${banListId}/bans`, params),
-    );
+    const cachePrefix = 'listBans';
+    const cacheKey = this.scopedCacheKey([banListId, resolvedFilter]);
+
+    return this.cached<ClientListBansResponse>(cachePrefix, cacheKey, options, async () => {
+      const params = resolvedFilter ? new URLSearchParams({ filter: resolvedFilter }) : undefined;
+      const response = await this.requestClient.get<ListBansResponse>(
+        this.requestClient.apiUrl(API_VERSION.V1, `/banlist/${banListId}/bans`, params),
+      );
+
+      const transformedResponse = transformBanListResponse(response);
+
+      this.logger.debug('Transformed ban list', response, transformedResponse);
 
-    const transformedResponse = transformBanListResponse(response);
+      return transformedResponse;
+    });
+  }
 
-    this.cacheSet(cachePrefix, cacheKey, transformedResponse);
-    this.logger.debug('Transformed ban list', response, transformedResponse);
+  /**
+   * Iterates over the bans on a banlist, see {@link listBans}. On top of the `filter`
+   * that is sent to the API, bans can be filtered client-side by status, expiry window
+   * and reason. The Data API doesn't paginate bans, so the banlist is fetched once -
+   * bans are yielded lazily, and iteration can be stopped at any time.
+   * @param options The options to list and filter the bans with.
+   * @returns An async iterator over the matching bans.
+   * @see {`/v1/banlist/{banlist_id}/bans`} for more information.
+   */
+  public async *iterateBans(options: IterateBansOptions): AsyncGenerator<ClientListBansResponse[number]> {
+    const { status, expires, reason, ...listOptions } = options;
 
-    return transformedResponse;
+    for (const ban of await this.listBans(listOptions)) {
+      if (matchesBanFilter(ban, { status, expires, reason })) {
+        yield ban;
+      }
+    }
   }
 
   /**
@@ -575,7 +1539,10 @@ export class CFToolsClient {
       }
     );
 
-    await this.cacheManager.clearPrefixEntries('listBans');
+    await Promise.all([
+      this.invalidateCache('listBans', options.banListId, resolvedIdentifier),
+      this.invalidateCache('listBans', options.banListId, anyCacheScope),
+    ]);
 
     this.logger.debug('Successfully created ban', response);
   }
@@ -594,11 +1561,129 @@ export class CFToolsClient {
       }),
     );
 
-    await this.cacheManager.clearPrefixEntries('listBans');
+    await this.invalidateCache('listBans', options.banListId);
 
     this.logger.debug('Successfully deleted ban', response);
   }
 
+  /**
+   * Bans multiple players on one or more banlists, see {@link createBan}. Bans are created
+   * with bounded concurrency, and failures are reported per banlist and player.
+   * @param options The options to ban the players with.
+   * @returns The report with a result for every banlist and player.
+   */
+  public async bulkCreateBan(options: BulkCreateBanOptions): Promise<BulkOperationReport<BulkCreateBanItem>> {
+    const { banListIds, playerIds, concurrency, ...banOptions } = options;
+    const items = (Array.isArray(banListIds) ? banListIds : [banListIds])
+      .flatMap((banListId) => playerIds.map((playerId) => ({ banListId, playerId })));
+
+    const report = await runBulkOperation(items, (item) => this.createBan({
+      ...banOptions,
+      banListId: item.banListId,
+      format: 'cftools_id',
+      identifier: item.playerId,
+    }), concurrency);
+
+    this.logger.debug('Bulk created bans', report.counts);
+
+    return report;
+  }
+
+  /**
+   * Imports bans that were exported with `serializeBans`, see {@link createBan}. Rows are
+   * validated first, and rows that are already actively banned on the banlist, have
+   * expired or are inactive are skipped. Steam64 IDs are resolved to CFTools IDs.
+   * @param options The options to import the bans with.
+   * @returns The report with the validation errors, the plan and a result for every created ban.
+   * @throws {SyntaxError} Thrown if the data isn't valid JSON, or not an array of rows.
+   */
+  public async importBans(options: ImportBansOptions): Promise<ImportReport<BanTransferRow>> {
+    const { banListId } = options;
+    const existing = new Set((await this.listBans({ banListId }))
+      .filter((ban) => ban.status === 'Ban.ACTIVE')
+      .map((ban) => ban.identifier));
+
+    return this.importEntries(
+      parseBans(options.data, options.format),
+      options,
+      async (row) => {
+        if (row.status && row.status !== 'Ban.ACTIVE') {
+          return { row, action: 'skip', reason: 'inactive' };
+        }
+
+        return isIPv4(row.identifier) ? row.identifier : (await this.lookupUser(row.identifier)).cftoolsId;
+      },
+      existing,
+      (row, identifier) => this.createBan({
+        banListId,
+        format: isIPv4(identifier) ? 'ipv4' : 'cftools_id',
+        identifier,
+        reason: row.reason,
+        expires: row.expiresAt ?? 'PERMANENT',
+      }),
+      'bans',
+    );
+  }
+
+  /**
+   * Renews a ban with a new expiration, or extends it's current expiration by a duration
+   * (`extendBy`, in ms). The API doesn't support updating bans, so the ban is deleted and
+   * re-created - keeping it's identifier and reason unless a new reason is provided.
+   * @param options The options to renew the ban with.
+   * @returns The re-created ban, which has a new ID.
+   * @throws {NotFoundError} Thrown if the ban does not exist, or the re-created ban could not be found.
+   * @throws {MaxLengthExceededError} Thrown if the ban reason exceeds 128 characters.
+   * @throws {InvalidOptionError} Thrown if the renewed expiration is not in the future.
+   * @throws {RenewalFailedError} Thrown if the ban was deleted, but could not be re-created - the
+   * original ban is restored if possible.
+   */
+  public async renewBan(options: RenewBanOptions): Promise<ClientListBansResponse[number]> {
+    const { banListId, banId } = options;
+    const bans = await this.listBans({ banListId });
+    const ban = bans.find((entry) => entry.id === banId);
+
+    if (!ban) {
+      throw new NotFoundError(null, 'Ban not found');
+    }
+
+    const expires = options.extendBy !== undefined
+      ? this.extendExpiration(ban.expiresAt, options.extendBy) ?? 'PERMANENT'
+      : options.expires;
+    const reason = options.reason ?? ban.reason;
+    const format = isIPv4(ban.identifier) ? 'ipv4' : 'cftools_id';
+
+    if (reason.length > 128) {
+      throw new MaxLengthExceededError(null, 'Ban reason must be less than 128 characters');
+    }
+
+    this.assertRenewedExpiration(expires === 'PERMANENT' ? null : expires);
+
+    await this.replaceEntry(
+      () => this.deleteBan({ banListId, banId }),
+      () => this.createBan({ banListId, format, identifier: ban.identifier, reason, expires }),
+      () => this.createBan({
+        banListId,
+        format,
+        identifier: ban.identifier,
+        reason: ban.reason,
+        expires: ban.expiresAt ?? 'PERMANENT',
+      }),
+    );
+
+    // The API doesn't return the created ban, so it's resolved by it's (new) ID
+    const banIds = new Set(bans.map((entry) => entry.id));
+    const renewed = (await this.listBans({ banListId, filter: ban.identifier }))
+      .find((entry) => !banIds.has(entry.id) && entry.identifier === ban.identifier);
+
+    if (!renewed) {
+      throw new NotFoundError(null, 'Renewed ban not found');
+    }
+
+    this.logger.debug('Renewed ban', banId, renewed.id, expires);
+
+    return renewed;
+  }
+
   /**
    * Fetches server information from the CFTools Data API. This includes
    * information about the server such as the name, description, and more.
@@ -611,24 +1696,72 @@ export class CFToolsClient {
   public async serverInfo(serverApiId?: string): Promise<ClientServerInfoResponse> {
     const cachePrefix = 'serverInfo';
     const cacheKey = CacheManager.hashKeyFromObject(serverApiId);
-    const cachedResponse = await this.cacheGet<ClientServerInfoResponse>(cachePrefix, cacheKey);
 
-    if (cachedResponse) {
-      this.logger.debug('Returning cached server info', cachedResponse);
-      return cachedResponse;
-    }
+    return this.cached<ClientServerInfoResponse>(cachePrefix, cacheKey, serverApiId, async () => {
+      const resolvedServerApiId = this.authProvider.resolveServerApiId(serverApiId, true);
+      const response = await this.requestClient.get<ServerInfoResponse>(
+        this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/info`),
+      );
 
-    const resolvedServerApiId = this.authProvider.resolveServerApiId(serverApiId, true);
-    const response = await this.requestClient.get<ServerInfoResponse>(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/info`),
-    );
+      const transformedResponse = transformServerInfoResponse(response);
+
+      this.logger.debug('Transformed server info', response, transformedResponse);
+
+      return transformedResponse;
+    });
+  }
 
-    const transformedResponse = transformServerInfoResponse(response);
+  /**
+   * Monitors the health of one or more servers, emitting events when a server goes offline
+   * or online, the GameLabs integration (dis)connects, the worker state changes, the game-server
+   * query fails, or a scheduled restart is imminent. The returned monitor is started immediately,
+   * and should be stopped with {@link ServerHealthMonitor.stop} when it's no longer needed.
+   * @param serverApiIds The server API ID(s) to monitor, defaults to the client's server API ID.
+   * @param interval The interval (in ms) between checks, defaults to the TTL of the `serverInfo` cache.
+   * @param restartLeadTime The time (in ms) before a scheduled restart, at which `restartImminent` is emitted.
+   * @returns The started server health monitor.
+   * @throws {MissingServerApiIdError} Thrown if the server API ID is not provided.
+   */
+  public monitorServers(
+    serverApiIds?: string | string[],
+    interval?: number,
+    restartLeadTime?: number,
+  ): ServerHealthMonitor {
+    const resolvedServerApiIds = Array.isArray(serverApiIds)
+      ? serverApiIds
+      : [this.authProvider.resolveServerApiId(serverApiIds, true)];
+    const monitor = new ServerHealthMonitor(this, resolvedServerApiIds, interval, restartLeadTime);
+
+    monitor.start();
 
-    this.cacheSet(cachePrefix, cacheKey, transformedResponse);
-    this.logger.debug('Transformed server info', response, transformedResponse);
+    return monitor;
+  }
 
-    return transformedResponse;
+  /**
+   * Scans bans, whitelist and priority queue entries for expirations, emitting `expiringSoon`
+   * events when an entry expires within one of the lead times, and `expired` events when an
+   * entry has expired. The returned scheduler is started immediately, and should be stopped
+   * with {@link ExpirationScheduler.stop} when it's no longer needed.
+   * @param targets The lists to scan, defaults to the whitelist and priority queue of the client's server.
+   * @param interval The interval (in ms) between scans, defaults to 1 hour.
+   * @param leadTimes The lead times (in ms) before an entry expires, at which `expiringSoon` is emitted.
+   * @returns The started expiration scheduler.
+   * @throws {MissingServerApiIdError} Thrown if no targets are provided, and the server API ID is not provided.
+   */
+  public scheduleExpirations(
+    targets?: ExpirationTarget[],
+    interval?: number,
+    leadTimes?: number[],
+  ): ExpirationScheduler {
+    const resolvedTargets = targets ?? (['whitelist', 'priorityQueue'] as const).map((type) => ({
+      type,
+      serverApiId: this.authProvider.resolveServerApiId(undefined, true),
+    }));
+    const scheduler = new ExpirationScheduler(this, resolvedTargets, interval, leadTimes);
+
+    scheduler.start();
+
+    return scheduler;
   }
 
   /**
@@ -643,24 +1776,19 @@ export class CFToolsClient {
   public async serverStatistics(serverApiId?: string): Promise<ClientServerStatisticsResponse> {
     const cachePrefix = 'serverStatistics';
     const cacheKey = CacheManager.hashKeyFromObject(serverApiId);
-    const cachedResponse = await this.cacheGet<ClientServerStatisticsResponse>(cachePrefix, cacheKey);
-
-    if (cachedResponse) {
-      this.logger.debug('Returning cached server statistics', cachedResponse);
-      return cachedResponse;
-    }
 
-    const resolvedServerApiId = this.authProvider.resolveServerApiId(serverApiId, true);
-    const response = await this.requestClient.get<ServerStatisticsResponse>(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/statistics`),
-    );
+    return this.cached<ClientServerStatisticsResponse>(cachePrefix, cacheKey, serverApiId, async () => {
+      const resolvedServerApiId = this.authProvider.resolveServerApiId(serverApiId, true);
+      const response = await this.requestClient.get<ServerStatisticsResponse>(
+        this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/statistics`),
+      );
 
-    const transformedResponse = transformServerStatisticsResponse(response);
+      const transformedResponse = transformServerStatisticsResponse(response);
 
-    this.cacheSet(cachePrefix, cacheKey, transformedResponse);
-    this.logger.debug('Transformed server statistics', response, transformedResponse);
+      this.logger.debug('Transformed server statistics', response, transformedResponse);
 
-    return transformedResponse;
+      return transformedResponse;
+    });
   }
 
   /**
@@ -673,26 +1801,41 @@ export class CFToolsClient {
    * @see {`/v1/server/{server_id}/GSM/list`} for more information.
    */
   public async playerList(serverApiId?: string): Promise<ClientPlayerListResponse> {
+    const resolvedServerApiId = this.authProvider.resolveServerApiId(serverApiId, true);
     const cachePrefix = 'playerList';
-    const cacheKey = CacheManager.hashKeyFromObject(serverApiId);
-    const cachedResponse = await this.cacheGet<ClientPlayerListResponse>(cachePrefix, cacheKey);
+    const cacheKey = this.scopedCacheKey([resolvedServerApiId]);
 
-    if (cachedResponse) {
-      this.logger.debug('Returning cached player list', cachedResponse);
-      return cachedResponse;
-    }
+    return this.cached<ClientPlayerListResponse>(cachePrefix, cacheKey, resolvedServerApiId, async () => {
+      const response = await this.requestClient.get<PlayerListResponse>(
+        this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/GSM/list`),
+      );
 
-    const resolvedServerApiId = this.authProvider.resolveServerApiId(serverApiId, true);
-    const response = await this.requestClient.get<PlayerListResponse>(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/GSM/list`),
-    );
+      const transformedResponse = transformPlayerListResponse(response);
+
+      this.logger.debug('Transformed player list', response, transformedResponse);
+
+      return transformedResponse;
+    });
+  }
 
-    const transformedResponse = transformPlayerListResponse(response);
+  /**
+   * Watches the player list of one or more servers, emitting `playerJoin`, `playerLeave`,
+   * `playerUpdate` and `radarFlagged` events. The returned watcher is started immediately,
+   * and should be stopped with {@link PlayerListWatcher.stop} when it's no longer needed.
+   * @param serverApiIds The server API ID(s) to watch, defaults to the client's server API ID.
+   * @param interval The interval (in ms) between polls, defaults to the TTL of the `playerList` cache.
+   * @returns The started player list watcher.
+   * @throws {MissingServerApiIdError} Thrown if the server API ID is not provided.
+   */
+  public watchPlayers(serverApiIds?: string | string[], interval?: number): PlayerListWatcher {
+    const resolvedServerApiIds = Array.isArray(serverApiIds)
+      ? serverApiIds
+      : [this.authProvider.resolveServerApiId(serverApiIds, true)];
+    const watcher = new PlayerListWatcher(this, resolvedServerApiIds, interval);
 
-    this.cacheSet(cachePrefix, cacheKey, transformedResponse);
-    this.logger.debug('Transformed player list', response, transformedResponse);
+    watcher.start();
 
-    return transformedResponse;
+    return watcher;
   }
 
   /**
@@ -730,6 +1873,7 @@ export class CFToolsClient {
    * @see {`/v1/server/{server_id}/kick`} for more information.
    */
   public async kickPlayer(options: KickOptions): Promise<void> {
+    const resolvedServerApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
     const resolvedSessionId = typeof options.id === 'string'
       ? options.id
       : (await this.getSessionByPlayerId({
@@ -746,13 +1890,15 @@ export class CFToolsClient {
     }
 
     const response = await this.requestClient.post(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${options.serverApiId}/kick`),
+      this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/kick`),
       {
         gamesession_id: resolvedSessionId,
         reason: options.reason,
       }
     );
 
+    await this.invalidateCache('playerList', resolvedServerApiId);
+
     this.logger.debug('Successfully kicked player', response);
   }
 
@@ -849,24 +1995,19 @@ export class CFToolsClient {
   public async gameLabsActions(serverApiId?: string): Promise<ClientGameLabsActionsResponse> {
     const cachePrefix = 'gameLabsActions';
     const cacheKey = CacheManager.hashKeyFromObject(serverApiId);
-    const cachedResponse = await this.cacheGet<ClientGameLabsActionsResponse>(cachePrefix, cacheKey);
-
-    if (cachedResponse) {
-      this.logger.debug('Returning cached GameLabs actions', cachedResponse);
-      return cachedResponse;
-    }
 
-    const resolvedServerApiId = this.authProvider.resolveServerApiId(serverApiId, true);
-    const response = await this.requestClient.get<GameLabsActionsResponse>(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/GameLabs/actions`),
-    );
+    return this.cached<ClientGameLabsActionsResponse>(cachePrefix, cacheKey, serverApiId, async () => {
+      const resolvedServerApiId = this.authProvider.resolveServerApiId(serverApiId, true);
+      const response = await this.requestClient.get<GameLabsActionsResponse>(
+        this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/GameLabs/actions`),
+      );
 
-    const transformedResponse = transformGameLabsActionsResponse(response);
+      const transformedResponse = transformGameLabsActionsResponse(response);
 
-    this.cacheSet(cachePrefix, cacheKey, transformedResponse);
-    this.logger.debug('Transformed GameLabs actions', response, transformedResponse);
+      this.logger.debug('Transformed GameLabs actions', response, transformedResponse);
 
-    return transformedResponse;
+      return transformedResponse;
+    });
   }
 
   /**
@@ -882,24 +2023,19 @@ export class CFToolsClient {
   public async gameLabsEntityEvents(serverApiId?: string): Promise<ClientGameLabsEntityEventsResponse> {
     const cachePrefix = 'gameLabsEntityEvents';
     const cacheKey = CacheManager.hashKeyFromObject(serverApiId);
-    const cachedResponse = await this.cacheGet<ClientGameLabsEntityEventsResponse>(cachePrefix, cacheKey);
-
-    if (cachedResponse) {
-      this.logger.debug('Returning cached GameLabs entity events', cachedResponse);
-      return cachedResponse;
-    }
 
-    const resolvedServerApiId = this.authProvider.resolveServerApiId(serverApiId, true);
-    const response = await this.requestClient.get<GameLabsEntityEventsResponse>(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/GameLabs/entities/events`),
-    );
+    return this.cached<ClientGameLabsEntityEventsResponse>(cachePrefix, cacheKey, serverApiId, async () => {
+      const resolvedServerApiId = this.authProvider.resolveServerApiId(serverApiId, true);
+      const response = await this.requestClient.get<GameLabsEntityEventsResponse>(
+        this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/GameLabs/entities/events`),
+      );
 
-    const transformedResponse = transformGameLabsEntityEventsResponse(response);
+      const transformedResponse = transformGameLabsEntityEventsResponse(response);
 
-    this.cacheSet(cachePrefix, cacheKey, transformedResponse);
-    this.logger.debug('Transformed GameLabs entity events', response, transformedResponse);
+      this.logger.debug('Transformed GameLabs entity events', response, transformedResponse);
 
-    return transformedResponse;
+      return transformedResponse;
+    });
   }
 
   /**
@@ -915,24 +2051,19 @@ export class CFToolsClient {
   public async gameLabsEntityVehicles(serverApiId?: string): Promise<ClientGameLabsEntityVehiclesResponse> {
     const cachePrefix = 'gameLabsEntityVehicles';
     const cacheKey = CacheManager.hashKeyFromObject(serverApiId);
-    const cachedResponse = await this.cacheGet<ClientGameLabsEntityVehiclesResponse>(cachePrefix, cacheKey);
-
-    if (cachedResponse) {
-      this.logger.debug('Returning cached GameLabs entity vehicles', cachedResponse);
-      return cachedResponse;
-    }
 
-    const resolvedServerApiId = this.authProvider.resolveServerApiId(serverApiId, true);
-    const response = await this.requestClient.get<GameLabsEntityVehiclesResponse>(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/GameLabs/entities/vehicles`),
-    );
+    return this.cached<ClientGameLabsEntityVehiclesResponse>(cachePrefix, cacheKey, serverApiId, async () => {
+      const resolvedServerApiId = this.authProvider.resolveServerApiId(serverApiId, true);
+      const response = await this.requestClient.get<GameLabsEntityVehiclesResponse>(
+        this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/GameLabs/entities/vehicles`),
+      );
 
-    const transformedResponse = transformGameLabsEntityVehiclesResponse(response);
+      const transformedResponse = transformGameLabsEntityVehiclesResponse(response);
 
-    this.cacheSet(cachePrefix, cacheKey, transformedResponse);
-    this.logger.debug('Transformed GameLabs entity vehicles', response, transformedResponse);
+      this.logger.debug('Transformed GameLabs entity vehicles', response, transformedResponse);
 
-    return transformedResponse;
+      return transformedResponse;
+    });
   }
 
   /**
@@ -945,17 +2076,19 @@ export class CFToolsClient {
    */
   public async postGameLabsAction(options: PostGameLabsActionOptions): Promise<void> {
     const resolvedServerApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
+    const action = {
+      actionCode: options.actionCode,
+      actionContext: options.actionContext,
+      referenceKey: options.referenceKey,
+      parameters: options.parameters ?? {},
+    };
     const response = await this.requestClient.post(
       this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/GameLabs/action`),
-      {
-        actionCode: options.actionCode,
-        actionContext: options.actionContext,
-        referenceKey: options.referenceKey,
-        parameters: options.parameters ?? {},
-      }
+      action,
     );
 
     this.logger.debug('Successfully posted GameLabs action', response);
+    this.emit('gameLabsActionPosted', { ...action, serverApiId: resolvedServerApiId });
   }
 
   /**
@@ -987,6 +2120,72 @@ export class CFToolsClient {
     );
 
     this.logger.debug('Successfully batch posted GameLabs actions', response);
+
+    for (const action of options.actions) {
+      this.emit('gameLabsActionPosted', { ...action, serverApiId: resolvedServerApiId });
+    }
+  }
+
+  /**
+   * Builds a GameLabs action from the actions available on the server, see
+   * {@link gameLabsActions}. This allows modded actions that are not part of
+   * {@link GameLabsActionCode} to be performed without knowing the wire format:
+   * supplied parameters are validated against the types declared by the action,
+   * omitted parameters use the declared default value.
+   * 
+   * The `target` option can be a CFTools ID, a dynamic player ID, or a session,
+   * and is resolved to the Steam64 ID of the online player for `player` actions.
+   * `vehicle` and `object` actions take a `referenceKey` instead.
+   * @param options The options to build the GameLabs action with.
+   * @returns The action, which can be posted through {@link postGameLabsAction} or {@link batchPostGameLabsAction}.
+   * @throws {UnknownGameLabsActionError} Thrown if the action is not available on the server.
+   * @throws {GameLabsActionError} Thrown if the action is performed in the wrong context, or without a target.
+   * @throws {InvalidGameLabsParameterError} Thrown if a parameter is unknown, or has an invalid value.
+   * @throws {NotFoundError} Thrown if the targeted player is not online.
+   */
+  public async buildGameLabsAction(options: BuildGameLabsActionOptions): Promise<PostGameLabsActionOptions> {
+    const resolvedServerApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
+    const actions = await this.gameLabsActions(resolvedServerApiId);
+    const action = resolveGameLabsAction(actions, options.actionCode, options.actionContext);
+    let referenceKey = options.referenceKey;
+
+    if (options.target !== undefined) {
+      if (action.actionContext !== 'player') {
+        throw new GameLabsActionError(
+          action.actionCode,
+          `GameLabs action ${action.actionCode} is a ${action.actionContext} action, it can't target a player`,
+        );
+      }
+
+      const steam64 = await this.resolvePlayerReferenceKey({
+        target: options.target,
+        serverApiId: resolvedServerApiId,
+      });
+
+      if (!steam64) {
+        throw new NotFoundError(null, 'Player session not found');
+      }
+
+      referenceKey = steam64;
+    }
+
+    return {
+      ...buildGameLabsAction(action, { referenceKey, parameters: options.parameters }),
+      serverApiId: resolvedServerApiId,
+    };
+  }
+
+  /**
+   * Builds and performs a GameLabs action, see {@link buildGameLabsAction}.
+   * @param options The options to perform the GameLabs action with.
+   * @throws {UnknownGameLabsActionError} Thrown if the action is not available on the server.
+   * @throws {GameLabsActionError} Thrown if the action is performed in the wrong context, or without a target.
+   * @throws {InvalidGameLabsParameterError} Thrown if a parameter is unknown, or has an invalid value.
+   * @throws {NotFoundError} Thrown if the targeted player is not online.
+   * @see {@link postGameLabsAction} for more information.
+   */
+  public async performGameLabsAction(options: BuildGameLabsActionOptions): Promise<void> {
+    await this.postGameLabsAction(await this.buildGameLabsAction(options));
   }
 
   /**
@@ -1785,15 +2984,7 @@ export class CFToolsClient {
    * @see {`/server/{serverApiId}/queuepriority`} for more information on the CFTools API endpoint.
    */
   public async getPriorityQueue(options: GetPriorityQueueOptions): Promise<ClientPriorityQueueResponse> {
-    const cachePrefix = 'priorityQueue';
-    const cacheKey = CacheManager.hashKeyFromObject(options);
-    const cachedResponse = await this.cacheGet<ClientPriorityQueueResponse>(cachePrefix, cacheKey);
-
-    if (cachedResponse) {
-      this.logger.debug('Returning cached priority queue', cachedResponse);
-      return cachedResponse;
-    }
-
+    const resolvedServerApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
     const resolvedOptions: Record<string, string> = {};
 
     if (options.playerId) {
@@ -1806,20 +2997,45 @@ export class CFToolsClient {
       resolvedOptions['comment'] = options.comment;
     }
 
-    const response = await this.requestClient.get<PriorityQueueResponse>(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${options.serverApiId}/queuepriority`, resolvedOptions),
-    );
+    const cachePrefix = 'priorityQueue';
+    const cacheKey = this.scopedCacheKey([resolvedServerApiId, resolvedOptions['cftools_id']], options.comment);
 
-    if (response.entries.length === 0) {
-      throw new NotFoundError(null, 'Player not found in priority queue');
-    }
+    return this.cached<ClientPriorityQueueResponse>(cachePrefix, cacheKey, options, async () => {
+      const response = await this.requestClient.get<PriorityQueueResponse>(
+        this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/queuepriority`, resolvedOptions),
+      );
+
+      if (response.entries.length === 0) {
+        throw new NotFoundError(null, 'Player not found in priority queue');
+      }
+
+      const transformedResponse = transformPriorityQueueResponse(response);
 
-    const transformedResponse = transformPriorityQueueResponse(response);
+      this.logger.debug('Transformed priority queue', response, transformedResponse);
 
-    this.cacheSet(cachePrefix, cacheKey, transformedResponse);
-    this.logger.debug('Transformed priority queue', response, transformedResponse);
+      return transformedResponse;
+    });
+  }
+
+  /**
+   * Iterates over the priority queue of a server, see {@link getPriorityQueue}. On top of the `playerId`
+   * and `comment` filters that are sent to the API, entries can be filtered client-side by
+   * expiry window, creator and a comment pattern. The Data API doesn't paginate the priority queue,
+   * so it's fetched once - entries are yielded lazily, and iteration can be stopped at any time.
+   * @param options The options to list and filter the entries with.
+   * @returns An async iterator over the matching entries, empty if there are no entries.
+   * @see {`/v1/server/{server_id}/queuepriority`} for more information.
+   */
+  public async *iteratePriorityQueue(
+    options: IteratePriorityQueueOptions = {},
+  ): AsyncGenerator<ClientPriorityQueueResponse[number]> {
+    const { expires, creator, commentPattern, ...listOptions } = options;
 
-    return transformedResponse;
+    for (const entry of await this.listEntries('priorityQueue', listOptions)) {
+      if (matchesEntryFilter(entry, { expires, creator, commentPattern })) {
+        yield entry as ClientPriorityQueueResponse[number];
+      }
+    }
   }
 
   /**
@@ -1839,12 +3055,13 @@ export class CFToolsClient {
    * @see {`/server/{serverApiId}/queuepriority`} for more information on the CFTools API endpoint.
    */
   public async postPriorityQueue(options: PostPriorityQueueOptions): Promise<void> {
+    const resolvedServerApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
     const resolvedPlayerId = await this.resolveDynamicPlayerId(options);
 
     let currentPriorityQueue = null;
     try {
       currentPriorityQueue = await this.getPriorityQueue({
-        serverApiId: options.serverApiId,
+        serverApiId: resolvedServerApiId,
         playerId: resolvedPlayerId,
       });
     } catch (error) {
@@ -1858,7 +3075,7 @@ export class CFToolsClient {
     }
     
     const response = await this.requestClient.post(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${options.serverApiId}/queuepriority`),
+      this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/queuepriority`),
       {
         cftools_id: resolvedPlayerId,
         expires_at: options.expiresAt ? options.expiresAt.toISOString() : null,
@@ -1866,7 +3083,10 @@ export class CFToolsClient {
       }
     );
 
-    await this.cacheManager.clearPrefixEntries('priorityQueue');
+    await Promise.all([
+      this.invalidateCache('priorityQueue', resolvedServerApiId, resolvedPlayerId),
+      this.invalidateCache('priorityQueue', resolvedServerApiId, anyCacheScope),
+    ]);
 
     this.logger.debug('Successfully posted to priority queue', response);
   }
@@ -1885,19 +3105,107 @@ export class CFToolsClient {
    * @see {`/server/{serverApiId}/queuepriority`} for more information on the CFTools API endpoint.
    */
   public async deletePriorityQueue(options: DeletePriorityQueueOptions): Promise<void> {
+    const resolvedServerApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
     const resolvedPlayerId = await this.resolveDynamicPlayerId(options);
     
     const response = await this.requestClient.delete(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${options.serverApiId}/queuepriority`, {
+      this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/queuepriority`, {
         cftools_id: resolvedPlayerId,
       }),
     );
 
-    await this.cacheManager.clearPrefixEntries('priorityQueue');
+    await Promise.all([
+      this.invalidateCache('priorityQueue', resolvedServerApiId, resolvedPlayerId),
+      this.invalidateCache('priorityQueue', resolvedServerApiId, anyCacheScope),
+    ]);
 
     this.logger.debug('Successfully deleted from priority queue', response);
   }
 
+  /**
+   * Posts multiple players to the priority queue, see {@link postPriorityQueue}. Players are
+   * posted with bounded concurrency, and failures (e.g. a `DuplicateEntryError`) are reported
+   * per player.
+   * @param options The options to post the players with.
+   * @returns The report with a result for every player.
+   * @throws {MissingServerApiIdError} Thrown if the server API ID is not provided.
+   */
+  public async bulkPostPriorityQueue(
+    options: BulkPostPriorityQueueOptions,
+  ): Promise<BulkOperationReport<AnyPlayerId | string>> {
+    const { playerIds, concurrency, ...entryOptions } = options;
+    const serverApiId = this.authProvider.resolveServerApiId(entryOptions.serverApiId, true);
+
+    const report = await runBulkOperation(
+      playerIds,
+      (playerId) => this.postPriorityQueue({ ...entryOptions, serverApiId, playerId }),
+      concurrency,
+    );
+
+    this.logger.debug('Bulk posted to priority queue', report.counts);
+
+    return report;
+  }
+
+  /**
+   * Imports priority queue entries that were exported with `serializePriorityQueue`, see {@link postPriorityQueue}.
+   * Rows are validated first, and players that already have an entry, or rows that have
+   * expired, are skipped. Player IDs are resolved to CFTools IDs.
+   * @param options The options to import the entries with.
+   * @returns The report with the validation errors, the plan and a result for every created entry.
+   * @throws {MissingServerApiIdError} Thrown if the server API ID is not provided.
+   * @throws {SyntaxError} Thrown if the data isn't valid JSON, or not an array of rows.
+   */
+  public async importPriorityQueue(options: ImportPlayerListOptions): Promise<ImportReport<PlayerListTransferRow>> {
+    const serverApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
+    const existing = new Set((await this.listEntries('priorityQueue', { serverApiId }))
+      .map((entry) => entry.user.cftoolsId));
+
+    return this.importEntries(
+      parsePlayerListEntries(options.data, options.format),
+      options,
+      async (row) => (await this.lookupUser(row.playerId)).cftoolsId,
+      existing,
+      (row, playerId) => this.postPriorityQueue({
+        serverApiId,
+        playerId,
+        comment: row.comment,
+        expiresAt: row.expiresAt,
+      }),
+      'priority queue entries',
+    );
+  }
+
+  /**
+   * Reconciles the priority queue of a server with a desired set of entries, e.g. from your own
+   * database. The current priority queue is diffed against the desired entries, and only the
+   * minimal {@link postPriorityQueue} and {@link deletePriorityQueue} calls are made. Entries that weren't
+   * created through the API are left untouched, unless `includeManualEntries` is set.
+   * Use `dryRun` to only return the plan.
+   * @param options The options to reconcile the priority queue with.
+   * @returns The report with the plan and a result for every applied change.
+   * @throws {MissingServerApiIdError} Thrown if the server API ID is not provided.
+   */
+  public async reconcilePriorityQueue(options: ReconcileOptions): Promise<ReconcileReport> {
+    return this.reconcileEntries('priorityQueue', options);
+  }
+
+  /**
+   * Renews the priority queue entry of a player with a new expiration, or extends it's current
+   * expiration by a duration (`extendBy`, in ms). The API doesn't support updating entries,
+   * so the entry is deleted and re-posted - keeping it's comment unless a new one is provided.
+   * @param options The options to renew the entry with.
+   * @returns The new expiration date of the entry, `null` for permanent entries.
+   * @throws {NotFoundError} Thrown if the player is not found in the priority queue.
+   * @throws {MissingServerApiIdError} Thrown if the server API ID is not provided.
+   * @throws {InvalidOptionError} Thrown if the renewed expiration is not in the future.
+   * @throws {RenewalFailedError} Thrown if the entry was deleted, but could not be re-posted - the
+   * original entry is restored if possible.
+   */
+  public async renewPriorityQueue(options: RenewEntryOptions): Promise<Date | null> {
+    return this.renewEntry('priorityQueue', options);
+  }
+
   /**
    * Queries the whitelist for a specific player.
    * 
@@ -1914,15 +3222,7 @@ export class CFToolsClient {
    * @see {`/v1/server/{server_id}/whitelist`} for more information.
    */
   public async getWhitelist(options: GetWhitelistOptions): Promise<ClientWhitelistResponse> {
-    const cachePrefix = 'whitelist';
-    const cacheKey = CacheManager.hashKeyFromObject(options);
-    const cachedResponse = await this.cacheGet<ClientWhitelistResponse>(cachePrefix, cacheKey);
-
-    if (cachedResponse) {
-      this.logger.debug('Returning cached whitelist', cachedResponse);
-      return cachedResponse;
-    }
-
+    const resolvedServerApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
     const resolvedOptions: Record<string, string> = {};
 
     if (options.playerId) {
@@ -1935,16 +3235,41 @@ export class CFToolsClient {
       resolvedOptions['comment'] = options.comment;
     }
 
-    const response = await this.requestClient.get<WhitelistResponse>(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${options.serverApiId}/whitelist`, resolvedOptions),
-    );
+    const cachePrefix = 'whitelist';
+    const cacheKey = this.scopedCacheKey([resolvedServerApiId, resolvedOptions['cftools_id']], options.comment);
+
+    return this.cached<ClientWhitelistResponse>(cachePrefix, cacheKey, options, async () => {
+      const response = await this.requestClient.get<WhitelistResponse>(
+        this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/whitelist`, resolvedOptions),
+      );
 
-    const transformedResponse = transformWhitelistResponse(response);
+      const transformedResponse = transformWhitelistResponse(response);
+
+      this.logger.debug('Transformed whitelist', response, transformedResponse);
+
+      return transformedResponse;
+    });
+  }
 
-    this.cacheSet(cachePrefix, cacheKey, transformedResponse);
-    this.logger.debug('Transformed whitelist', response, transformedResponse);
+  /**
+   * Iterates over the whitelist of a server, see {@link getWhitelist}. On top of the `playerId`
+   * and `comment` filters that are sent to the API, entries can be filtered client-side by
+   * expiry window, creator and a comment pattern. The Data API doesn't paginate the whitelist,
+   * so it's fetched once - entries are yielded lazily, and iteration can be stopped at any time.
+   * @param options The options to list and filter the entries with.
+   * @returns An async iterator over the matching entries, empty if there are no entries.
+   * @see {`/v1/server/{server_id}/whitelist`} for more information.
+   */
+  public async *iterateWhitelist(
+    options: IterateWhitelistOptions = {},
+  ): AsyncGenerator<ClientWhitelistResponse[number]> {
+    const { expires, creator, commentPattern, ...listOptions } = options;
 
-    return transformedResponse;
+    for (const entry of await this.listEntries('whitelist', listOptions)) {
+      if (matchesEntryFilter(entry, { expires, creator, commentPattern })) {
+        yield entry as ClientWhitelistResponse[number];
+      }
+    }
   }
 
   /**
@@ -1964,10 +3289,11 @@ export class CFToolsClient {
    * @see {`/v1/server/{server_id}/whitelist`} for more information.
    */
   public async postWhitelist(options: PostWhitelistOptions): Promise<void> {
+    const resolvedServerApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
     const resolvedPlayerId = await this.resolveDynamicPlayerId(options);
 
     const currentWhitelist = await this.getWhitelist({
-      serverApiId: options.serverApiId,
+      serverApiId: resolvedServerApiId,
       playerId: resolvedPlayerId,
     });
 
@@ -1976,7 +3302,7 @@ export class CFToolsClient {
     }
     
     const response = await this.requestClient.post(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${options.serverApiId}/whitelist`),
+      this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/whitelist`),
       {
         cftools_id: resolvedPlayerId,
         expires_at: options.expiresAt ? options.expiresAt.toISOString() : null,
@@ -1984,7 +3310,10 @@ export class CFToolsClient {
       }
     );
 
-    await this.cacheManager.clearPrefixEntries('whitelist');
+    await Promise.all([
+      this.invalidateCache('whitelist', resolvedServerApiId, resolvedPlayerId),
+      this.invalidateCache('whitelist', resolvedServerApiId, anyCacheScope),
+    ]);
 
     this.logger.debug('Successfully posted to whitelist', response);
   }
@@ -2003,19 +3332,106 @@ export class CFToolsClient {
    * @see {`/v1/server/{server_id}/whitelist`} for more information.
    */
   public async deleteWhitelist(options: DeleteWhitelistOptions): Promise<void> {
+    const resolvedServerApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
     const resolvedPlayerId = await this.resolveDynamicPlayerId(options);
     
     const response = await this.requestClient.delete(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${options.serverApiId}/whitelist`, {
+      this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/whitelist`, {
         cftools_id: resolvedPlayerId,
       }),
     );
 
-    await this.cacheManager.clearPrefixEntries('whitelist');
+    await Promise.all([
+      this.invalidateCache('whitelist', resolvedServerApiId, resolvedPlayerId),
+      this.invalidateCache('whitelist', resolvedServerApiId, anyCacheScope),
+    ]);
 
     this.logger.debug('Successfully deleted from whitelist', response);
   }
 
+  /**
+   * Posts multiple players to the whitelist, see {@link postWhitelist}. Players are posted
+   * with bounded concurrency, and failures (e.g. a `DuplicateEntryError`) are reported per player.
+   * @param options The options to post the players with.
+   * @returns The report with a result for every player.
+   * @throws {MissingServerApiIdError} Thrown if the server API ID is not provided.
+   */
+  public async bulkPostWhitelist(
+    options: BulkPostWhitelistOptions,
+  ): Promise<BulkOperationReport<AnyPlayerId | string>> {
+    const { playerIds, concurrency, ...entryOptions } = options;
+    const serverApiId = this.authProvider.resolveServerApiId(entryOptions.serverApiId, true);
+
+    const report = await runBulkOperation(
+      playerIds,
+      (playerId) => this.postWhitelist({ ...entryOptions, serverApiId, playerId }),
+      concurrency,
+    );
+
+    this.logger.debug('Bulk posted to whitelist', report.counts);
+
+    return report;
+  }
+
+  /**
+   * Imports whitelist entries that were exported with `serializeWhitelist`, see {@link postWhitelist}.
+   * Rows are validated first, and players that already have an entry, or rows that have
+   * expired, are skipped. Player IDs are resolved to CFTools IDs.
+   * @param options The options to import the entries with.
+   * @returns The report with the validation errors, the plan and a result for every created entry.
+   * @throws {MissingServerApiIdError} Thrown if the server API ID is not provided.
+   * @throws {SyntaxError} Thrown if the data isn't valid JSON, or not an array of rows.
+   */
+  public async importWhitelist(options: ImportPlayerListOptions): Promise<ImportReport<PlayerListTransferRow>> {
+    const serverApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
+    const existing = new Set((await this.listEntries('whitelist', { serverApiId }))
+      .map((entry) => entry.user.cftoolsId));
+
+    return this.importEntries(
+      parsePlayerListEntries(options.data, options.format),
+      options,
+      async (row) => (await this.lookupUser(row.playerId)).cftoolsId,
+      existing,
+      (row, playerId) => this.postWhitelist({
+        serverApiId,
+        playerId,
+        comment: row.comment,
+        expiresAt: row.expiresAt,
+      }),
+      'whitelist entries',
+    );
+  }
+
+  /**
+   * Reconciles the whitelist of a server with a desired set of entries, e.g. from your own
+   * database. The current whitelist is diffed against the desired entries, and only the
+   * minimal {@link postWhitelist} and {@link deleteWhitelist} calls are made. Entries that weren't
+   * created through the API are left untouched, unless `includeManualEntries` is set.
+   * Use `dryRun` to only return the plan.
+   * @param options The options to reconcile the whitelist with.
+   * @returns The report with the plan and a result for every applied change.
+   * @throws {MissingServerApiIdError} Thrown if the server API ID is not provided.
+   */
+  public async reconcileWhitelist(options: ReconcileOptions): Promise<ReconcileReport> {
+    return this.reconcileEntries('whitelist', options);
+  }
+
+  /**
+   * Renews the whitelist entry of a player with a new expiration, or extends it's current
+   * expiration by a duration (`extendBy`, in ms). The API doesn't support updating entries,
+   * so the entry is deleted and re-posted - keeping it's comment unless a new one is provided.
+   * @param options The options to renew the entry with.
+   * @returns The new expiration date of the entry, `null` for permanent entries.
+   * @throws {NotFoundError} Thrown if the player is not found in the whitelist.
+   * @throws {MissingServerApiIdError} Thrown if the server API ID is not provided.
+   * @throws {InvalidOptionError} Thrown if the renewed expiration is not in the future.
+   * @throws {RenewalFailedError} Thrown if the entry was deleted, but could not be re-posted - the
+   * original entry is restored if possible.
+   */
+  public async renewWhitelist(options: RenewEntryOptions): Promise<Date | null> {
+    return this.renewEntry('whitelist', options);
+  }
+
   /**
    * Fetches the leaderboard for a specific game-server.
    * @param options The options to fetch the leaderboard with.
@@ -2028,35 +3444,29 @@ export class CFToolsClient {
    * @see {`/v1/leaderboard/{server_id}`} for more information.
   */
   public async leaderboard(options: LeaderboardOptions): Promise<ClientLeaderboardResponse> {
-    const cachePrefix = 'leaderboard';
-    const cacheKey = CacheManager.hashKeyFromObject(options);
-    const cachedResponse = await this.cacheGet<ClientLeaderboardResponse>(cachePrefix, cacheKey);
-
-    if (cachedResponse) {
-      this.logger.debug('Returning cached leaderboard', cachedResponse);
-      return cachedResponse;
-    }
-
     const resolvedServerApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
+    const cachePrefix = 'leaderboard';
+    const cacheKey = this.scopedCacheKey([resolvedServerApiId], options);
 
-    if (options.limit < 1 || options.limit > 100) {
-      throw new LengthMismatchError(null, 'Leaderboard limit must be between 1 and 100');
-    }
+    return this.cached<ClientLeaderboardResponse>(cachePrefix, cacheKey, options, async () => {
+      if (options.limit < 1 || options.limit > 100) {
+        throw new LengthMismatchError(null, 'Leaderboard limit must be between 1 and 100');
+      }
 
-    const response = await this.requestClient.get<LeaderboardResponse>(
-      this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/leaderboard`, {
-        stat: options.stat,
-        order: options.order.toString(10),
-        limit: options.limit.toString(10),
-      }),
-    );
+      const response = await this.requestClient.get<LeaderboardResponse>(
+        this.requestClient.apiUrl(API_VERSION.V1, `/server/${resolvedServerApiId}/leaderboard`, {
+          stat: options.stat,
+          order: options.order.toString(10),
+          limit: options.limit.toString(10),
+        }),
+      );
 
-    const transformedResponse = transformLeaderboardResponse(response);
+      const transformedResponse = transformLeaderboardResponse(response);
 
-    this.cacheSet(cachePrefix, cacheKey, transformedResponse);
-    this.logger.debug('Transformed leaderboard', response, transformedResponse);
+      this.logger.debug('Transformed leaderboard', response, transformedResponse);
 
-    return transformedResponse;
+      return transformedResponse;
+    });
   }
 
   /**
@@ -2067,30 +3477,25 @@ export class CFToolsClient {
    * @see {`/v2/server/{server_id}/player`} for more information.
    */
   public async getPlayerStats(options: GetPlayerStatsOptions): Promise<ClientPlayerStatsResponse> {
+    const resolvedServerApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
+    const resolvedPlayerId = await this.resolveDynamicPlayerId(options);
     const cachePrefix = 'playerStats';
-    const cacheKey = CacheManager.hashKeyFromObject(options);
-    const cachedResponse = await this.cacheGet<ClientPlayerStatsResponse>(cachePrefix, cacheKey);
+    const cacheKey = this.scopedCacheKey([resolvedServerApiId, resolvedPlayerId]);
 
-    if (cachedResponse) {
-      this.logger.debug('Returning cached player statistics', cachedResponse);
-      return cachedResponse;
-    }
+    return this.cached<ClientPlayerStatsResponse>(cachePrefix, cacheKey, options, async () => {
 
-    const resolvedServerApiId = this.authProvider.resolveServerApiId(options.serverApiId, true);
-    const resolvedPlayerId = await this.resolveDynamicPlayerId(options);
-    
-    const response = await this.requestClient.get<PlayerStatsResponse>(
-      this.requestClient.apiUrl(API_VERSION.V2, `/server/${resolvedServerApiId}/player`, {
-        cftools_id: resolvedPlayerId,
-      }),
-    );
+      const response = await this.requestClient.get<PlayerStatsResponse>(
+        this.requestClient.apiUrl(API_VERSION.V2, `/server/${resolvedServerApiId}/player`, {
+          cftools_id: resolvedPlayerId,
+        }),
+      );
 
-    const transformedResponse = transformPlayerStatsResponse(response, resolvedPlayerId);
+      const transformedResponse = transformPlayerStatsResponse(response, resolvedPlayerId);
 
-    this.cacheSet(cachePrefix, cacheKey, transformedResponse);
-    this.logger.debug('Transformed player statistics', response, transformedResponse);
+      this.logger.debug('Transformed player statistics', response, transformedResponse);
 
-    return transformedResponse;
+      return transformedResponse;
+    });
   }
 
   /**
@@ -2110,7 +3515,10 @@ export class CFToolsClient {
       }),
     );
 
-    await this.cacheManager.clearPrefixEntries('playerStats');
+    await Promise.all([
+      this.invalidateCache('playerStats', resolvedServerApiId, resolvedPlayerId),
+      this.invalidateCache('leaderboard', resolvedServerApiId),
+    ]);
 
     this.logger.debug('Successfully deleted player statistics', response);
   }
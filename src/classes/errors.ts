@@ -25,6 +25,74 @@ export class InvalidServerIdError extends Error {
   }
 }
 
+/**
+ * Thrown when a player ID is invalid, or can't be parsed
+ */
+export class InvalidPlayerIdError extends Error {
+  constructor(public input: string, msg = 'Invalid player ID') {
+    super(msg);
+    Object.setPrototypeOf(this, InvalidPlayerIdError.prototype);
+  }
+}
+
+/**
+ * Thrown when a Steam vanity URL is parsed, vanity names can only be resolved
+ * to a Steam64 ID through the Steam Web API
+ */
+export class UnresolvedVanityUrlError extends InvalidPlayerIdError {
+  constructor(input: string, public vanityName: string, msg = 'Steam vanity URLs have to be resolved to a Steam64 ID') {
+    super(input, msg);
+    Object.setPrototypeOf(this, UnresolvedVanityUrlError.prototype);
+  }
+}
+
+/**
+ * Thrown when an entry was deleted to renew (or update) it, but couldn't be
+ * re-created - `restored` tells whether the original entry has been restored
+ */
+export class RenewalFailedError extends Error {
+  constructor(
+    public cause: unknown,
+    public restored: boolean,
+    msg = `Renewal failed, the original entry ${restored ? 'has been restored' : 'could not be restored'}`,
+  ) {
+    super(msg);
+    Object.setPrototypeOf(this, RenewalFailedError.prototype);
+  }
+}
+
+/**
+ * Thrown when a GameLabs action can't be performed in the requested context,
+ * e.g. when a player action is performed without a target
+ */
+export class GameLabsActionError extends Error {
+  constructor(public actionCode: string, msg = 'Invalid GameLabs action') {
+    super(msg);
+    Object.setPrototypeOf(this, GameLabsActionError.prototype);
+  }
+}
+
+/**
+ * Thrown when a GameLabs action is not available on the server, the mod
+ * that provides the action is probably not installed
+ */
+export class UnknownGameLabsActionError extends GameLabsActionError {
+  constructor(actionCode: string, msg = `Unknown GameLabs action: ${actionCode}`) {
+    super(actionCode, msg);
+    Object.setPrototypeOf(this, UnknownGameLabsActionError.prototype);
+  }
+}
+
+/**
+ * Thrown when a GameLabs action parameter is missing, unknown, or doesn't
+ * match the type declared by the action
+ */
+export class InvalidGameLabsParameterError extends GameLabsActionError {
+  constructor(actionCode: string, public parameter: string, msg = `Invalid GameLabs parameter: ${parameter}`) {
+    super(actionCode, msg);
+    Object.setPrototypeOf(this, InvalidGameLabsParameterError.prototype);
+  }
+}
 
 /**
  * Thrown when a library parsing error occurs - GitHub issues should be opened for these
@@ -0,0 +1,315 @@
+import { EventEmitter } from 'events';
+
+import { CFToolsClient } from './client';
+import { Poller } from './poller';
+import { UnitConstants } from '../constants';
+import type { AbstractLogger } from '../types/logger';
+import type { ExpirationSchedulerEvents, ExpirationTarget, ExpiringEntryEvent } from '../types/events';
+
+/**
+ * An entry that is tracked by the scheduler, with the date and time it expires.
+ */
+type TrackedEntry = {
+  entry: ExpiringEntryEvent['entry'];
+  expiresAt: Date | null;
+};
+
+/**
+ * Scans bans, whitelist and priority queue entries for expirations, by fetching the
+ * lists on a schedule. Emits typed events ({@link ExpirationSchedulerEvents}) when an
+ * entry expires within one of the configured lead times (e.g. to notify a supporter
+ * their priority queue expires in 3 days), and when an entry has expired.
+ *
+ * Every lead time is emitted once per entry and expiration date, so renewed entries
+ * are announced again. Only the shortest lead time that has been reached is emitted,
+ * entries that are first seen 1 day before they expire don't emit the 7 day lead time.
+ * Entries that had already expired before the scheduler was created are ignored. Failed
+ * scans emit a `scanError` event and keep the last known entries. Errors thrown by
+ * listeners are emitted as `scanError` events as well, and don't stop the scheduler.
+ */
+export class ExpirationScheduler extends EventEmitter<ExpirationSchedulerEvents> {
+  /**
+   * The CFTools client instance, used for fetching the lists.
+   */
+  private client: CFToolsClient;
+  /**
+   * The logger instance, used for logging messages - by default an extension of the
+   * logger attached to the primary {@link CFToolsClient} instance.
+   */
+  private logger: AbstractLogger;
+  /** The scanned lists, by target key. */
+  private targetsByKey: Map<string, ExpirationTarget> = new Map();
+  /**
+   * The last known entries for every scanned list, by target key and entry key. Lists
+   * that haven't been scanned successfully yet are not present.
+   */
+  private entries: Map<string, Map<string, TrackedEntry>> = new Map();
+  /** The events that have been emitted for every entry, by target and entry key. */
+  private announced: Map<string, Set<string>> = new Map();
+  /** The timestamp (in ms) the scheduler was created at, entries that expired before are ignored. */
+  private readonly createdAt = Date.now();
+  /** The poller, running {@link scan} on the configured interval. */
+  private poller: Poller;
+
+  /**
+   * The interval (in ms) between scans. When caching is enabled, this is never
+   * shorter than the TTL of the `listBans`, `whitelist` and `priorityQueue` caches,
+   * as scans would return the cached lists anyway.
+   */
+  public readonly interval: number;
+  /**
+   * The lead times (in ms) before an entry expires, at which `expiringSoon` is
+   * emitted - sorted from shortest to longest.
+   */
+  public readonly leadTimes: number[];
+
+  /**
+   * Creates a new expiration scheduler, the scheduler has to be started with {@link start}.
+   * @param client The CFTools client instance.
+   * @param targets The lists to scan for expiring entries.
+   * @param interval The interval (in ms) between scans, defaults to 1 hour.
+   * @param leadTimes The lead times (in ms) before an entry expires, at which `expiringSoon` is emitted.
+   */
+  constructor(
+    client: CFToolsClient,
+    targets: ExpirationTarget[],
+    interval = UnitConstants.MS_IN_ONE_H,
+    leadTimes = [3 * UnitConstants.MS_IN_ONE_D],
+  ) {
+    super();
+    this.client = client;
+    this.logger = client.logger.extend('ExpirationScheduler');
+
+    const cacheTTL = Math.max(
+      this.client.cacheConfiguration.listBans[0],
+      this.client.cacheConfiguration.whitelist[0],
+      this.client.cacheConfiguration.priorityQueue[0],
+    ) * UnitConstants.MS_IN_ONE_S;
+
+    this.interval = this.client.cachingEnabled ? Math.max(interval, cacheTTL) : interval;
+    this.leadTimes = [...leadTimes].sort((a, b) => a - b);
+    this.poller = new Poller(this.logger, this.interval, () => this.scan());
+
+    this.start = this.start.bind(this);
+    this.stop = this.stop.bind(this);
+    this.addTarget = this.addTarget.bind(this);
+    this.removeTarget = this.removeTarget.bind(this);
+    this.scan = this.scan.bind(this);
+    this.scanTarget = this.scanTarget.bind(this);
+    this.resolveEntries = this.resolveEntries.bind(this);
+    this.compare = this.compare.bind(this);
+    this.announce = this.announce.bind(this);
+
+    targets.forEach((target) => this.addTarget(target));
+  }
+
+  /**
+   * Resolves the key of a target, used to track the entries of a list.
+   * @param target The target to resolve the key for.
+   * @returns The key of the target.
+   */
+  private static targetKey(target: ExpirationTarget): string {
+    return target.type === 'ban' ? `ban:${target.banListId}` : `${target.type}:${target.serverApiId}`;
+  }
+
+  /**
+   * @returns Whether the scheduler is currently running.
+   */
+  public get running(): boolean {
+    return this.poller.running;
+  }
+
+  /**
+   * @returns The lists that are scanned for expiring entries.
+   */
+  public get targets(): ExpirationTarget[] {
+    return Array.from(this.targetsByKey.values());
+  }
+
+  /**
+   * Starts scanning the lists, the first scan is performed immediately.
+   */
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.poller.start();
+    this.logger.debug(`Scanning ${this.targetsByKey.size} list(s) every ${this.interval}ms`);
+  }
+
+  /**
+   * Stops scanning the lists, the last known entries are kept.
+   */
+  public stop(): void {
+    this.poller.stop();
+    this.logger.debug('Stopped scanning for expirations');
+  }
+
+  /**
+   * Starts scanning an additional list, from the next scan onwards.
+   * @param target The list to scan.
+   */
+  public addTarget(target: ExpirationTarget): void {
+    this.targetsByKey.set(ExpirationScheduler.targetKey(target), target);
+  }
+
+  /**
+   * Stops scanning a list, and forgets it's last known entries.
+   * @param target The list to stop scanning.
+   */
+  public removeTarget(target: ExpirationTarget): void {
+    const targetKey = ExpirationScheduler.targetKey(target);
+
+    this.targetsByKey.delete(targetKey);
+    this.entries.delete(targetKey);
+    for (const key of this.announced.keys()) {
+      if (key.startsWith(`${targetKey}:`)) {
+        this.announced.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Scans all lists once, and emits events for expiring and expired entries.
+   * Errors are emitted as `scanError` events, this method only throws if a `scanError` listener throws.
+   */
+  public async scan(): Promise<void> {
+    await Promise.all(Array.from(this.targetsByKey.entries()).map(
+      ([targetKey, target]) => this.scanTarget(targetKey, target),
+    ));
+  }
+
+  /**
+   * Scans a single list, and emits events for expiring and expired entries.
+   * @param targetKey The key of the list to scan.
+   * @param target The list to scan.
+   */
+  private async scanTarget(targetKey: string, target: ExpirationTarget): Promise<void> {
+    let current: Map<string, TrackedEntry>;
+
+    try {
+      current = await this.resolveEntries(target);
+    } catch (error) {
+      this.logger.warn(`Failed to scan ${targetKey} for expirations`, error);
+      this.emit('scanError', { target, error });
+      return;
+    }
+
+    // The target may have been removed while the request was in-flight
+    if (!this.targetsByKey.has(targetKey)) {
+      return;
+    }
+
+    const previous = this.entries.get(targetKey) ?? new Map<string, TrackedEntry>();
+
+    this.entries.set(targetKey, current);
+
+    try {
+      this.compare(targetKey, target, previous, current);
+    } catch (error) {
+      this.logger.error(`A listener threw while emitting expirations for ${targetKey}`, error);
+      this.emit('scanError', { target, error });
+    }
+  }
+
+  /**
+   * Resolves the current entries of a list, by their key.
+   * @param target The list to resolve the entries for.
+   * @returns The current entries of the list.
+   */
+  private async resolveEntries(target: ExpirationTarget): Promise<Map<string, TrackedEntry>> {
+    const entries = new Map<string, TrackedEntry>();
+
+    if (target.type === 'ban') {
+      for (const ban of await this.client.listBans({ banListId: target.banListId })) {
+        // Revoked bans don't expire, and are never announced
+        if (ban.status !== 'Ban.INACTIVE') {
+          entries.set(ban.id, { entry: ban, expiresAt: ban.expiresAt });
+        }
+      }
+      return entries;
+    }
+
+    const iterator = target.type === 'whitelist'
+      ? this.client.iterateWhitelist({ serverApiId: target.serverApiId })
+      : this.client.iteratePriorityQueue({ serverApiId: target.serverApiId });
+
+    for await (const entry of iterator) {
+      entries.set(entry.user.cftoolsId, { entry, expiresAt: entry.meta.expiration });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Compares the entries of two scans, and emits events for expiring and expired entries.
+   * Entries that disappeared after their expiration date are considered expired.
+   * @param targetKey The key of the list the entries belong to.
+   * @param target The list the entries belong to.
+   * @param previous The entries of the previous scan, by key.
+   * @param current The entries of the current scan, by key.
+   */
+  private compare(
+    targetKey: string,
+    target: ExpirationTarget,
+    previous: Map<string, TrackedEntry>,
+    current: Map<string, TrackedEntry>,
+  ): void {
+    const now = Date.now();
+
+    for (const [key, { entry, expiresAt }] of previous) {
+      if (!current.has(key)) {
+        if (expiresAt && expiresAt.getTime() <= now && this.announce(targetKey, key, 'expired', expiresAt)) {
+          this.emit('expired', { target, entry, key, expiresAt });
+        }
+        this.announced.delete(`${targetKey}:${key}`);
+      }
+    }
+
+    for (const [key, { entry, expiresAt }] of current) {
+      if (!expiresAt) {
+        continue;
+      }
+
+      const expiresIn = expiresAt.getTime() - now;
+      const leadTime = this.leadTimes.find((time) => expiresIn <= time);
+
+      if (expiresIn <= 0) {
+        if (this.announce(targetKey, key, 'expired', expiresAt)) {
+          this.emit('expired', { target, entry, key, expiresAt });
+        }
+      }
+      else if (leadTime !== undefined && this.announce(targetKey, key, `lead:${leadTime}`, expiresAt)) {
+        this.emit('expiringSoon', { target, entry, key, expiresAt, expiresIn, leadTime });
+      }
+    }
+  }
+
+  /**
+   * Records that an event is emitted for an entry, unless it has been emitted before.
+   * @param targetKey The key of the list the entry belongs to.
+   * @param key The key of the entry.
+   * @param event The event that is emitted, `expired` or the lead time.
+   * @param expiresAt The date and time the entry expires, renewed entries are announced again.
+   * @returns Whether the event should be emitted.
+   */
+  private announce(targetKey: string, key: string, event: string, expiresAt: Date): boolean {
+    if (event === 'expired' && expiresAt.getTime() <= this.createdAt) {
+      return false;
+    }
+
+    const entryKey = `${targetKey}:${key}`;
+    const announced = this.announced.get(entryKey) ?? new Set<string>();
+    const eventKey = `${event}:${expiresAt.getTime()}`;
+
+    if (announced.has(eventKey)) {
+      return false;
+    }
+
+    announced.add(eventKey);
+    this.announced.set(entryKey, announced);
+
+    return true;
+  }
+}
@@ -0,0 +1,640 @@
+import { CFToolsClient } from './client';
+import { PlayerListWatcher } from './player-list-watcher';
+import { ServerHealthMonitor } from './server-health-monitor';
+import type { BanListBoundOptions, ServerBoundOptions } from '../types/handles';
+import type { IterateBansOptions, IteratePriorityQueueOptions, IterateWhitelistOptions } from '../types/listing';
+import type { RenewBanOptions, RenewEntryOptions } from '../types/renewal';
+import type { PlayerProfileOptions } from '../types/profile';
+import type {
+  BatchPostGameLabsActionOptions,
+  BuildGameLabsActionOptions,
+  ChangeWorldTimeOptions,
+  ChangeWorldWeatherOptions,
+  DeletePlayerStatsOptions,
+  DeletePriorityQueueOptions,
+  DeleteWhitelistOptions,
+  GetPlayerStatsOptions,
+  GetPriorityQueueOptions,
+  GetSessionByCFToolsIdOptions,
+  GetWhitelistOptions,
+  IdentifierActionOptionsNoParams,
+  KickOptions,
+  LBMutePlayerOptions,
+  LeaderboardOptions,
+  MessagePrivateOptions,
+  MessageServerOptions,
+  PostGameLabsActionOptions,
+  PostPriorityQueueOptions,
+  PostWhitelistOptions,
+  RawRConCommandOptions,
+  SpawnItemOnGroundOptions,
+  SpawnItemOnPlayerOptions,
+  TargetActionOptionsNoParams,
+  TeleportPlayerOptions,
+  WrdgPushTransportOptions,
+  ClientBanListGrantResponse,
+  ClientServerGrantResponse,
+  CreateBanOptions,
+  DeleteBanOptions,
+  ListBansOptions,
+} from '../types/responses';
+
+/**
+ * A handle to a single server, exposing the client methods that operate on a server
+ * without the server API ID argument. Obtained through {@link CFToolsClient.servers}
+ * or {@link CFToolsClient.server}.
+ */
+export class ServerHandle {
+  /**
+   * Creates a new server handle.
+   * @param client The CFTools client instance, used for performing the requests.
+   * @param serverApiId The server API ID of the server.
+   * @param grant The grant for the server, `null` if the handle wasn't resolved from the app grants.
+   */
+  constructor(
+    public readonly client: CFToolsClient,
+    public readonly serverApiId: string,
+    public readonly grant: ClientServerGrantResponse | null = null,
+  ) {}
+
+  /**
+   * @returns The name (identifier) of the server, or `null` if the handle wasn't resolved from the app grants.
+   */
+  public get name(): string | null {
+    return this.grant?.resource.identifier ?? null;
+  }
+
+  /**
+   * Fetches the game-server details of this server, see {@link CFToolsClient.gameServerDetails}.
+   * The game-server ID is resolved from the grant, or from the server information.
+   */
+  public async gameServerDetails(): ReturnType<CFToolsClient['gameServerDetails']> {
+    const gameserverId = this.grant?.resource.gameserverId
+      ?? (await this.serverInfo()).gameserver.gameserverId;
+
+    return this.client.gameServerDetails(gameserverId);
+  }
+
+  /**
+   * Watches the player list of this server, see {@link CFToolsClient.watchPlayers}.
+   * @param interval The interval (in ms) between polls.
+   * @returns The started player list watcher.
+   */
+  public watchPlayers(interval?: number): PlayerListWatcher {
+    return this.client.watchPlayers([this.serverApiId], interval);
+  }
+
+  /**
+   * Monitors the health of this server, see {@link CFToolsClient.monitorServers}.
+   * @param interval The interval (in ms) between checks.
+   * @param restartLeadTime The time (in ms) before a scheduled restart, at which `restartImminent` is emitted.
+   * @returns The started server health monitor.
+   */
+  public monitor(interval?: number, restartLeadTime?: number): ServerHealthMonitor {
+    return this.client.monitorServers([this.serverApiId], interval, restartLeadTime);
+  }
+
+  /**
+   * Fetches the server information of this server, see {@link CFToolsClient.serverInfo}.
+   */
+  public serverInfo(): ReturnType<CFToolsClient['serverInfo']> {
+    return this.client.serverInfo(this.serverApiId);
+  }
+
+  /**
+   * Fetches the server statistics of this server, see {@link CFToolsClient.serverStatistics}.
+   */
+  public serverStatistics(): ReturnType<CFToolsClient['serverStatistics']> {
+    return this.client.serverStatistics(this.serverApiId);
+  }
+
+  /**
+   * Fetches the players currently connected to this server, see {@link CFToolsClient.playerList}.
+   */
+  public playerList(): ReturnType<CFToolsClient['playerList']> {
+    return this.client.playerList(this.serverApiId);
+  }
+
+  /**
+   * Fetches the session of a player on this server, see {@link CFToolsClient.getSessionByPlayerId}.
+   * @param options The options, without the server API ID.
+   */
+  public getSessionByPlayerId(
+    options: ServerBoundOptions<GetSessionByCFToolsIdOptions>,
+  ): ReturnType<CFToolsClient['getSessionByPlayerId']> {
+    return this.client.getSessionByPlayerId({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Kicks a player from this server, see {@link CFToolsClient.kickPlayer}.
+   * @param options The options, without the server API ID.
+   */
+  public kickPlayer(options: ServerBoundOptions<KickOptions>): ReturnType<CFToolsClient['kickPlayer']> {
+    return this.client.kickPlayer({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Sends a private message to a player on this server, see {@link CFToolsClient.messagePrivate}.
+   * @param options The options, without the server API ID.
+   */
+  public messagePrivate(
+    options: ServerBoundOptions<MessagePrivateOptions>,
+  ): ReturnType<CFToolsClient['messagePrivate']> {
+    return this.client.messagePrivate({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Broadcasts a message to all players on this server, see {@link CFToolsClient.messageServer}.
+   * @param options The options, without the server API ID.
+   */
+  public messageServer(options: ServerBoundOptions<MessageServerOptions>): ReturnType<CFToolsClient['messageServer']> {
+    return this.client.messageServer({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Sends a raw RCon command to this server, see {@link CFToolsClient.rconCommand}.
+   * @param options The options, without the server API ID.
+   */
+  public rconCommand(options: ServerBoundOptions<RawRConCommandOptions>): ReturnType<CFToolsClient['rconCommand']> {
+    return this.client.rconCommand({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Fetches the GameLabs actions available on this server, see {@link CFToolsClient.gameLabsActions}.
+   */
+  public gameLabsActions(): ReturnType<CFToolsClient['gameLabsActions']> {
+    return this.client.gameLabsActions(this.serverApiId);
+  }
+
+  /**
+   * Fetches the GameLabs entity events of this server, see {@link CFToolsClient.gameLabsEntityEvents}.
+   */
+  public gameLabsEntityEvents(): ReturnType<CFToolsClient['gameLabsEntityEvents']> {
+    return this.client.gameLabsEntityEvents(this.serverApiId);
+  }
+
+  /**
+   * Fetches the GameLabs entity vehicles of this server, see {@link CFToolsClient.gameLabsEntityVehicles}.
+   */
+  public gameLabsEntityVehicles(): ReturnType<CFToolsClient['gameLabsEntityVehicles']> {
+    return this.client.gameLabsEntityVehicles(this.serverApiId);
+  }
+
+  /**
+   * Posts a GameLabs action to this server, see {@link CFToolsClient.postGameLabsAction}.
+   * @param options The options, without the server API ID.
+   */
+  public postGameLabsAction(
+    options: ServerBoundOptions<PostGameLabsActionOptions>,
+  ): ReturnType<CFToolsClient['postGameLabsAction']> {
+    return this.client.postGameLabsAction({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Posts multiple GameLabs actions to this server, see {@link CFToolsClient.batchPostGameLabsAction}.
+   * @param options The options, without the server API ID.
+   */
+  public batchPostGameLabsAction(
+    options: ServerBoundOptions<BatchPostGameLabsActionOptions>,
+  ): ReturnType<CFToolsClient['batchPostGameLabsAction']> {
+    return this.client.batchPostGameLabsAction({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Builds a GameLabs action for this server, see {@link CFToolsClient.buildGameLabsAction}.
+   * @param options The options, without the server API ID.
+   */
+  public buildGameLabsAction(
+    options: ServerBoundOptions<BuildGameLabsActionOptions>,
+  ): ReturnType<CFToolsClient['buildGameLabsAction']> {
+    return this.client.buildGameLabsAction({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Builds and performs a GameLabs action on this server, see {@link CFToolsClient.performGameLabsAction}.
+   * @param options The options, without the server API ID.
+   */
+  public performGameLabsAction(
+    options: ServerBoundOptions<BuildGameLabsActionOptions>,
+  ): ReturnType<CFToolsClient['performGameLabsAction']> {
+    return this.client.performGameLabsAction({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Teleports a player on this server, see {@link CFToolsClient.teleportPlayer}.
+   * @param options The options, without the server API ID.
+   */
+  public teleportPlayer(
+    options: ServerBoundOptions<TeleportPlayerOptions>,
+  ): ReturnType<CFToolsClient['teleportPlayer']> {
+    return this.client.teleportPlayer({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Heals a player on this server, see {@link CFToolsClient.healPlayer}.
+   * @param options The options, without the server API ID.
+   */
+  public healPlayer(options: ServerBoundOptions<TargetActionOptionsNoParams>): ReturnType<CFToolsClient['healPlayer']> {
+    return this.client.healPlayer({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Kills a player on this server, see {@link CFToolsClient.killPlayer}.
+   * @param options The options, without the server API ID.
+   */
+  public killPlayer(options: ServerBoundOptions<TargetActionOptionsNoParams>): ReturnType<CFToolsClient['killPlayer']> {
+    return this.client.killPlayer({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Spawns an item on a player on this server, see {@link CFToolsClient.spawnItemOnPlayer}.
+   * @param options The options, without the server API ID.
+   */
+  public spawnItemOnPlayer(
+    options: ServerBoundOptions<SpawnItemOnPlayerOptions>,
+  ): ReturnType<CFToolsClient['spawnItemOnPlayer']> {
+    return this.client.spawnItemOnPlayer({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Strips a player on this server, see {@link CFToolsClient.stripPlayer}.
+   * @param options The options, without the server API ID.
+   */
+  public stripPlayer(
+    options: ServerBoundOptions<TargetActionOptionsNoParams>,
+  ): ReturnType<CFToolsClient['stripPlayer']> {
+    return this.client.stripPlayer({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Explodes a player on this server, see {@link CFToolsClient.explodePlayer}.
+   * @param options The options, without the server API ID.
+   */
+  public explodePlayer(
+    options: ServerBoundOptions<TargetActionOptionsNoParams>,
+  ): ReturnType<CFToolsClient['explodePlayer']> {
+    return this.client.explodePlayer({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Deletes a vehicle on this server, see {@link CFToolsClient.deleteVehicle}.
+   * @param options The options, without the server API ID.
+   */
+  public deleteVehicle(
+    options: ServerBoundOptions<IdentifierActionOptionsNoParams>,
+  ): ReturnType<CFToolsClient['deleteVehicle']> {
+    return this.client.deleteVehicle({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Kills the engine of a vehicle on this server, see {@link CFToolsClient.killVehicleEngine}.
+   * @param options The options, without the server API ID.
+   */
+  public killVehicleEngine(
+    options: ServerBoundOptions<IdentifierActionOptionsNoParams>,
+  ): ReturnType<CFToolsClient['killVehicleEngine']> {
+    return this.client.killVehicleEngine({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Refuels a vehicle on this server, see {@link CFToolsClient.refuelVehicle}.
+   * @param options The options, without the server API ID.
+   */
+  public refuelVehicle(
+    options: ServerBoundOptions<IdentifierActionOptionsNoParams>,
+  ): ReturnType<CFToolsClient['refuelVehicle']> {
+    return this.client.refuelVehicle({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Repairs a vehicle on this server, see {@link CFToolsClient.repairVehicle}.
+   * @param options The options, without the server API ID.
+   */
+  public repairVehicle(
+    options: ServerBoundOptions<IdentifierActionOptionsNoParams>,
+  ): ReturnType<CFToolsClient['repairVehicle']> {
+    return this.client.repairVehicle({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Explodes a vehicle on this server, see {@link CFToolsClient.explodeVehicle}.
+   * @param options The options, without the server API ID.
+   */
+  public explodeVehicle(
+    options: ServerBoundOptions<IdentifierActionOptionsNoParams>,
+  ): ReturnType<CFToolsClient['explodeVehicle']> {
+    return this.client.explodeVehicle({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Unstucks a vehicle on this server, see {@link CFToolsClient.unstuckVehicle}.
+   * @param options The options, without the server API ID.
+   */
+  public unstuckVehicle(
+    options: ServerBoundOptions<IdentifierActionOptionsNoParams>,
+  ): ReturnType<CFToolsClient['unstuckVehicle']> {
+    return this.client.unstuckVehicle({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Changes the world time on this server, see {@link CFToolsClient.changeWorldTime}.
+   * @param options The options, without the server API ID.
+   */
+  public changeWorldTime(
+    options: ServerBoundOptions<ChangeWorldTimeOptions>,
+  ): ReturnType<CFToolsClient['changeWorldTime']> {
+    return this.client.changeWorldTime({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Changes the world weather on this server, see {@link CFToolsClient.changeWorldWeather}.
+   * @param options The options, without the server API ID.
+   */
+  public changeWorldWeather(
+    options: ServerBoundOptions<ChangeWorldWeatherOptions>,
+  ): ReturnType<CFToolsClient['changeWorldWeather']> {
+    return this.client.changeWorldWeather({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Changes the world weather to sunny/clear on this server, see {@link CFToolsClient.setWorldWeatherSunny}.
+   */
+  public setWorldWeatherSunny(): ReturnType<CFToolsClient['setWorldWeatherSunny']> {
+    return this.client.setWorldWeatherSunny(this.serverApiId);
+  }
+
+  /**
+   * Wipes all AI on this server, see {@link CFToolsClient.wipeWorldAI}.
+   */
+  public wipeWorldAI(): ReturnType<CFToolsClient['wipeWorldAI']> {
+    return this.client.wipeWorldAI(this.serverApiId);
+  }
+
+  /**
+   * Wipes all vehicles on this server, see {@link CFToolsClient.wipeWorldVehicles}.
+   */
+  public wipeWorldVehicles(): ReturnType<CFToolsClient['wipeWorldVehicles']> {
+    return this.client.wipeWorldVehicles(this.serverApiId);
+  }
+
+  /**
+   * Spawns an item on the ground on this server, see {@link CFToolsClient.spawnItemOnGround}.
+   * @param options The options, without the server API ID.
+   */
+  public spawnItemOnGround(
+    options: ServerBoundOptions<SpawnItemOnGroundOptions>,
+  ): ReturnType<CFToolsClient['spawnItemOnGround']> {
+    return this.client.spawnItemOnGround({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Deletes an object on this server, see {@link CFToolsClient.deleteObject}.
+   * @param options The options, without the server API ID.
+   */
+  public deleteObject(
+    options: ServerBoundOptions<IdentifierActionOptionsNoParams>,
+  ): ReturnType<CFToolsClient['deleteObject']> {
+    return this.client.deleteObject({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Clears a territory flag on this server, see {@link CFToolsClient.clearTerritory}.
+   * @param options The options, without the server API ID.
+   */
+  public clearTerritory(
+    options: ServerBoundOptions<IdentifierActionOptionsNoParams>,
+  ): ReturnType<CFToolsClient['clearTerritory']> {
+    return this.client.clearTerritory({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Flips a transport on this server, see {@link CFToolsClient.wrdgFlipTransport}.
+   * @param options The options, without the server API ID.
+   */
+  public wrdgFlipTransport(
+    options: ServerBoundOptions<IdentifierActionOptionsNoParams>,
+  ): ReturnType<CFToolsClient['wrdgFlipTransport']> {
+    return this.client.wrdgFlipTransport({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Pushes a transport on this server, see {@link CFToolsClient.wrdgPushTransport}.
+   * @param options The options, without the server API ID.
+   */
+  public wrdgPushTransport(
+    options: ServerBoundOptions<WrdgPushTransportOptions>,
+  ): ReturnType<CFToolsClient['wrdgPushTransport']> {
+    return this.client.wrdgPushTransport({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Mutes a player on this server, see {@link CFToolsClient.lbMutePlayer}.
+   * @param options The options, without the server API ID.
+   */
+  public lbMutePlayer(options: ServerBoundOptions<LBMutePlayerOptions>): ReturnType<CFToolsClient['lbMutePlayer']> {
+    return this.client.lbMutePlayer({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Unmutes a player on this server, see {@link CFToolsClient.lbUnmutePlayer}.
+   * @param options The options, without the server API ID.
+   */
+  public lbUnmutePlayer(
+    options: ServerBoundOptions<TargetActionOptionsNoParams>,
+  ): ReturnType<CFToolsClient['lbUnmutePlayer']> {
+    return this.client.lbUnmutePlayer({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Fetches the priority queue of this server, see {@link CFToolsClient.getPriorityQueue}.
+   * @param options The options, without the server API ID.
+   */
+  public getPriorityQueue(
+    options: ServerBoundOptions<GetPriorityQueueOptions>,
+  ): ReturnType<CFToolsClient['getPriorityQueue']> {
+    return this.client.getPriorityQueue({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Iterates over the priority queue of this server, see {@link CFToolsClient.iteratePriorityQueue}.
+   * @param options The options, without the server API ID.
+   */
+  public iteratePriorityQueue(
+    options: ServerBoundOptions<IteratePriorityQueueOptions> = {},
+  ): ReturnType<CFToolsClient['iteratePriorityQueue']> {
+    return this.client.iteratePriorityQueue({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Renews a priority queue entry on this server, see {@link CFToolsClient.renewPriorityQueue}.
+   * @param options The options, without the server API ID.
+   */
+  public renewPriorityQueue(
+    options: ServerBoundOptions<RenewEntryOptions>,
+  ): ReturnType<CFToolsClient['renewPriorityQueue']> {
+    return this.client.renewPriorityQueue({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Posts a player to the priority queue of this server, see {@link CFToolsClient.postPriorityQueue}.
+   * @param options The options, without the server API ID.
+   */
+  public postPriorityQueue(
+    options: ServerBoundOptions<PostPriorityQueueOptions>,
+  ): ReturnType<CFToolsClient['postPriorityQueue']> {
+    return this.client.postPriorityQueue({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Deletes a player from the priority queue of this server, see {@link CFToolsClient.deletePriorityQueue}.
+   * @param options The options, without the server API ID.
+   */
+  public deletePriorityQueue(
+    options: ServerBoundOptions<DeletePriorityQueueOptions>,
+  ): ReturnType<CFToolsClient['deletePriorityQueue']> {
+    return this.client.deletePriorityQueue({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Fetches the whitelist of this server, see {@link CFToolsClient.getWhitelist}.
+   * @param options The options, without the server API ID.
+   */
+  public getWhitelist(options: ServerBoundOptions<GetWhitelistOptions>): ReturnType<CFToolsClient['getWhitelist']> {
+    return this.client.getWhitelist({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Iterates over the whitelist of this server, see {@link CFToolsClient.iterateWhitelist}.
+   * @param options The options, without the server API ID.
+   */
+  public iterateWhitelist(
+    options: ServerBoundOptions<IterateWhitelistOptions> = {},
+  ): ReturnType<CFToolsClient['iterateWhitelist']> {
+    return this.client.iterateWhitelist({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Renews a whitelist entry on this server, see {@link CFToolsClient.renewWhitelist}.
+   * @param options The options, without the server API ID.
+   */
+  public renewWhitelist(options: ServerBoundOptions<RenewEntryOptions>): ReturnType<CFToolsClient['renewWhitelist']> {
+    return this.client.renewWhitelist({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Posts a player to the whitelist of this server, see {@link CFToolsClient.postWhitelist}.
+   * @param options The options, without the server API ID.
+   */
+  public postWhitelist(options: ServerBoundOptions<PostWhitelistOptions>): ReturnType<CFToolsClient['postWhitelist']> {
+    return this.client.postWhitelist({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Deletes a player from the whitelist of this server, see {@link CFToolsClient.deleteWhitelist}.
+   * @param options The options, without the server API ID.
+   */
+  public deleteWhitelist(
+    options: ServerBoundOptions<DeleteWhitelistOptions>,
+  ): ReturnType<CFToolsClient['deleteWhitelist']> {
+    return this.client.deleteWhitelist({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Fetches the leaderboard of this server, see {@link CFToolsClient.leaderboard}.
+   * @param options The options, without the server API ID.
+   */
+  public leaderboard(options: ServerBoundOptions<LeaderboardOptions>): ReturnType<CFToolsClient['leaderboard']> {
+    return this.client.leaderboard({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Fetches the player statistics of a player on this server, see {@link CFToolsClient.getPlayerStats}.
+   * @param options The options, without the server API ID.
+   */
+  public getPlayerStats(
+    options: ServerBoundOptions<GetPlayerStatsOptions>,
+  ): ReturnType<CFToolsClient['getPlayerStats']> {
+    return this.client.getPlayerStats({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Resets the player statistics of a player on this server, see {@link CFToolsClient.resetPlayerStats}.
+   * @param options The options, without the server API ID.
+   */
+  public resetPlayerStats(
+    options: ServerBoundOptions<DeletePlayerStatsOptions>,
+  ): ReturnType<CFToolsClient['resetPlayerStats']> {
+    return this.client.resetPlayerStats({ ...options, serverApiId: this.serverApiId });
+  }
+
+  /**
+   * Aggregates the profile of a player on this server, see {@link CFToolsClient.getPlayerProfile}.
+   * @param playerId The ID of the player.
+   * @param banLists The banlists to include bans for.
+   */
+  public getPlayerProfile(
+    playerId: GetPlayerStatsOptions['playerId'],
+    banLists?: PlayerProfileOptions['banLists'],
+  ): ReturnType<CFToolsClient['getPlayerProfile']> {
+    return this.client.getPlayerProfile(playerId, { servers: [this.serverApiId], banLists });
+  }
+}
+
+/**
+ * A handle to a single banlist, exposing the client methods that operate on a banlist
+ * without the banlist ID argument. Obtained through {@link CFToolsClient.banLists}
+ * or {@link CFToolsClient.banList}.
+ */
+export class BanListHandle {
+  /**
+   * Creates a new banlist handle.
+   * @param client The CFTools client instance, used for performing the requests.
+   * @param banListId The ID of the banlist.
+   * @param grant The grant for the banlist, `null` if the handle wasn't resolved from the app grants.
+   */
+  constructor(
+    public readonly client: CFToolsClient,
+    public readonly banListId: string,
+    public readonly grant: ClientBanListGrantResponse | null = null,
+  ) {}
+
+  /**
+   * Fetches the bans on this banlist, see {@link CFToolsClient.listBans}.
+   * @param options The options, without the banlist ID.
+   */
+  public listBans(options: BanListBoundOptions<ListBansOptions> = {}): ReturnType<CFToolsClient['listBans']> {
+    return this.client.listBans({ ...options, banListId: this.banListId });
+  }
+
+  /**
+   * Iterates over the bans on this banlist, see {@link CFToolsClient.iterateBans}.
+   * @param options The options, without the banlist ID.
+   */
+  public iterateBans(options: BanListBoundOptions<IterateBansOptions> = {}): ReturnType<CFToolsClient['iterateBans']> {
+    return this.client.iterateBans({ ...options, banListId: this.banListId });
+  }
+
+  /**
+   * Renews a ban on this banlist, see {@link CFToolsClient.renewBan}.
+   * @param options The options, without the banlist ID.
+   */
+  public renewBan(options: BanListBoundOptions<RenewBanOptions>): ReturnType<CFToolsClient['renewBan']> {
+    return this.client.renewBan({ ...options, banListId: this.banListId });
+  }
+
+  /**
+   * Creates a ban on this banlist, see {@link CFToolsClient.createBan}.
+   * @param options The options, without the banlist ID.
+   */
+  public createBan(options: BanListBoundOptions<CreateBanOptions>): ReturnType<CFToolsClient['createBan']> {
+    return this.client.createBan({ ...options, banListId: this.banListId });
+  }
+
+  /**
+   * Deletes a ban from this banlist, see {@link CFToolsClient.deleteBan}.
+   * @param options The options, without the banlist ID.
+   */
+  public deleteBan(options: BanListBoundOptions<DeleteBanOptions>): ReturnType<CFToolsClient['deleteBan']> {
+    return this.client.deleteBan({ ...options, banListId: this.banListId });
+  }
+}
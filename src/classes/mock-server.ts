@@ -0,0 +1,1069 @@
+import crypto from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+import defaultGameLabsActions from '../../data/game-labs-actions.json';
+import { API_VERSION, UnitConstants } from '../constants';
+import { Game, GameServerQueryError } from '../types/general';
+import {
+  isBattlEyeGUID,
+  isBohemiaInteractiveUID,
+  isCFToolsId,
+  isSteam64,
+  steam64ToBattlEyeGUID,
+  steam64ToBohemiaUID,
+} from '../resolvers/player-ids';
+
+import type { ApiBaseUrls } from '../types/requests';
+import type {
+  BanEntry,
+  GameLabsAction,
+  GameServer,
+  LeaderboardEntry,
+  PlayerSession,
+  PlayerStatisticsValues,
+  PostGameLabsActionOptions,
+  PriorityQueueEntry,
+  ServerInfoResponse,
+  WhitelistEntry,
+} from '../types/responses';
+
+/**
+ * A player (identity) known to the mock server.
+ */
+export type MockUser = {
+  cftoolsId: string;
+  steam64: string;
+  battleyeGuid: string;
+  bohemiaUid: string;
+  playerName: string;
+};
+
+/**
+ * A CFCloud server instance known to the mock server, keyed by its server API ID.
+ */
+export type MockServerInstance = {
+  serverApiId: string;
+  gameserverId: string;
+  name: string;
+  /** Whether the application has been granted access to this server. */
+  granted: boolean;
+  /** The state of the CFTools worker connected to this server. */
+  workerState: ServerInfoResponse['server']['worker']['state'];
+  /** Whether the GameLabs integration is connected. */
+  gameIntegrationStatus: boolean;
+  /** The error of the last game-server query, see `gameServerDetails`. */
+  queryError: GameServerQueryError;
+  /** The date and time of the next scheduled restart, if any. */
+  nextRestart: Date | null;
+  /** The players currently connected to this server. */
+  sessions: PlayerSession[];
+  priorityQueue: PriorityQueueEntry[];
+  whitelist: WhitelistEntry[];
+  /** The player statistics for this server, keyed by CFTools ID. */
+  playerStats: Record<string, PlayerStatisticsValues>;
+  gameLabsActions: GameLabsAction[];
+  /** GameLabs actions that have been posted to this server. */
+  postedActions: Omit<PostGameLabsActionOptions, 'serverApiId'>[];
+  /** Messages that have been broadcast to this server. */
+  serverMessages: string[];
+  /** Private messages that have been sent to players on this server. */
+  privateMessages: { sessionId: string; content: string }[];
+  /** RCon commands that have been issued to this server. */
+  rconCommands: string[];
+  /** Players that have been kicked from this server. */
+  kicks: { sessionId: string; reason: string }[];
+};
+
+/**
+ * A banlist known to the mock server, keyed by its banlist ID.
+ */
+export type MockBanList = {
+  banListId: string;
+  granted: boolean;
+  bans: BanEntry[];
+};
+
+/**
+ * A failure that is injected in the response for the next matching request.
+ */
+export type MockServerFailure = {
+  /** The HTTP status code to respond with. */
+  status: number;
+  /** The `error` string to include in the response body, e.g. `'duplicate'`. */
+  error: string;
+  /** Only fail requests with a path matching this string (substring) or pattern. */
+  path?: string | RegExp;
+  /** Only fail requests with this HTTP method, e.g. `POST`. */
+  method?: string;
+  /** Additional headers to respond with, e.g. `Retry-After`. */
+  headers?: Record<string, string>;
+};
+
+/**
+ * The options to create a mock server with.
+ */
+export type MockServerOptions = {
+  /** The application ID that is accepted by the mock server. */
+  applicationId?: string;
+  /** The application secret that is accepted by the mock server. */
+  applicationSecret?: string;
+  /** The amount of seconds issued tokens are valid for. */
+  tokenValidity?: number;
+  /**
+   * Rate limits requests (per token), the first element is the amount of requests
+   * allowed, and the second element is the window (in seconds). Exceeding the rate
+   * limit results in a `429` response with a `Retry-After` header.
+   */
+  rateLimit?: [number, number] | null;
+};
+
+/**
+ * A request that has been handled by the mock server.
+ */
+export type MockServerRequest = {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: Record<string, unknown> | null;
+  status: number;
+};
+
+class MockResponseError extends Error {
+  constructor(public status: number, public error: string, public headers: Record<string, string> = {}) {
+    super(error);
+    Object.setPrototypeOf(this, MockResponseError.prototype);
+  }
+}
+
+type RouteContext = {
+  method: string;
+  params: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+};
+
+type Route = [string, RegExp, (context: RouteContext) => Record<string, unknown> | null];
+
+const randomHex = (bytes: number) => crypto.randomBytes(bytes).toString('hex');
+const randomDigits = (length: number) => Array.from({ length }, () => crypto.randomInt(10)).join('');
+const nowISO = () => new Date().toISOString();
+
+/**
+ * An in-process HTTP server emulating the CFTools Data API, backed by in-memory
+ * state. Used to run the `CFToolsClient` offline, e.g. in test suites.
+ *
+ * ```ts
+ * const server = new CFToolsMockServer();
+ * const baseUrl = await server.start();
+ * const serverApiId = server.addServer().serverApiId;
+ * const client = new CFToolsClient({
+ *   applicationId: server.applicationId,
+ *   applicationSecret: server.applicationSecret,
+ *   serverApiId,
+ * }, { apiBaseUrls: baseUrl });
+ * ```
+ */
+export class CFToolsMockServer {
+  /** The application ID that is accepted by the mock server. */
+  public applicationId: string;
+  /** The application secret that is accepted by the mock server. */
+  public applicationSecret: string;
+  /** The amount of seconds issued tokens are valid for. */
+  public tokenValidity: number;
+  /** The rate limit that is applied to requests, if any. */
+  public rateLimit: [number, number] | null;
+
+  /** The users (identities) known to the mock server. */
+  public users: MockUser[] = [];
+  /** The servers known to the mock server, keyed by server API ID. */
+  public servers: Map<string, MockServerInstance> = new Map();
+  /** The banlists known to the mock server, keyed by banlist ID. */
+  public banLists: Map<string, MockBanList> = new Map();
+  /** All requests that have been handled by the mock server. */
+  public requests: MockServerRequest[] = [];
+
+  private tokens: Map<string, number> = new Map();
+  private rateLimitHits: Map<string, number[]> = new Map();
+  private failures: MockServerFailure[] = [];
+  private server: Server | null = null;
+  private routes: Route[];
+
+  /**
+   * Creates a new mock server, call `start` to start listening.
+   * @param options The options to create the mock server with
+   */
+  constructor(options: MockServerOptions = {}) {
+    this.applicationId = options.applicationId ?? randomHex(12);
+    this.applicationSecret = options.applicationSecret ?? randomHex(32);
+    this.tokenValidity = options.tokenValidity ?? UnitConstants.S_IN_ONE_D;
+    this.rateLimit = options.rateLimit ?? null;
+
+    this.handleRequest = this.handleRequest.bind(this);
+    this.routes = [
+      ['POST', /^\/v1\/auth\/register$/, this.register],
+      ['GET', /^\/v1\/@app\/grants$/, this.grants],
+      ['GET', /^\/v1\/gameserver\/([a-f0-9]{40})$/, this.gameServer],
+      ['GET', /^\/v1\/users\/lookup$/, this.lookupUser],
+      ['GET', /^\/v1\/banlist\/([^/]+)\/bans$/, this.listBans],
+      ['POST', /^\/v1\/banlist\/([^/]+)\/bans$/, this.createBan],
+      ['DELETE', /^\/v1\/banlist\/([^/]+)\/bans$/, this.deleteBan],
+      ['GET', /^\/v1\/server\/([^/]+)\/info$/, this.serverInfo],
+      ['GET', /^\/v1\/server\/([^/]+)\/statistics$/, this.serverStatistics],
+      ['GET', /^\/v1\/server\/([^/]+)\/GSM\/list$/, this.playerList],
+      ['POST', /^\/v1\/server\/([^/]+)\/kick$/, this.kick],
+      ['POST', /^\/v1\/server\/([^/]+)\/message-private$/, this.messagePrivate],
+      ['POST', /^\/v1\/server\/([^/]+)\/message-server$/, this.messageServer],
+      ['POST', /^\/v1\/server\/([^/]+)\/raw$/, this.rconCommand],
+      ['GET', /^\/v1\/server\/([^/]+)\/GameLabs\/actions$/, this.gameLabsActions],
+      ['GET', /^\/v1\/server\/([^/]+)\/GameLabs\/entities\/(events|vehicles)$/, this.gameLabsEntities],
+      ['POST', /^\/v1\/server\/([^/]+)\/GameLabs\/action$/, this.postGameLabsAction],
+      ['POST', /^\/v1\/server\/([^/]+)\/GameLabs\/batch-actions$/, this.batchPostGameLabsAction],
+      ['GET', /^\/v1\/server\/([^/]+)\/(queuepriority|whitelist)$/, this.listBucket],
+      ['POST', /^\/v1\/server\/([^/]+)\/(queuepriority|whitelist)$/, this.postBucket],
+      ['DELETE', /^\/v1\/server\/([^/]+)\/(queuepriority|whitelist)$/, this.deleteBucket],
+      ['GET', /^\/v1\/server\/([^/]+)\/leaderboard$/, this.leaderboard],
+      ['GET', /^\/v2\/server\/([^/]+)\/player$/, this.playerStats],
+      ['DELETE', /^\/v2\/server\/([^/]+)\/player$/, this.resetPlayerStats],
+    ];
+  }
+
+  /**
+   * The base URL (origin) of the mock server, to be used as `apiBaseUrls`
+   * in the client options.
+   * @throws {Error} Thrown if the mock server has not been started
+   */
+  public get url(): string {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+
+    if (!address) {
+      throw new Error('The mock server has not been started');
+    }
+
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * @returns The base URLs to point a client at this mock server, for both
+   * the regular and enterprise API.
+   */
+  public apiBaseUrls(): ApiBaseUrls {
+    return {
+      v1: `${this.url}/${API_VERSION.V1}`,
+      v2: `${this.url}/${API_VERSION.V2}`,
+      enterpriseV1: `${this.url}/${API_VERSION.V1}`,
+      enterpriseV2: `${this.url}/${API_VERSION.V2}`,
+    };
+  }
+
+  /**
+   * Starts listening for requests.
+   * @param port The port to listen on, defaults to a random available port
+   * @returns The base URL (origin) of the mock server
+   */
+  public async start(port = 0): Promise<string> {
+    this.server = createServer(this.handleRequest);
+    await new Promise<void>((resolve) => this.server?.listen(port, '127.0.0.1', resolve));
+    return this.url;
+  }
+
+  /**
+   * Stops listening for requests, and closes all open connections.
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+
+    if (!server) {
+      return;
+    }
+
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+  }
+
+  /**
+   * Adds a user (identity) to the mock server, missing identifiers are generated - the
+   * BattlEye GUID and Bohemia Interactive UID are derived from the Steam64 ID.
+   * @param user The (partial) user to add
+   * @returns The added user
+   */
+  public addUser(user: Partial<MockUser> = {}): MockUser {
+    const steam64 = user.steam64 ?? `7656119${randomDigits(10)}`;
+    const resolvedUser: MockUser = {
+      cftoolsId: user.cftoolsId ?? randomHex(12),
+      steam64,
+      battleyeGuid: user.battleyeGuid ?? steam64ToBattlEyeGUID(steam64),
+      bohemiaUid: user.bohemiaUid ?? steam64ToBohemiaUID(steam64),
+      playerName: user.playerName ?? `Survivor ${this.users.length + 1}`,
+    };
+
+    this.users.push(resolvedUser);
+
+    return resolvedUser;
+  }
+
+  /**
+   * Adds a (granted) server to the mock server.
+   * @param server The (partial) server to add
+   * @returns The added server
+   */
+  public addServer(server: Partial<MockServerInstance> = {}): MockServerInstance {
+    const resolvedServer: MockServerInstance = {
+      serverApiId: randomHex(12),
+      gameserverId: randomHex(20),
+      name: `Mock Server ${this.servers.size + 1}`,
+      granted: true,
+      workerState: 'WorkerState.CONNECTED',
+      gameIntegrationStatus: true,
+      queryError: GameServerQueryError.NONE,
+      nextRestart: null,
+      sessions: [],
+      priorityQueue: [],
+      whitelist: [],
+      playerStats: {},
+      gameLabsActions: structuredClone(defaultGameLabsActions as unknown as GameLabsAction[]),
+      postedActions: [],
+      serverMessages: [],
+      privateMessages: [],
+      rconCommands: [],
+      kicks: [],
+      ...server,
+    };
+
+    this.servers.set(resolvedServer.serverApiId, resolvedServer);
+
+    return resolvedServer;
+  }
+
+  /**
+   * Adds a (granted) banlist to the mock server.
+   * @param banList The (partial) banlist to add
+   * @returns The added banlist
+   */
+  public addBanList(banList: Partial<MockBanList> = {}): MockBanList {
+    const resolvedBanList: MockBanList = {
+      banListId: randomHex(12),
+      granted: true,
+      bans: [],
+      ...banList,
+    };
+
+    this.banLists.set(resolvedBanList.banListId, resolvedBanList);
+
+    return resolvedBanList;
+  }
+
+  /**
+   * Connects a user to a server, creating a new player session.
+   * @param serverApiId The server API ID of the server to connect to
+   * @param user The user to connect
+   * @param session Overrides for the created session
+   * @returns The created session
+   * @throws {Error} Thrown if the server does not exist
+   */
+  public addSession(serverApiId: string, user: MockUser, session: Partial<PlayerSession> = {}): PlayerSession {
+    const server = this.servers.get(serverApiId);
+
+    if (!server) {
+      throw new Error(`Unknown mock server: ${serverApiId}`);
+    }
+
+    const resolvedSession: PlayerSession = {
+      cftools_id: user.cftoolsId,
+      connection: {
+        country_code: 'NL',
+        country_names: {
+          de: 'Niederlande',
+          en: 'Netherlands',
+          es: 'Países Bajos',
+          fr: 'Pays-Bas',
+          ja: 'オランダ王国',
+          'pt-BR': 'Holanda',
+          ru: 'Нидерланды',
+          'zh-CN': '荷兰',
+        },
+        ipv4: `10.0.${crypto.randomInt(256)}.${crypto.randomInt(256)}`,
+        malicious: false,
+        provider: null,
+      },
+      created_at: nowISO(),
+      gamedata: {
+        player_name: user.playerName,
+        steam64: user.steam64,
+      },
+      id: randomHex(12),
+      info: {
+        ban_count: 0,
+        labels: [],
+      },
+      live: {
+        load_time: 0,
+        loaded: true,
+        ping: { actual: 50, trend: 0 },
+        position: { join: [0, 0, 0], latest: [0, 0, 0], leave: null },
+      },
+      persona: {
+        bans: null,
+        profile: { avatar: '', name: user.playerName, private: false },
+      },
+      stats: {},
+      ...session,
+    };
+
+    server.sessions.push(resolvedSession);
+
+    return resolvedSession;
+  }
+
+  /**
+   * Injects a failure for the next request that matches the failure's path.
+   * @param failure The failure to inject
+   */
+  public failNext(failure: MockServerFailure): void {
+    this.failures.push(failure);
+  }
+
+  /**
+   * Expires all issued tokens, subsequent requests fail with `expired-token`.
+   */
+  public expireTokens(): void {
+    for (const token of this.tokens.keys()) {
+      this.tokens.set(token, 0);
+    }
+  }
+
+  /**
+   * Clears the log of handled requests.
+   */
+  public clearRequests(): void {
+    this.requests = [];
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = req.method ?? 'GET';
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    const requestLog: MockServerRequest = {
+      method, path: url.pathname, query: url.searchParams, body: null, status: 200,
+    };
+    this.requests.push(requestLog);
+
+    const respond = (status: number, body: Record<string, unknown> | null, headers: Record<string, string> = {}) => {
+      requestLog.status = status;
+      res.writeHead(status, body ? { 'Content-Type': 'application/json', ...headers } : headers);
+      res.end(body ? JSON.stringify(body) : undefined);
+    };
+
+    try {
+      const rawBody = await new Promise<string>((resolve, reject) => {
+        let data = '';
+        req.on('data', (chunk) => (data += chunk));
+        req.on('end', () => resolve(data));
+        req.on('error', reject);
+      });
+
+      try {
+        requestLog.body = rawBody ? JSON.parse(rawBody) : null;
+      } catch {
+        throw new MockResponseError(400, 'failed-type-validation');
+      }
+
+      const failureIndex = this.failures.findIndex((failure) => (!failure.method || failure.method === method)
+        && (!failure.path
+        || (typeof failure.path === 'string' ? url.pathname.includes(failure.path) : failure.path.test(url.pathname))));
+      if (failureIndex !== -1) {
+        const [failure] = this.failures.splice(failureIndex, 1);
+        throw new MockResponseError(failure.status, failure.error, failure.headers);
+      }
+
+      const route = this.routes.find(([routeMethod, pattern]) => routeMethod === method && pattern.test(url.pathname));
+      if (!route) {
+        throw new MockResponseError(404, 'not-found');
+      }
+
+      if (route[2] !== this.register) {
+        this.authorize(req.headers.authorization);
+      }
+
+      const [, pattern, handler] = route;
+      const result = handler.call(this, {
+        method,
+        params: (pattern.exec(url.pathname) ?? []).slice(1),
+        query: url.searchParams,
+        body: requestLog.body ?? {},
+      });
+
+      if (result === null) {
+        respond(204, null);
+        return;
+      }
+
+      respond(200, { status: true, ...result });
+    } catch (error) {
+      if (error instanceof MockResponseError) {
+        respond(error.status, { status: false, error: error.error }, error.headers);
+        return;
+      }
+
+      respond(500, { status: false, error: 'unexpected', request_id: randomHex(8) });
+    }
+  }
+
+  private authorize(authorization: string | undefined): void {
+    const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null;
+
+    if (!token) {
+      throw new MockResponseError(401, 'login-required');
+    }
+
+    const expiresAt = this.tokens.get(token);
+    if (expiresAt === undefined) {
+      throw new MockResponseError(403, 'bad-token');
+    }
+
+    if (expiresAt < Date.now()) {
+      throw new MockResponseError(403, 'expired-token');
+    }
+
+    if (this.rateLimit) {
+      const [requests, window] = this.rateLimit;
+      const windowStart = Date.now() - window * UnitConstants.MS_IN_ONE_S;
+      const hits = (this.rateLimitHits.get(token) ?? []).filter((hit) => hit > windowStart);
+
+      if (hits.length >= requests) {
+        const retryAfter = Math.ceil((hits[0] - windowStart) / UnitConstants.MS_IN_ONE_S);
+        throw new MockResponseError(429, 'rate-limited', { 'Retry-After': `${retryAfter}` });
+      }
+
+      hits.push(Date.now());
+      this.rateLimitHits.set(token, hits);
+    }
+  }
+
+  private grantedServer(serverApiId: string): MockServerInstance {
+    const server = this.servers.get(serverApiId);
+
+    if (!server?.granted) {
+      throw new MockResponseError(403, 'no-grant');
+    }
+
+    return server;
+  }
+
+  private grantedBanList(banListId: string): MockBanList {
+    const banList = this.banLists.get(banListId);
+
+    if (!banList?.granted) {
+      throw new MockResponseError(403, 'no-grant');
+    }
+
+    return banList;
+  }
+
+  private findUser(identifier: string): MockUser | undefined {
+    return this.users.find((user) => [user.cftoolsId, user.steam64, user.battleyeGuid, user.bohemiaUid]
+      .includes(identifier));
+  }
+
+  private requireString(value: unknown, maxLength?: number): string {
+    if (typeof value !== 'string' || !value.length) {
+      throw new MockResponseError(400, 'parameter-required');
+    }
+
+    if (maxLength && value.length > maxLength) {
+      throw new MockResponseError(400, 'max-length-exceeded');
+    }
+
+    return value;
+  }
+
+  private register({ body }: RouteContext) {
+    if (body.application_id !== this.applicationId) {
+      throw new MockResponseError(404, 'invalid-resource');
+    }
+
+    if (body.secret !== this.applicationSecret) {
+      throw new MockResponseError(403, 'bad-secret');
+    }
+
+    const token = randomHex(32);
+    this.tokens.set(token, Date.now() + this.tokenValidity * UnitConstants.MS_IN_ONE_S);
+
+    return { token, valid_for: this.tokenValidity };
+  }
+
+  private grants() {
+    return {
+      tokens: {
+        banlist: [...this.banLists.values()].filter((banList) => banList.granted).map((banList) => ({
+          created_at: nowISO(),
+          resource: { id: banList.banListId, identifier: banList.banListId, object_id: banList.banListId },
+        })),
+        server: [...this.servers.values()].filter((server) => server.granted).map((server) => ({
+          created_at: nowISO(),
+          resource: {
+            id: server.serverApiId,
+            identifier: server.name,
+            object_id: server.serverApiId,
+            gameserver_id: server.gameserverId,
+          },
+        })),
+      },
+    };
+  }
+
+  private gameServer({ params: [gameserverId] }: RouteContext) {
+    const server = [...this.servers.values()].find((server) => server.gameserverId === gameserverId);
+
+    if (!server) {
+      throw new MockResponseError(404, 'invalid-resource');
+    }
+
+    const gameServer: GameServer = {
+      _object: { created_at: nowISO(), error: server.queryError, updated_at: nowISO() },
+      attributes: {
+        description: '', dlc: false, dlcs: { livonia: false, sakhal: false }, experimental: false,
+        hive: 'private', modded: false, official: false, shard: '000000', whitelist: server.whitelist.length > 0,
+      },
+      environment: {
+        perspectives: { '1rd': true, '3rd': true },
+        time: '12:00',
+        time_acceleration: { general: 1, night: 1 },
+      },
+      game: Game.DayZ,
+      geolocation: {
+        available: false, city: { name: '', region: '' }, continent: '', country: { code: '', name: '' }, timezone: '',
+      },
+      host: { address: '127.0.0.1', game_port: 2302, os: 'w', query_port: 27016 },
+      map: 'chernarusplus',
+      mods: [],
+      name: server.name,
+      offline: server.workerState !== 'WorkerState.CONNECTED',
+      online: server.workerState === 'WorkerState.CONNECTED',
+      publisher: { monetization: false },
+      rank: 1,
+      rating: '0',
+      security: { battleye: true, password: false, vac: true },
+      signatures: [],
+      status: { bots: false, players: server.sessions.length, slots: 60, queue: { active: false, size: 0 } },
+      version: '1.26',
+    };
+
+    return { [gameserverId]: gameServer };
+  }
+
+  private lookupUser({ query }: RouteContext) {
+    const identifier = this.requireString(query.get('identifier'));
+    const user = this.findUser(identifier);
+
+    if (user) {
+      return { cftools_id: user.cftoolsId };
+    }
+
+    if (query.get('create') === 'true' && isSteam64(identifier)) {
+      return { cftools_id: this.addUser({ steam64: identifier }).cftoolsId, notice: 'account-created' };
+    }
+
+    if (!isSteam64(identifier) && !isCFToolsId(identifier)
+      && !isBattlEyeGUID(identifier) && !isBohemiaInteractiveUID(identifier)) {
+      throw new MockResponseError(400, 'failed-type-validation');
+    }
+
+    throw new MockResponseError(404, 'not-found');
+  }
+
+  private listBans({ params: [banListId], query }: RouteContext) {
+    const banList = this.grantedBanList(banListId);
+    const filter = query.get('filter');
+
+    return {
+      entries: banList.bans.filter((ban) => !filter || ban.identifier === filter || ban.reason.includes(filter)),
+    };
+  }
+
+  private createBan({ params: [banListId], body }: RouteContext) {
+    const banList = this.grantedBanList(banListId);
+    const identifier = this.requireString(body.identifier);
+    const reason = this.requireString(body.reason, 128);
+
+    if (body.format !== 'cftools_id' && body.format !== 'ipv4') {
+      throw new MockResponseError(400, 'invalid-option');
+    }
+
+    if (banList.bans.some((ban) => ban.identifier === identifier && ban.status === 'Ban.ACTIVE')) {
+      throw new MockResponseError(400, 'duplicate');
+    }
+
+    const id = randomHex(12);
+    banList.bans.push({
+      created_at: nowISO(),
+      updated_at: nowISO(),
+      expires_at: body.expires_at === 'PERMANENT' || !body.expires_at ? null : `${body.expires_at}`,
+      id,
+      identifier,
+      links: [{ href: `/v1/banlist/${banListId}/bans?ban_id=${id}`, method: 'DELETE', relationship: 'delete' }],
+      reason,
+      status: 'Ban.ACTIVE',
+    });
+
+    return null;
+  }
+
+  private deleteBan({ params: [banListId], query }: RouteContext) {
+    const banList = this.grantedBanList(banListId);
+    const banId = this.requireString(query.get('ban_id'));
+    const index = banList.bans.findIndex((ban) => ban.id === banId);
+
+    if (index === -1) {
+      throw new MockResponseError(404, 'not-found');
+    }
+
+    banList.bans.splice(index, 1);
+
+    return null;
+  }
+
+  private serverInfo({ params: [serverApiId] }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+    const response: Omit<ServerInfoResponse, 'status'> = {
+      links: [],
+      server: {
+        _object: {
+          created_at: nowISO(),
+          nickname: server.name,
+          resource_owner: this.applicationId,
+          updated_at: nowISO(),
+        },
+        connection: {
+          peer_version: '1.0.0',
+          prefilled_commands: false,
+          protcol_used: 'rcon',
+          restricted: false,
+        },
+        gameserver: {
+          LINK: `/v1/gameserver/${server.gameserverId}`,
+          game: Game.DayZ,
+          game_integration: {
+            capabilities: ['GSM', 'GameLabs'],
+            poll_protocol: '2',
+            status: server.gameIntegrationStatus,
+            updated_at: nowISO(),
+            version: '1.0.0',
+          },
+          gameserver_id: server.gameserverId,
+          runtime: {
+            gametime: '12:00',
+            restart_schedule: {
+              next: {
+                local: server.nextRestart?.toISOString() ?? null,
+                utc: server.nextRestart?.toISOString() ?? null,
+              },
+            },
+            uptime: 0,
+          },
+        },
+        worker: {
+          client_id: randomHex(12),
+          state: server.workerState,
+        },
+      },
+    };
+
+    return response;
+  }
+
+  private serverStatistics({ params: [serverApiId] }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+    const aggregate = () => ({ daily: [server.sessions.length], monthly: [0], weekly: [0] });
+
+    return {
+      statistics: {
+        aggregated: {
+          player_individual: aggregate(),
+          player_influx: aggregate(),
+          player_new_retention: aggregate(),
+          player_retention: { monthly: [0], weekly: [0] },
+          playtime: aggregate(),
+          sessions: aggregate(),
+          top_countries: [],
+        },
+        general: {
+          mod_complexity: 0,
+          playtime_total_seconds: 0,
+          sessions_total: server.sessions.length,
+        },
+      },
+    };
+  }
+
+  private playerList({ params: [serverApiId] }: RouteContext) {
+    return { sessions: this.grantedServer(serverApiId).sessions };
+  }
+
+  private findSession(server: MockServerInstance, sessionId: unknown): PlayerSession {
+    const session = server.sessions.find((session) => session.id === this.requireString(sessionId));
+
+    if (!session) {
+      throw new MockResponseError(404, 'not-found');
+    }
+
+    return session;
+  }
+
+  private kick({ params: [serverApiId], body }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+    const session = this.findSession(server, body.gamesession_id);
+    const reason = this.requireString(body.reason, 128);
+
+    server.sessions = server.sessions.filter((entry) => entry !== session);
+    server.kicks.push({ sessionId: session.id, reason });
+
+    return null;
+  }
+
+  private messagePrivate({ params: [serverApiId], body }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+    const session = this.findSession(server, body.gamesession_id);
+
+    server.privateMessages.push({ sessionId: session.id, content: this.requireString(body.content, 256) });
+
+    return null;
+  }
+
+  private messageServer({ params: [serverApiId], body }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+
+    server.serverMessages.push(this.requireString(body.content, 256));
+
+    return null;
+  }
+
+  private rconCommand({ params: [serverApiId], body }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+
+    server.rconCommands.push(this.requireString(body.command, 256));
+
+    return null;
+  }
+
+  private gameLabsActions({ params: [serverApiId] }: RouteContext) {
+    return { available_actions: this.grantedServer(serverApiId).gameLabsActions };
+  }
+
+  private gameLabsEntities({ params: [serverApiId] }: RouteContext) {
+    this.grantedServer(serverApiId);
+    return { entities: [] };
+  }
+
+  private validateGameLabsAction(server: MockServerInstance, action: Record<string, unknown>) {
+    const actionCode = this.requireString(action.actionCode);
+
+    if (!server.gameLabsActions.some((available) => available.actionCode === actionCode)) {
+      throw new MockResponseError(400, 'invalid-option');
+    }
+
+    return {
+      actionCode,
+      actionContext: this.requireString(action.actionContext) as PostGameLabsActionOptions['actionContext'],
+      referenceKey: typeof action.referenceKey === 'string' ? action.referenceKey : null,
+      parameters: (action.parameters ?? {}) as PostGameLabsActionOptions['parameters'],
+    };
+  }
+
+  private postGameLabsAction({ params: [serverApiId], body }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+
+    server.postedActions.push(this.validateGameLabsAction(server, body));
+
+    return null;
+  }
+
+  private batchPostGameLabsAction({ params: [serverApiId], body }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+
+    if (!Array.isArray(body.actions) || body.actions.length < 1) {
+      throw new MockResponseError(400, 'min-length-too-small');
+    }
+
+    if (body.actions.length > 10) {
+      throw new MockResponseError(400, 'max-length-exceeded');
+    }
+
+    const actions = body.actions.map((action) => this.validateGameLabsAction(server, action));
+    server.postedActions.push(...actions);
+
+    return null;
+  }
+
+  private bucket(server: MockServerInstance, type: string): (PriorityQueueEntry | WhitelistEntry)[] {
+    return type === 'whitelist' ? server.whitelist : server.priorityQueue;
+  }
+
+  private listBucket({ params: [serverApiId, type], query }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+    const cftoolsId = query.get('cftools_id');
+    const comment = query.get('comment');
+
+    return {
+      entries: this.bucket(server, type).filter((entry) => (!cftoolsId || entry.user.cftools_id === cftoolsId)
+        && (!comment || entry.meta.comment.includes(comment))),
+    };
+  }
+
+  private postBucket({ params: [serverApiId, type], body }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+    const cftoolsId = this.requireString(body.cftools_id);
+    const comment = this.requireString(body.comment);
+    const entries = this.bucket(server, type);
+
+    if (!isCFToolsId(cftoolsId)) {
+      throw new MockResponseError(400, 'failed-type-validation');
+    }
+
+    if (entries.some((entry) => entry.user.cftools_id === cftoolsId)) {
+      throw new MockResponseError(400, 'duplicate');
+    }
+
+    const uuid = crypto.randomUUID();
+    const link = {
+      href: `/v1/server/${serverApiId}/${type}?cftools_id=${cftoolsId}`,
+      method: 'DELETE',
+      relationship: 'delete',
+    };
+    const entry = {
+      created_at: nowISO(),
+      creator: { cftools_id: this.applicationId },
+      meta: {
+        comment,
+        expiration: typeof body.expires_at === 'string' ? body.expires_at : null,
+        from_api: true,
+      },
+      updated_at: nowISO(),
+      user: { cftools_id: cftoolsId },
+      uuid,
+    };
+
+    if (type === 'whitelist') {
+      server.whitelist.push({ ...entry, links: [link] });
+    } else {
+      server.priorityQueue.push({ ...entry, links: link });
+    }
+
+    return null;
+  }
+
+  private deleteBucket({ params: [serverApiId, type], query }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+    const cftoolsId = this.requireString(query.get('cftools_id'));
+    const entries = this.bucket(server, type);
+    const index = entries.findIndex((entry) => entry.user.cftools_id === cftoolsId);
+
+    if (index === -1) {
+      throw new MockResponseError(404, 'not-found');
+    }
+
+    entries.splice(index, 1);
+
+    return null;
+  }
+
+  private leaderboard({ params: [serverApiId], query }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+    const stat = this.requireString(query.get('stat')) as keyof LeaderboardEntry;
+    const order = Number(query.get('order') ?? -1);
+    const limit = Number(query.get('limit') ?? 10);
+
+    if (![1, -1].includes(order)) {
+      throw new MockResponseError(400, 'invalid-option');
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      throw new MockResponseError(400, 'length-missmatch');
+    }
+
+    const entries: Omit<LeaderboardEntry, 'rank'>[] = Object.entries(server.playerStats).map(([cftoolsId, values]) => {
+      const dayz = values.game.dayz;
+      return {
+        cftools_id: cftoolsId,
+        deaths: dayz?.deaths ?? 0,
+        environment_deaths: dayz?.environment_deaths ?? 0,
+        hits: dayz?.hits ?? 0,
+        kdratio: dayz?.kdratio ?? 0,
+        kills: dayz?.kills.players ?? 0,
+        latest_name: values.omega.name_history[0] ?? '',
+        longest_kill: dayz?.longest_kill ?? 0,
+        longest_shot: dayz?.longest_shot ?? 0,
+        playtime: values.omega.playtime,
+        suicides: dayz?.suicides ?? 0,
+      };
+    });
+
+    if (entries.length && !(stat in entries[0])) {
+      throw new MockResponseError(400, 'invalid-option');
+    }
+
+    const sortKey = stat as keyof Omit<LeaderboardEntry, 'rank'>;
+    const leaderboard = entries
+      .sort((a, b) => (Number(a[sortKey]) - Number(b[sortKey])) * order)
+      .slice(0, limit)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+    return { leaderboard };
+  }
+
+  /**
+   * Resolves the player statistics for a user on a server, creating
+   * empty statistics if the user has none yet.
+   */
+  private statsFor(server: MockServerInstance, user: MockUser): PlayerStatisticsValues {
+    if (!server.playerStats[user.cftoolsId]) {
+      server.playerStats[user.cftoolsId] = {
+        cleared_at: nowISO(),
+        created_at: nowISO(),
+        updated_at: nowISO(),
+        omega: { name_history: [user.playerName], playtime: 0, sessions: 0 },
+        game: {},
+      };
+    }
+
+    return server.playerStats[user.cftoolsId];
+  }
+
+  private playerStats({ params: [serverApiId], query }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+    const user = this.findUser(this.requireString(query.get('cftools_id')));
+
+    if (!user) {
+      throw new MockResponseError(404, 'not-found');
+    }
+
+    return {
+      identities: {
+        battleye: { guid: user.battleyeGuid },
+        bohemiainteractive: { uid: user.bohemiaUid },
+        steam: { steam64: user.steam64 },
+      },
+      [user.cftoolsId]: this.statsFor(server, user),
+    };
+  }
+
+  private resetPlayerStats({ params: [serverApiId], query }: RouteContext) {
+    const server = this.grantedServer(serverApiId);
+    const user = this.findUser(this.requireString(query.get('cftools_id')));
+
+    if (!user) {
+      throw new MockResponseError(404, 'not-found');
+    }
+
+    const stats = this.statsFor(server, user);
+    server.playerStats[user.cftoolsId] = {
+      ...stats,
+      cleared_at: nowISO(),
+      updated_at: nowISO(),
+      omega: { ...stats.omega, playtime: 0, sessions: 0 },
+      game: {},
+    };
+
+    return null;
+  }
+}
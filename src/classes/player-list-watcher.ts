@@ -0,0 +1,231 @@
+import { EventEmitter } from 'events';
+
+import { CFToolsClient } from './client';
+import { Poller } from './poller';
+import { UnitConstants } from '../constants';
+import type { AbstractLogger } from '../types/logger';
+import type { ClientPlayerSession } from '../types/responses';
+import type { PlayerListWatcherEvents, PlayerSessionChange, PlayerSessionEvent } from '../types/events';
+
+/**
+ * Watches the player list of one or more servers, by polling `/GSM/list` on a
+ * schedule and comparing the sessions between polls. Emits typed events
+ * ({@link PlayerListWatcherEvents}) when players join, leave, change or are
+ * flagged by CFTools radar.
+ *
+ * The first poll for a server only records the current player list, events
+ * are emitted for changes in subsequent polls. Failed polls emit a `pollError`
+ * event and keep the last known player list, so transient errors don't result
+ * in players leaving and re-joining. Errors thrown by listeners are emitted as
+ * `pollError` events as well, and don't stop the watcher.
+ */
+export class PlayerListWatcher extends EventEmitter<PlayerListWatcherEvents> {
+  /**
+   * The CFTools client instance, used for fetching the player lists.
+   */
+  private client: CFToolsClient;
+  /**
+   * The logger instance, used for logging messages - by default an extension of the
+   * logger attached to the primary {@link CFToolsClient} instance.
+   */
+  private logger: AbstractLogger;
+  /**
+   * The last known sessions for every watched server, by session ID. Servers that
+   * haven't been polled successfully yet are not present.
+   */
+  private sessions: Map<string, Map<string, ClientPlayerSession>> = new Map();
+  /** The poller, running {@link poll} on the configured interval. */
+  private poller: Poller;
+
+  /** The server API IDs of the servers that are watched. */
+  public serverApiIds: Set<string>;
+  /**
+   * The interval (in ms) between polls. When caching is enabled, this is never
+   * shorter than the TTL of the `playerList` cache, as polls would return the
+   * cached player list anyway.
+   */
+  public readonly interval: number;
+
+  /**
+   * Creates a new player list watcher, the watcher has to be started with {@link start}.
+   * @param client The CFTools client instance.
+   * @param serverApiIds The server API IDs of the servers to watch.
+   * @param interval The interval (in ms) between polls, defaults to the TTL of the `playerList` cache.
+   */
+  constructor(client: CFToolsClient, serverApiIds: string[], interval?: number) {
+    super();
+    this.client = client;
+    this.logger = client.logger.extend('PlayerListWatcher');
+
+    const cacheTTL = this.client.cacheConfiguration.playerList[0] * UnitConstants.MS_IN_ONE_S;
+
+    this.serverApiIds = new Set(serverApiIds);
+    this.interval = this.client.cachingEnabled
+      ? Math.max(interval ?? cacheTTL, cacheTTL)
+      : interval ?? cacheTTL;
+    this.poller = new Poller(this.logger, this.interval, () => this.poll());
+
+    this.start = this.start.bind(this);
+    this.stop = this.stop.bind(this);
+    this.addServer = this.addServer.bind(this);
+    this.removeServer = this.removeServer.bind(this);
+    this.players = this.players.bind(this);
+    this.poll = this.poll.bind(this);
+    this.pollServer = this.pollServer.bind(this);
+    this.compare = this.compare.bind(this);
+  }
+
+  /**
+   * @returns Whether the watcher is currently running.
+   */
+  public get running(): boolean {
+    return this.poller.running;
+  }
+
+  /**
+   * Starts polling the player lists, the first poll is performed immediately.
+   */
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.poller.start();
+    this.logger.debug(`Watching ${this.serverApiIds.size} server(s) every ${this.interval}ms`);
+  }
+
+  /**
+   * Stops polling the player lists, the last known player lists are kept.
+   */
+  public stop(): void {
+    this.poller.stop();
+    this.logger.debug('Stopped watching player lists');
+  }
+
+  /**
+   * Starts watching an additional server, from the next poll onwards.
+   * @param serverApiId The server API ID of the server to watch.
+   */
+  public addServer(serverApiId: string): void {
+    this.serverApiIds.add(serverApiId);
+  }
+
+  /**
+   * Stops watching a server, and forgets it's last known player list.
+   * @param serverApiId The server API ID of the server to stop watching.
+   */
+  public removeServer(serverApiId: string): void {
+    this.serverApiIds.delete(serverApiId);
+    this.sessions.delete(serverApiId);
+  }
+
+  /**
+   * @param serverApiId The server API ID of the server to resolve the players for.
+   * @returns The last known sessions of a server, or `null` if it hasn't been polled successfully yet.
+   */
+  public players(serverApiId: string): ClientPlayerSession[] | null {
+    const sessions = this.sessions.get(serverApiId);
+
+    return sessions ? Array.from(sessions.values()) : null;
+  }
+
+  /**
+   * Polls the player lists of all watched servers once, and emits events for any changes.
+   * Errors are emitted as `pollError` events, this method only throws if a `pollError` listener throws.
+   */
+  public async poll(): Promise<void> {
+    await Promise.all(Array.from(this.serverApiIds).map((serverApiId) => this.pollServer(serverApiId)));
+  }
+
+  /**
+   * Polls the player list of a single server, and emits events for any changes.
+   * @param serverApiId The server API ID of the server to poll.
+   */
+  private async pollServer(serverApiId: string): Promise<void> {
+    let current: ClientPlayerSession[];
+
+    try {
+      current = await this.client.playerList(serverApiId);
+    } catch (error) {
+      this.logger.warn(`Failed to poll player list for server ${serverApiId}`, error);
+      this.emit('pollError', { serverApiId, error });
+      return;
+    }
+
+    // The server may have been removed while the request was in-flight
+    if (!this.serverApiIds.has(serverApiId)) {
+      return;
+    }
+
+    const previous = this.sessions.get(serverApiId);
+    const resolvedSessions = new Map(current.map((session) => [session.id, session]));
+
+    this.sessions.set(serverApiId, resolvedSessions);
+
+    if (previous) {
+      try {
+        this.compare(serverApiId, previous, resolvedSessions);
+      } catch (error) {
+        this.logger.error(`A listener threw while emitting changes for server ${serverApiId}`, error);
+        this.emit('pollError', { serverApiId, error });
+      }
+    }
+  }
+
+  /**
+   * Compares the sessions of two polls, and emits events for any changes.
+   * @param serverApiId The server API ID of the server the sessions belong to.
+   * @param previous The sessions of the previous poll, by session ID.
+   * @param current The sessions of the current poll, by session ID.
+   */
+  private compare(
+    serverApiId: string,
+    previous: Map<string, ClientPlayerSession>,
+    current: Map<string, ClientPlayerSession>,
+  ): void {
+    const event = (session: ClientPlayerSession): PlayerSessionEvent => ({
+      serverApiId,
+      id: session.id,
+      cftoolsId: session.cftoolsId,
+      session,
+    });
+
+    for (const [id, session] of previous) {
+      if (!current.has(id)) {
+        this.emit('playerLeave', event(session));
+      }
+    }
+
+    for (const [id, session] of current) {
+      const previousSession = previous.get(id);
+      const previousFlags = previousSession?.info.radar?.flags ?? [];
+      const flags = (session.info.radar?.flags ?? []).filter((flag) => !previousFlags.includes(flag));
+
+      if (!previousSession) {
+        this.emit('playerJoin', event(session));
+      }
+      else {
+        const changes: PlayerSessionChange[] = [];
+        const previousPosition = previousSession.live.position.latest;
+
+        if (session.live.ping.actual !== previousSession.live.ping.actual) {
+          changes.push('ping');
+        }
+        if (session.live.position.latest.some((value, index) => value !== previousPosition[index])) {
+          changes.push('position');
+        }
+        if (JSON.stringify(session.stats) !== JSON.stringify(previousSession.stats)) {
+          changes.push('stats');
+        }
+
+        if (changes.length) {
+          this.emit('playerUpdate', { ...event(session), previous: previousSession, changes });
+        }
+      }
+
+      if (flags.length) {
+        this.emit('radarFlagged', { ...event(session), flags });
+      }
+    }
+  }
+}
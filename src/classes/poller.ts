@@ -0,0 +1,96 @@
+import type { AbstractLogger } from '../types/logger';
+
+/**
+ * Runs a task on an interval, used by the {@link PlayerListWatcher}, {@link ServerHealthMonitor}
+ * and {@link ExpirationScheduler}. The next run is scheduled once the previous run has settled,
+ * so runs never overlap. Errors thrown by a run are logged and don't stop the poller.
+ */
+export class Poller {
+  /**
+   * The logger instance, used for logging errors thrown by the task.
+   */
+  private logger: AbstractLogger;
+  /** The task to run on every poll. */
+  private task: () => Promise<void>;
+  /** The timeout for the next run, `null` if the poller is stopped or the task is running. */
+  private timeout: NodeJS.Timeout | null = null;
+  /** Whether the task is currently running. */
+  private inProgress = false;
+  /** Whether the poller is stopped. */
+  private stopped = true;
+
+  /** The interval (in ms) between runs. */
+  public readonly interval: number;
+
+  /**
+   * Creates a new poller, the poller has to be started with {@link start}.
+   * @param logger The logger instance, used for logging errors thrown by the task.
+   * @param interval The interval (in ms) between runs.
+   * @param task The task to run on every poll.
+   */
+  constructor(logger: AbstractLogger, interval: number, task: () => Promise<void>) {
+    this.logger = logger;
+    this.interval = interval;
+    this.task = task;
+
+    this.start = this.start.bind(this);
+    this.stop = this.stop.bind(this);
+    this.run = this.run.bind(this);
+  }
+
+  /**
+   * @returns Whether the poller is currently running.
+   */
+  public get running(): boolean {
+    return !this.stopped;
+  }
+
+  /**
+   * Starts running the task, the first run is performed immediately - or after the
+   * interval, if a run is still in progress.
+   */
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.stopped = false;
+
+    if (!this.inProgress) {
+      this.timeout = setTimeout(this.run, 0);
+    }
+  }
+
+  /**
+   * Stops running the task, a run that is in progress is completed.
+   */
+  public stop(): void {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+    }
+
+    this.timeout = null;
+    this.stopped = true;
+  }
+
+  /**
+   * Runs the task once, and schedules the next run - unless the poller was
+   * stopped while the task was running.
+   */
+  private async run(): Promise<void> {
+    this.timeout = null;
+    this.inProgress = true;
+
+    try {
+      await this.task();
+    } catch (error) {
+      this.logger.error('Unhandled error while polling', error);
+    } finally {
+      this.inProgress = false;
+
+      if (this.running) {
+        this.timeout = setTimeout(this.run, this.interval);
+      }
+    }
+  }
+}
@@ -0,0 +1,302 @@
+import { UnitConstants } from '../constants';
+import { InvalidOptionError } from './errors';
+import { AbstractLogger } from '../types/logger';
+
+/**
+ * RateLimitConfigurationEntry is a tuple that represents the rate limit
+ * configuration for a specific bucket. The first element is the amount of
+ * requests allowed, and the second element is the window (in seconds)
+ * in which these requests are allowed.
+ */
+export type RateLimitConfigurationEntry = [number, number];
+
+/**
+ * The buckets requests are divided into, each bucket is rate-limited individually.
+ *
+ * - `default` - Any request that doesn't belong to a more specific bucket.
+ * - `gameLabsActions` - Posting (batch) GameLabs actions.
+ * - `gsmMessaging` - Kicking and messaging players, and issuing RCon commands.
+ * - `banListWrites` - Creating and deleting bans.
+ */
+export type RateLimitBucket = 'default' | 'gameLabsActions' | 'gsmMessaging' | 'banListWrites';
+
+/**
+ * RateLimitConfiguration is an object that represents the client-side rate limiting
+ * configuration. Requests are queued, and released when a token is available in their
+ * respective bucket and the concurrency limit allows it.
+ */
+export type RateLimitConfiguration = {
+  /** Whether requests should be rate-limited client-side. */
+  enabled: boolean;
+  /** The maximum amount of requests that can be in-flight at the same time. */
+  concurrency: number;
+  /** The rate limit configuration for each bucket. */
+  buckets: Record<RateLimitBucket, RateLimitConfigurationEntry>;
+};
+
+/**
+ * The default client-side rate limiting configuration. The first element in
+ * each tuple is the amount of requests allowed, and the second element is the
+ * window (in seconds) in which these requests are allowed.
+ */
+export const defaultRateLimitConfiguration: RateLimitConfiguration = {
+  enabled: true,
+  concurrency: 10,
+  buckets: {
+    default: [100, 60],
+    gameLabsActions: [20, 60],
+    gsmMessaging: [30, 60],
+    banListWrites: [30, 60],
+  },
+};
+
+/**
+ * The options to override (parts of) the default rate limiting configuration with.
+ */
+export type RateLimitOptions = Partial<Omit<RateLimitConfiguration, 'buckets'>> & {
+  buckets?: Partial<RateLimitConfiguration['buckets']>;
+};
+
+/**
+ * Statistics for a single rate limit bucket.
+ */
+export type RateLimitBucketStatistics = {
+  /** The amount of tokens currently available in the bucket. */
+  tokens: number;
+  /** The amount of requests queued for this bucket. */
+  queued: number;
+};
+
+/**
+ * Statistics about the rate limiter, used to observe the request queue.
+ */
+export type RateLimitStatistics = {
+  /** The total amount of queued requests, across all buckets. */
+  queued: number;
+  /** The amount of requests that are currently in-flight. */
+  active: number;
+  /** The amount of requests that have been released from the queue. */
+  processed: number;
+  /** The average time (in ms) requests spent waiting in the queue. */
+  averageWaitTime: number;
+  /** The longest time (in ms) a request spent waiting in the queue. */
+  maxWaitTime: number;
+  /** Statistics for each individual bucket. */
+  buckets: Record<RateLimitBucket, RateLimitBucketStatistics>;
+};
+
+type TokenBucket = {
+  tokens: number;
+  capacity: number;
+  refillPerMs: number;
+  lastRefill: number;
+};
+
+type QueueEntry = {
+  bucket: RateLimitBucket;
+  enqueuedAt: number;
+  release: () => void;
+};
+
+/**
+ * Resolves the rate limit bucket a request belongs to.
+ * @param method The (uppercase) HTTP method of the request
+ * @param url The URL of the request
+ * @returns The bucket the request belongs to
+ */
+export const resolveRateLimitBucket = (method: string, url: string): RateLimitBucket => {
+  const { pathname } = new URL(url);
+
+  if (/\/GameLabs\/(action|batch-actions)$/.test(pathname)) {
+    return 'gameLabsActions';
+  }
+
+  if (/\/(kick|message-private|message-server|raw)$/.test(pathname)) {
+    return 'gsmMessaging';
+  }
+
+  if (method !== 'GET' && /\/banlist\/[^/]+\/bans$/.test(pathname)) {
+    return 'banListWrites';
+  }
+
+  return 'default';
+};
+
+/**
+ * A token-bucket scheduler that paces requests to the CFTools API, shared
+ * across all methods of a client.
+ */
+export class RateLimiter {
+  /** The rate limiting configuration in use by this rate limiter. */
+  public configuration: RateLimitConfiguration;
+
+  private buckets: Record<RateLimitBucket, TokenBucket>;
+  private queue: QueueEntry[] = [];
+  private active = 0;
+  private processed = 0;
+  private totalWaitTime = 0;
+  private maxWaitTime = 0;
+  private drainTimeout: NodeJS.Timeout | null = null;
+
+  /**
+   * Creates a new rate limiter.
+   * @param logger The logger to use for logging messages
+   * @param options The options to override the default rate limiting configuration with
+   * @throws {InvalidOptionError} Thrown if rate limiting is enabled, and the concurrency or the requests of a
+   * bucket is less than 1, or the window of a bucket is not a positive (finite) number - requests would never
+   * be released.
+   */
+  constructor(
+    private logger: AbstractLogger,
+    options: RateLimitOptions = {},
+  ) {
+    this.configuration = {
+      ...defaultRateLimitConfiguration,
+      ...options,
+      buckets: { ...defaultRateLimitConfiguration.buckets, ...options.buckets },
+    };
+
+    const isPositive = (value: number) => Number.isFinite(value) && value > 0;
+    const isAtLeastOne = (value: number) => Number.isFinite(value) && value >= 1;
+
+    if (this.configuration.enabled && !isAtLeastOne(this.configuration.concurrency)) {
+      throw new InvalidOptionError(
+        null,
+        `Rate limit concurrency must be at least 1, received: ${this.configuration.concurrency}`,
+      );
+    }
+
+    for (const [bucket, [requests, window]] of Object.entries(this.configuration.buckets)) {
+      if (this.configuration.enabled && (!isAtLeastOne(requests) || !isPositive(window))) {
+        throw new InvalidOptionError(
+          null,
+          `Rate limit bucket "${bucket}" must allow at least 1 request per positive window, received: `
+            + `${requests} per ${window}s`,
+        );
+      }
+    }
+
+    const now = Date.now();
+    this.buckets = Object.fromEntries(
+      Object.entries(this.configuration.buckets).map(([bucket, [requests, window]]) => [bucket, {
+        tokens: requests,
+        capacity: requests,
+        refillPerMs: requests / (window * UnitConstants.MS_IN_ONE_S),
+        lastRefill: now,
+      }]),
+    ) as Record<RateLimitBucket, TokenBucket>;
+
+    this.schedule = this.schedule.bind(this);
+    this.stats = this.stats.bind(this);
+    this.drain = this.drain.bind(this);
+  }
+
+  /**
+   * Schedules a task in the request queue, the task is executed once a token is
+   * available in its bucket and the concurrency limit allows it.
+   * @param bucket The bucket the task belongs to
+   * @param task The task to execute
+   * @returns The result of the task
+   */
+  public async schedule<T>(bucket: RateLimitBucket, task: () => Promise<T>): Promise<T> {
+    if (!this.configuration.enabled) {
+      return task();
+    }
+
+    await new Promise<void>((release) => {
+      this.queue.push({ bucket, enqueuedAt: Date.now(), release });
+      this.drain();
+    });
+
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  /**
+   * @returns Statistics about the request queue, and the individual buckets.
+   */
+  public stats(): RateLimitStatistics {
+    const bucketNames = Object.keys(this.buckets) as RateLimitBucket[];
+
+    return {
+      queued: this.queue.length,
+      active: this.active,
+      processed: this.processed,
+      averageWaitTime: this.processed ? this.totalWaitTime / this.processed : 0,
+      maxWaitTime: this.maxWaitTime,
+      buckets: Object.fromEntries(bucketNames.map((bucket) => [bucket, {
+        tokens: Math.floor(this.refill(bucket).tokens),
+        queued: this.queue.filter((entry) => entry.bucket === bucket).length,
+      }])) as Record<RateLimitBucket, RateLimitBucketStatistics>,
+    };
+  }
+
+  /**
+   * Refills the tokens in a bucket, based on the time that has passed since the last refill.
+   * @param bucket The bucket to refill
+   * @returns The refilled bucket
+   */
+  private refill(bucket: RateLimitBucket): TokenBucket {
+    const tokenBucket = this.buckets[bucket];
+    const now = Date.now();
+
+    tokenBucket.tokens = Math.min(
+      tokenBucket.capacity,
+      tokenBucket.tokens + (now - tokenBucket.lastRefill) * tokenBucket.refillPerMs,
+    );
+    tokenBucket.lastRefill = now;
+
+    return tokenBucket;
+  }
+
+  /**
+   * Releases as many queued tasks as possible, in order. Tasks for an exhausted
+   * bucket don't block tasks for other buckets.
+   */
+  private drain(): void {
+    let nextRefillIn = Infinity;
+
+    for (let i = 0; i < this.queue.length && this.active < this.configuration.concurrency;) {
+      const entry = this.queue[i];
+      const tokenBucket = this.refill(entry.bucket);
+
+      if (tokenBucket.tokens < 1) {
+        nextRefillIn = Math.min(nextRefillIn, Math.ceil((1 - tokenBucket.tokens) / tokenBucket.refillPerMs));
+        i++;
+        continue;
+      }
+
+      const waitTime = Date.now() - entry.enqueuedAt;
+
+      tokenBucket.tokens--;
+      this.queue.splice(i, 1);
+      this.active++;
+      this.processed++;
+      this.totalWaitTime += waitTime;
+      this.maxWaitTime = Math.max(this.maxWaitTime, waitTime);
+
+      if (waitTime > 0) {
+        this.logger.debug(`Released request from ${entry.bucket} bucket after ${waitTime}ms`, {
+          queued: this.queue.length,
+          active: this.active,
+        });
+      }
+
+      entry.release();
+    }
+
+    if (this.drainTimeout) {
+      clearTimeout(this.drainTimeout);
+      this.drainTimeout = null;
+    }
+
+    if (this.queue.length && nextRefillIn !== Infinity) {
+      this.logger.debug(`Rate limit reached, ${this.queue.length} request(s) queued for ${nextRefillIn}ms`);
+      this.drainTimeout = setTimeout(this.drain, nextRefillIn);
+    }
+  }
+}
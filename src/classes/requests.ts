@@ -1,3 +1,5 @@
+import { EventEmitter } from 'events';
+
 import { Authentication } from './auth';
 import {
   API_VERSION,
@@ -5,10 +7,21 @@ import {
   ENTERPRISE_V2_API_BASE_URL,
   V1_API_BASE_URL,
   V2_API_BASE_URL,
+  UnitConstants,
 } from '../constants';
+import type { ClientEvents } from '../types/events';
 import { AbstractLogger } from '../types/logger';
-import { AbstractRequestClient } from '../types/requests';
+import {
+  AbstractRequestClient,
+  ApiBaseUrls,
+  FetchFunction,
+  RequestInterceptorContext,
+  RequestInterceptors,
+} from '../types/requests';
+import { isHTTPRequestError, isRateLimitError } from './type-guards';
+import { RateLimiter, RateLimitOptions, resolveRateLimitBucket } from './rate-limiter';
 import { 
+  APIBody,
   BadSecretError,
   BadTokenError,
   DuplicateEntryError,
@@ -34,23 +47,148 @@ import {
   UnexpectedError
 } from './errors';
 
+/**
+ * The default base URLs used to resolve API URLs.
+ */
+export const defaultApiBaseUrls: ApiBaseUrls = {
+  v1: V1_API_BASE_URL,
+  v2: V2_API_BASE_URL,
+  enterpriseV1: ENTERPRISE_V1_API_BASE_URL,
+  enterpriseV2: ENTERPRISE_V2_API_BASE_URL,
+};
+
+/**
+ * Resolves the base URLs to use for API requests. When a string is provided, it
+ * is used as the origin for all API versions, for both the regular and enterprise API
+ * (e.g. `'http://localhost:3000'` resolves to `'http://localhost:3000/v1'` for v1).
+ * @param baseUrls The base URL (origin), or the individual base URLs to override
+ * @returns The resolved base URLs
+ */
+export const resolveApiBaseUrls = (baseUrls: string | Partial<ApiBaseUrls> = {}): ApiBaseUrls => {
+  if (typeof baseUrls === 'string') {
+    const origin = baseUrls.replace(/\/+$/, '');
+    return {
+      v1: `${origin}/${API_VERSION.V1}`,
+      v2: `${origin}/${API_VERSION.V2}`,
+      enterpriseV1: `${origin}/${API_VERSION.V1}`,
+      enterpriseV2: `${origin}/${API_VERSION.V2}`,
+    };
+  }
+
+  return { ...defaultApiBaseUrls, ...baseUrls };
+};
+
+/**
+ * RetryConfiguration is an object that represents the retry policy used by the
+ * request client. Requests are retried with exponential backoff (and jitter)
+ * when they fail with a rate limit, timeout, or transient server error.
+ */
+export type RetryConfiguration = {
+  /** Whether failed requests should be retried at all. */
+  enabled: boolean;
+  /** The maximum number of attempts per request, including the initial attempt. */
+  maxAttempts: number;
+  /** The base delay (in ms) for the exponential backoff. */
+  baseDelay: number;
+  /**
+   * The maximum delay (in ms) between attempts. When the API asks us to wait longer
+   * than this (through the `Retry-After` header), the error is thrown instead.
+   */
+  maxDelay: number;
+  /** Whether (full) jitter should be applied to the backoff delay. */
+  jitter: boolean;
+  /**
+   * The HTTP methods that are retried. Only idempotent `GET` requests are retried
+   * by default, add `POST`, `PUT` and/or `DELETE` to opt-in for those methods.
+   */
+  methods: string[];
+  /**
+   * Status codes that are considered transient, and are retried. Rate limit errors
+   * (`429`) are always retried. Note that {@link TimeoutError} and {@link UnexpectedError}
+   * are both reported with a `500` status code. Network failures (e.g. a reset connection,
+   * reported with a `0` status code) are always retried for idempotent methods, see {@link IDEMPOTENT_METHODS}.
+   */
+  statusCodes: number[];
+};
+
+/**
+ * The HTTP methods that are safe to retry after a network failure, when it's
+ * unknown whether the request reached the API.
+ */
+export const IDEMPOTENT_METHODS = ['GET', 'DELETE'];
+
+/**
+ * The default retry policy for the request client.
+ */
+export const defaultRetryConfiguration: RetryConfiguration = {
+  enabled: true,
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  jitter: true,
+  methods: ['GET'],
+  statusCodes: [500, 502, 503, 504],
+};
+
 export class RequestClient extends AbstractRequestClient implements AbstractRequestClient {
+  /**
+   * The retry policy in use by the request client.
+   * @see {@link defaultRetryConfiguration}
+   */
+  public retryConfiguration: RetryConfiguration;
+  /**
+   * The rate limiter used to pace requests, shared across all requests made by this client.
+   * @see {@link RateLimiter.stats} to observe the request queue
+   */
+  public rateLimiter: RateLimiter;
+  /** The base URLs used to resolve API URLs. */
+  public baseUrls: ApiBaseUrls;
+  /**
+   * The interceptors that are applied to requests, interceptors can be
+   * added or removed at any time.
+   */
+  public interceptors: RequestInterceptors;
+  /** The `fetch` implementation used to perform requests. */
+  private fetch: FetchFunction;
+
   /**
    * Creates a new request client to interact with the CFTools API
    * @param authProvider The authentication provider to use for requests
    * @param logger The logger to use for logging messages
    * @param timeout The timeout for requests in milliseconds
+   * @param retryConfiguration The retry policy to use for failed requests
+   * @param rateLimitConfiguration The client-side rate limiting configuration to use
+   * @param fetchImplementation The `fetch` implementation to use, defaults to the global `fetch`
+   * @param baseUrls The base URL (origin), or the individual base URLs to override
+   * @param interceptors The interceptors to apply to requests
+   * @param events The event emitter to emit request events on, usually the client
    */
   constructor(
     private authProvider: Authentication,
     private logger: AbstractLogger,
     public timeout = 10000,
+    retryConfiguration: Partial<RetryConfiguration> = {},
+    rateLimitConfiguration: RateLimitOptions = {},
+    fetchImplementation?: FetchFunction,
+    baseUrls?: string | Partial<ApiBaseUrls>,
+    interceptors: Partial<RequestInterceptors> = {},
+    private events: EventEmitter<ClientEvents> | null = null,
   ) {
     super();
+    this.fetch = fetchImplementation ?? ((input, init) => fetch(input, init));
+    this.baseUrls = resolveApiBaseUrls(baseUrls);
+    this.retryConfiguration = { ...defaultRetryConfiguration, ...retryConfiguration };
+    this.rateLimiter = new RateLimiter(logger.extend('RateLimiter'), rateLimitConfiguration);
+    this.interceptors = {
+      beforeRequest: [...interceptors.beforeRequest ?? []],
+      afterResponse: [...interceptors.afterResponse ?? []],
+      onError: [...interceptors.onError ?? []],
+    };
     this.apiUrl = this.apiUrl.bind(this);
     this.resolveHeaders = this.resolveHeaders.bind(this);
     this.resolveRequestOptions = this.resolveRequestOptions.bind(this);
     this.request = this.request.bind(this);
+    this.retryDelay = this.retryDelay.bind(this);
     this.get = this.get.bind(this);
     this.post = this.post.bind(this);
     this.put = this.put.bind(this);
@@ -66,8 +204,8 @@ export class RequestClient extends AbstractRequestClient implements AbstractRequ
    */
   public apiUrl(version: API_VERSION, path: string, params?: Record<string, string> | URLSearchParams): string {
     const baseUrl = this.authProvider.enterpriseToken
-      ? version === API_VERSION.V1 ? ENTERPRISE_V1_API_BASE_URL : ENTERPRISE_V2_API_BASE_URL
-      : version === API_VERSION.V1 ? V1_API_BASE_URL : V2_API_BASE_URL;
+      ? version === API_VERSION.V1 ? this.baseUrls.enterpriseV1 : this.baseUrls.enterpriseV2
+      : version === API_VERSION.V1 ? this.baseUrls.v1 : this.baseUrls.v2;
     const resolvedParams = params ?
       !(params instanceof URLSearchParams) ? new URLSearchParams(params) : params
       : undefined;
@@ -122,23 +260,14 @@ export class RequestClient extends AbstractRequestClient implements AbstractRequ
       signal: AbortSignal.timeout(this.timeout),
     };
 
-    this.logger.debug(`Resolved request options for ${url}`, {
-      ...resolvedOptions,
-      headers: {
-        ...resolvedOptions.headers,
-        Authorization: 'Bearer [REDACTED]',
-        'X-Enterprise-Access-Token': Object.prototype.hasOwnProperty.call(
-          resolvedOptions.headers,
-          'X-Enterprise-Access-Token'
-        ) ? '[REDACTED]' : undefined,
-      },
-    });
+    this.logger.debug(`Resolved request options for ${url}`, redactRequestOptions(resolvedOptions));
 
     return resolvedOptions;
   }
 
   /**
-   * Perform a request to the CFTools API
+   * Perform a request to the CFTools API, failed requests are retried
+   * according to the {@link retryConfiguration}
    * @param url The URL to request
    * @param options The options for the request
    * @param isAuthenticating Whether the request is for authentication or not
@@ -171,15 +300,154 @@ export class RequestClient extends AbstractRequestClient implements AbstractRequ
     options: RequestInit,
     isAuthenticating = false,
   ): Promise<T> {
+    const method = options.method?.toLocaleUpperCase() ?? 'GET';
+    const { enabled, maxAttempts, methods } = this.retryConfiguration;
+    const resolvedMaxAttempts = enabled && methods.includes(method) ? Math.max(1, maxAttempts) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      this.logger.debug(`${method} Request to ${url}, attempt ${attempt}/${resolvedMaxAttempts}`);
+
+      try {
+        return await this.performRequest<T>(url, options, isAuthenticating, attempt);
+      } catch (error) {
+        const delay = attempt < resolvedMaxAttempts ? this.retryDelay(error, attempt, method) : null;
+
+        if (isRateLimitError(error)) {
+          this.events?.emit('rateLimited', { url, method, attempt, error, retryIn: delay });
+        }
+
+        if (delay === null) {
+          throw error;
+        }
+
+        this.logger.warn(
+          `${method} Request to ${url} failed (attempt ${attempt}/${resolvedMaxAttempts}), retrying in ${delay}ms`,
+          `${error}`,
+        );
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Resolves the delay before the next attempt of a failed request, honouring
+   * the `Retry-After` header when the API provides one.
+   * @param error The error the previous attempt failed with
+   * @param attempt The (1-based) attempt that failed
+   * @param method The HTTP method of the failed request
+   * @returns The delay in milliseconds, or `null` if the request should not be retried
+   */
+  public retryDelay(error: unknown, attempt: number, method = 'GET'): number | null {
+    const { baseDelay, maxDelay, jitter, statusCodes } = this.retryConfiguration;
+
+    if (!isHTTPRequestError(error)) {
+      return null;
+    }
+
+    const isNetworkFailure = error.statusCode === 0 && IDEMPOTENT_METHODS.includes(method.toLocaleUpperCase());
+
+    if (!isNetworkFailure && error.statusCode !== 429 && !statusCodes.includes(error.statusCode)) {
+      return null;
+    }
+
+    const retryAfter = resolveRetryAfter(error.body);
+    if (retryAfter !== null) {
+      return retryAfter <= maxDelay ? retryAfter : null;
+    }
+
+    const exponentialDelay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+
+    return jitter ? Math.round(Math.random() * exponentialDelay) : exponentialDelay;
+  }
+
+  /**
+   * Perform a single request (attempt) to the CFTools API, errors are
+   * passed through the `onError` interceptors
+   * @param url The URL to request
+   * @param options The options for the request
+   * @param isAuthenticating Whether the request is for authentication or not
+   * @param attempt The (1-based) attempt of the request
+   * @returns The parsed JSON response from the request
+   * @see {@link request}
+   */
+  private async performRequest<T>(
+    url: string,
+    options: RequestInit,
+    isAuthenticating: boolean,
+    attempt: number,
+  ): Promise<T> {
+    const context: RequestInterceptorContext = {
+      url,
+      init: options,
+      method: options.method?.toLocaleUpperCase() ?? 'GET',
+      version: this.resolveApiVersion(url),
+      attempt,
+      isAuthenticating,
+    };
+
+    try {
+      return await this.performAttempt<T>(context);
+    } catch (error) {
+      let resolvedError = error;
+
+      for (const interceptor of this.interceptors.onError) {
+        try {
+          await interceptor({ ...context, error: resolvedError });
+        } catch (interceptorError) {
+          resolvedError = interceptorError;
+        }
+      }
+
+      throw resolvedError;
+    }
+  }
+
+  /**
+   * Perform a single request (attempt) to the CFTools API, passing the request
+   * and response through the `beforeRequest` and `afterResponse` interceptors
+   * @param context The context of the request, updated with the resolved request options
+   * @returns The parsed JSON response from the request
+   * @see {@link request}
+   */
+  private async performAttempt<T>(context: RequestInterceptorContext): Promise<T> {
+    const { url, method, isAuthenticating } = context;
+
     if (this.authProvider.shouldRefresh() && !isAuthenticating) {
       await this.authProvider.performRefresh();
     }
 
     let response: Response;
-    const method = options.method?.toLocaleUpperCase() ?? 'GET';
+    let startedAt = Date.now();
 
     try {
-      response = await fetch(url, this.resolveRequestOptions(url, options, isAuthenticating));
+      response = await this.rateLimiter.schedule(resolveRateLimitBucket(method, url), async () => {
+        context.init = this.resolveRequestOptions(url, context.init, isAuthenticating);
+        this.events?.emit('request', {
+          url,
+          method,
+          version: context.version,
+          attempt: context.attempt,
+          isAuthenticating,
+        });
+
+        for (const interceptor of this.interceptors.beforeRequest) {
+          const result = await interceptor({ ...context });
+
+          if (result instanceof Response) {
+            this.logger.debug(`${method} Request to ${url} short-circuited by interceptor`);
+            return result;
+          }
+
+          if (result) {
+            context.init = result;
+            this.logger.debug(`Intercepted request options for ${url}`, redactRequestOptions(result));
+          }
+        }
+
+        startedAt = Date.now();
+        return this.fetch(url, context.init);
+      });
     } catch (e) {
       this.logger.error('Request failed', 'error', `${e}`);
 
@@ -194,28 +462,75 @@ export class RequestClient extends AbstractRequestClient implements AbstractRequ
       throw new HTTPRequestError(0, 'Request failed', { error: `${e}` });
     }
 
+    const duration = Date.now() - startedAt;
+    this.events?.emit('response', {
+      url,
+      method,
+      version: context.version,
+      attempt: context.attempt,
+      isAuthenticating,
+      status: response.status,
+      duration,
+    });
+    let body: unknown = undefined;
+
+    if (response.status !== 204) {
+      try {
+        body = await response.json();
+      } catch (e) {
+        if (response.ok) {
+          this.logger.error('Failed to parse response', 'error', `${e}`, 'response', response);
+          throw new LibraryParsingError('Failed to parse response, create a GitHub issue with the response body');
+        }
+
+        this.logger.error('Failed to parse error response', 'error', `${e}`, 'headers', response.headers);
+      }
+    }
+
+    for (const interceptor of this.interceptors.afterResponse) {
+      const result = await interceptor({
+        ...context,
+        status: response.status,
+        headers: response.headers,
+        body,
+        duration,
+      });
+
+      if (result !== undefined) {
+        body = result;
+      }
+    }
+
     if (!response.ok) {
-      await this.errorHandler({ url, method }, response);
+      this.errorHandler({ url, method }, response, body);
     }
 
     this.logger.debug(`${method} Request to ${url} successful`, response.statusText);
 
     if (response.status === 204) {
       this.logger.debug('Request was successful but returned no content, returning empty response');
-      return undefined as unknown as T;
+    } else {
+      this.logger.debug(`Parsed response from ${method} ${url}`, body);
     }
 
-    let json;
-    try {
-      json = await response.json();
-    } catch (e) {
-      this.logger.error('Failed to parse response', 'error', `${e}`, 'response', response);
-      throw new LibraryParsingError('Failed to parse response, create a GitHub issue with the response body');
+    return body as T;
+  }
+
+  /**
+   * Resolves the API version a URL belongs to, based on the configured base URLs
+   * @param url The URL to resolve the API version for
+   * @returns The API version, or `null` if the URL doesn't belong to any of the base URLs
+   */
+  private resolveApiVersion(url: string): API_VERSION | null {
+    if (url.startsWith(`${this.baseUrls.v1}/`) || url.startsWith(`${this.baseUrls.enterpriseV1}/`)) {
+      return API_VERSION.V1;
     }
 
-    this.logger.debug(`Parsed response from ${method} ${url}`, json);
+    if (url.startsWith(`${this.baseUrls.v2}/`) || url.startsWith(`${this.baseUrls.enterpriseV2}/`)) {
+      return API_VERSION.V2;
+    }
 
-    return json;
+    return null;
   }
 
   /**
@@ -268,6 +583,7 @@ export class RequestClient extends AbstractRequestClient implements AbstractRequ
    * Wraps request errors in a more user-friendly error
    * @param request The request that failed
    * @param response The response from the failed request
+   * @param body The parsed (JSON) body of the failed response
    * @throws {HTTPRequestError} Thrown if the request fails
    * @throws {InvalidMethodError} Thrown if the request method is invalid
    * @throws {ParameterRequiredError} Thrown if a required parameter is missing
@@ -291,18 +607,14 @@ export class RequestClient extends AbstractRequestClient implements AbstractRequ
    * @throws {TimeoutError} Thrown if the request timed out
    * @throws {SystemUnavailableError} Thrown if the system is unavailable
    */
-  private async errorHandler(request: {
+  private errorHandler(request: {
     url: string;
     method: string;
-  }, response: Response): Promise<void> {
+  }, response: Response, body: unknown): never {
     this.logger.error('Request failed', response.statusText);
 
-    let body;
-    try {
-      body = await response.json();
+    if (body !== undefined) {
       this.logger.error('Request error', 'response-body', JSON.stringify(body), 'headers', response.headers);
-    } catch (e) {
-      this.logger.error('Failed to parse error response', 'error', `${e}`, 'headers', response.headers);
     }
 
     const status: number = response.status;
@@ -391,4 +703,45 @@ export class RequestClient extends AbstractRequestClient implements AbstractRequ
 
     throw new HTTPRequestError(status, `Request failed: ${response.statusText} (${response.status})`, errorBody);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Redacts the authentication headers from request options, used for logging
+ * @param options The request options to redact
+ * @returns The redacted request options
+ */
+const redactRequestOptions = (options: RequestInit) => ({
+  ...options,
+  headers: {
+    ...options.headers,
+    Authorization: 'Bearer [REDACTED]',
+    'X-Enterprise-Access-Token': Object.prototype.hasOwnProperty.call(
+      options.headers,
+      'X-Enterprise-Access-Token'
+    ) ? '[REDACTED]' : undefined,
+  },
+});
+
+/**
+ * Resolves the `Retry-After` header from an error body (as constructed by
+ * the request client error handler), supports both
+ * delay-seconds and HTTP-date values.
+ * @param body The body of the error
+ * @returns The delay in milliseconds, or `null` if the header is absent or invalid
+ */
+const resolveRetryAfter = (body: APIBody): number | null => {
+  const headers = body?.headers;
+  const value = headers instanceof Headers ? headers.get('Retry-After') : null;
+
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * UnitConstants.MS_IN_ONE_S);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
@@ -0,0 +1,269 @@
+import { EventEmitter } from 'events';
+
+import { CFToolsClient } from './client';
+import { Poller } from './poller';
+import { UnitConstants } from '../constants';
+import { GameServerQueryError } from '../types/general';
+import type { AbstractLogger } from '../types/logger';
+import type { ServerHealth, ServerHealthMonitorEvents } from '../types/events';
+
+/**
+ * Monitors the health of one or more servers, by polling `serverInfo` and
+ * `gameServerDetails` on a schedule and comparing the results between checks.
+ * Emits typed events ({@link ServerHealthMonitorEvents}) when a server goes
+ * offline or online, the GameLabs integration (dis)connects, the worker state
+ * changes, the game-server query fails (e.g. times out), or a scheduled restart
+ * is imminent.
+ *
+ * The first check for a server only records the current health, transitions are
+ * emitted for subsequent checks. Failed checks emit a `checkError` event and keep
+ * the last known health. Errors thrown by listeners are emitted as `checkError`
+ * events as well, and don't stop the monitor.
+ */
+export class ServerHealthMonitor extends EventEmitter<ServerHealthMonitorEvents> {
+  /**
+   * The CFTools client instance, used for fetching the server information.
+   */
+  private client: CFToolsClient;
+  /**
+   * The logger instance, used for logging messages - by default an extension of the
+   * logger attached to the primary {@link CFToolsClient} instance.
+   */
+  private logger: AbstractLogger;
+  /**
+   * The last known health for every monitored server. Servers that haven't been
+   * checked successfully yet are not present.
+   */
+  private healthByServer: Map<string, ServerHealth> = new Map();
+  /**
+   * The scheduled restarts (timestamps in ms) that `restartImminent` has been
+   * emitted for, by server API ID.
+   */
+  private announcedRestarts: Map<string, number> = new Map();
+  /** The poller, running {@link check} on the configured interval. */
+  private poller: Poller;
+
+  /** The server API IDs of the servers that are monitored. */
+  public serverApiIds: Set<string>;
+  /**
+   * The interval (in ms) between checks. When caching is enabled, this is never
+   * shorter than the TTL of the `serverInfo` and `gameServerDetails` caches, as
+   * checks would return the cached responses anyway.
+   */
+  public readonly interval: number;
+  /**
+   * The time (in ms) before a scheduled restart, at which `restartImminent` is emitted.
+   */
+  public readonly restartLeadTime: number;
+
+  /**
+   * Creates a new server health monitor, the monitor has to be started with {@link start}.
+   * @param client The CFTools client instance.
+   * @param serverApiIds The server API IDs of the servers to monitor.
+   * @param interval The interval (in ms) between checks, defaults to the TTL of the `serverInfo` cache.
+   * @param restartLeadTime The time (in ms) before a scheduled restart, at which `restartImminent` is emitted.
+   */
+  constructor(
+    client: CFToolsClient,
+    serverApiIds: string[],
+    interval?: number,
+    restartLeadTime = 5 * UnitConstants.MS_IN_ONE_M,
+  ) {
+    super();
+    this.client = client;
+    this.logger = client.logger.extend('ServerHealthMonitor');
+
+    const cacheTTL = Math.max(
+      this.client.cacheConfiguration.serverInfo[0],
+      this.client.cacheConfiguration.gameServerDetails[0],
+    ) * UnitConstants.MS_IN_ONE_S;
+
+    this.serverApiIds = new Set(serverApiIds);
+    this.interval = this.client.cachingEnabled
+      ? Math.max(interval ?? cacheTTL, cacheTTL)
+      : interval ?? cacheTTL;
+    this.restartLeadTime = restartLeadTime;
+    this.poller = new Poller(this.logger, this.interval, () => this.check());
+
+    this.start = this.start.bind(this);
+    this.stop = this.stop.bind(this);
+    this.addServer = this.addServer.bind(this);
+    this.removeServer = this.removeServer.bind(this);
+    this.health = this.health.bind(this);
+    this.check = this.check.bind(this);
+    this.checkServer = this.checkServer.bind(this);
+    this.resolveHealth = this.resolveHealth.bind(this);
+    this.compare = this.compare.bind(this);
+    this.checkRestart = this.checkRestart.bind(this);
+  }
+
+  /**
+   * @returns Whether the monitor is currently running.
+   */
+  public get running(): boolean {
+    return this.poller.running;
+  }
+
+  /**
+   * Starts checking the health of the servers, the first check is performed immediately.
+   */
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.poller.start();
+    this.logger.debug(`Monitoring ${this.serverApiIds.size} server(s) every ${this.interval}ms`);
+  }
+
+  /**
+   * Stops checking the health of the servers, the last known health is kept.
+   */
+  public stop(): void {
+    this.poller.stop();
+    this.logger.debug('Stopped monitoring servers');
+  }
+
+  /**
+   * Starts monitoring an additional server, from the next check onwards.
+   * @param serverApiId The server API ID of the server to monitor.
+   */
+  public addServer(serverApiId: string): void {
+    this.serverApiIds.add(serverApiId);
+  }
+
+  /**
+   * Stops monitoring a server, and forgets it's last known health.
+   * @param serverApiId The server API ID of the server to stop monitoring.
+   */
+  public removeServer(serverApiId: string): void {
+    this.serverApiIds.delete(serverApiId);
+    this.healthByServer.delete(serverApiId);
+    this.announcedRestarts.delete(serverApiId);
+  }
+
+  /**
+   * @param serverApiId The server API ID of the server to resolve the health for.
+   * @returns The last known health of a server, or `null` if it hasn't been checked successfully yet.
+   */
+  public health(serverApiId: string): ServerHealth | null {
+    return this.healthByServer.get(serverApiId) ?? null;
+  }
+
+  /**
+   * Checks the health of all monitored servers once, and emits events for any transitions.
+   * Errors are emitted as `checkError` events, this method only throws if a `checkError` listener throws.
+   */
+  public async check(): Promise<void> {
+    await Promise.all(Array.from(this.serverApiIds).map((serverApiId) => this.checkServer(serverApiId)));
+  }
+
+  /**
+   * Checks the health of a single server, and emits events for any transitions.
+   * @param serverApiId The server API ID of the server to check.
+   */
+  private async checkServer(serverApiId: string): Promise<void> {
+    let health: ServerHealth;
+
+    try {
+      health = await this.resolveHealth(serverApiId);
+    } catch (error) {
+      this.logger.warn(`Failed to check health for server ${serverApiId}`, error);
+      this.emit('checkError', { serverApiId, error });
+      return;
+    }
+
+    // The server may have been removed while the requests were in-flight
+    if (!this.serverApiIds.has(serverApiId)) {
+      return;
+    }
+
+    const previous = this.healthByServer.get(serverApiId);
+
+    this.healthByServer.set(serverApiId, health);
+
+    try {
+      if (previous) {
+        this.compare(health, previous);
+      }
+
+      this.checkRestart(health);
+    } catch (error) {
+      this.logger.error(`A listener threw while emitting transitions for server ${serverApiId}`, error);
+      this.emit('checkError', { serverApiId, error });
+    }
+  }
+
+  /**
+   * Resolves the current health of a server.
+   * @param serverApiId The server API ID of the server to resolve the health for.
+   * @returns The current health of the server.
+   */
+  private async resolveHealth(serverApiId: string): Promise<ServerHealth> {
+    const serverInfo = await this.client.serverInfo(serverApiId);
+    const gameserverId = serverInfo.gameserver.gameserverId;
+    const gameServer = await this.client.gameServerDetails(gameserverId);
+    const nextRestart = serverInfo.gameserver.runtime.restartSchedule?.next?.utc;
+
+    return {
+      serverApiId,
+      gameserverId,
+      online: gameServer.online,
+      workerState: serverInfo.worker.state,
+      gameIntegrationStatus: serverInfo.gameserver.gameIntegration.status,
+      queryError: gameServer.object.error,
+      nextRestart: nextRestart ? new Date(nextRestart) : null,
+      checkedAt: new Date(),
+    };
+  }
+
+  /**
+   * Compares the health of two checks, and emits events for any transitions.
+   * @param health The health of the current check.
+   * @param previous The health of the previous check.
+   */
+  private compare(health: ServerHealth, previous: ServerHealth): void {
+    const event = { serverApiId: health.serverApiId, health, previous };
+
+    if (health.online !== previous.online) {
+      this.emit(health.online ? 'serverOnline' : 'serverOffline', event);
+    }
+
+    if (health.gameIntegrationStatus !== previous.gameIntegrationStatus) {
+      this.emit(health.gameIntegrationStatus ? 'gameLabsConnected' : 'gameLabsDisconnected', event);
+    }
+
+    if (health.workerState !== previous.workerState) {
+      this.emit('workerStateChanged', event);
+    }
+
+    if (health.queryError !== GameServerQueryError.NONE && health.queryError !== previous.queryError) {
+      this.emit('queryError', event);
+    }
+  }
+
+  /**
+   * Emits `restartImminent` when the scheduled restart of a server is within the
+   * lead time, and hasn't been announced yet.
+   * @param health The health of the current check.
+   */
+  private checkRestart(health: ServerHealth): void {
+    if (!health.nextRestart) {
+      return;
+    }
+
+    const restartAt = health.nextRestart.getTime();
+    const restartIn = restartAt - Date.now();
+
+    if (restartIn > 0 && restartIn <= this.restartLeadTime
+      && this.announcedRestarts.get(health.serverApiId) !== restartAt) {
+      this.announcedRestarts.set(health.serverApiId, restartAt);
+      this.emit('restartImminent', {
+        serverApiId: health.serverApiId,
+        health,
+        restartAt: health.nextRestart,
+        restartIn,
+      });
+    }
+  }
+}
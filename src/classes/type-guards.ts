@@ -3,6 +3,12 @@ import {
   HTTPRequestError,
   InvalidOptionError,
   InvalidServerIdError,
+  InvalidPlayerIdError,
+  UnresolvedVanityUrlError,
+  RenewalFailedError,
+  GameLabsActionError,
+  UnknownGameLabsActionError,
+  InvalidGameLabsParameterError,
   LibraryParsingError,
   MaxLengthExceededError,
   MissingServerApiIdError,
@@ -32,6 +38,24 @@ export const isMissingServerApiIdError = (err: unknown): err is MissingServerApi
 export const isInvalidServerIdError = (err: unknown): err is InvalidServerIdError =>
   err instanceof InvalidServerIdError;
 
+export const isInvalidPlayerIdError = (err: unknown): err is InvalidPlayerIdError =>
+  err instanceof InvalidPlayerIdError;
+
+export const isUnresolvedVanityUrlError = (err: unknown): err is UnresolvedVanityUrlError =>
+  err instanceof UnresolvedVanityUrlError;
+
+export const isRenewalFailedError = (err: unknown): err is RenewalFailedError =>
+  err instanceof RenewalFailedError;
+
+export const isGameLabsActionError = (err: unknown): err is GameLabsActionError =>
+  err instanceof GameLabsActionError;
+
+export const isUnknownGameLabsActionError = (err: unknown): err is UnknownGameLabsActionError =>
+  err instanceof UnknownGameLabsActionError;
+
+export const isInvalidGameLabsParameterError = (err: unknown): err is InvalidGameLabsParameterError =>
+  err instanceof InvalidGameLabsParameterError;
+
 export const isLibraryParsingError = (err: unknown): err is LibraryParsingError =>
   err instanceof LibraryParsingError;
 
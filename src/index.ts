@@ -2,19 +2,40 @@ export * from './classes/auth';
 export * from './classes/cache';
 export * from './classes/client';
 export * from './classes/errors';
+export * from './classes/expiration-scheduler';
+export * from './classes/handles';
 export * from './classes/logger';
+export * from './classes/player-list-watcher';
+export * from './classes/poller';
+export * from './classes/rate-limiter';
 export * from './classes/requests';
+export * from './classes/server-health-monitor';
 export * from './classes/type-guards';
 
+export * from './resolvers/bulk';
+export * from './resolvers/game-labs';
+export * from './resolvers/import-export';
 export * from './resolvers/library';
+export * from './resolvers/links';
+export * from './resolvers/listing';
 export * from './resolvers/player-ids';
+export * from './resolvers/profile';
 export * from './resolvers/server-id';
 export * from './resolvers/transformers';
 
 export * from './types/responses';
 export * from './types/auth';
+export * from './types/bulk';
+export * from './types/events';
+export * from './types/game-labs-actions';
 export * from './types/general';
+export * from './types/handles';
+export * from './types/import-export';
+export * from './types/listing';
 export * from './types/logger';
+export * from './types/profile';
+export * from './types/reconcile';
+export * from './types/renewal';
 export * from './types/requests';
 
 export * from './constants';
\ No newline at end of file
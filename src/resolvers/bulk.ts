@@ -0,0 +1,59 @@
+import { isDuplicateEntryError, isNotFoundError } from '../classes/type-guards';
+import type { BulkItemResult, BulkItemStatus, BulkOperationReport } from '../types/bulk';
+
+/**
+ * The default maximum number of items that are processed concurrently in bulk operations.
+ */
+export const defaultBulkConcurrency = 5;
+
+/**
+ * Resolves the status of a failed item in a bulk operation.
+ * @param error The error the item failed with
+ * @returns The status of the item
+ */
+export const resolveBulkItemStatus = (error: unknown): Exclude<BulkItemStatus, 'success'> => {
+  if (isDuplicateEntryError(error)) {
+    return 'duplicate';
+  }
+  if (isNotFoundError(error)) {
+    return 'not-found';
+  }
+  return 'error';
+};
+
+/**
+ * Performs an operation for every item with bounded concurrency. Failures are
+ * reported per item, instead of failing the whole batch on the first rejection.
+ * @param items The items to perform the operation for
+ * @param operation The operation to perform for every item
+ * @param concurrency The maximum number of items that are processed concurrently
+ * @returns The report of the bulk operation, results are in the same order as the items
+ */
+export const runBulkOperation = async <I, T>(
+  items: I[],
+  operation: (item: I) => Promise<T>,
+  concurrency = defaultBulkConcurrency,
+): Promise<BulkOperationReport<I, T>> => {
+  const results: BulkItemResult<I, T>[] = new Array(items.length);
+  const counts: Record<BulkItemStatus, number> = { success: 0, duplicate: 0, 'not-found': 0, error: 0 };
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      const item = items[index];
+
+      try {
+        results[index] = { item, status: 'success', value: await operation(item) };
+      } catch (error) {
+        results[index] = { item, status: resolveBulkItemStatus(error), error };
+      }
+
+      counts[results[index].status]++;
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+
+  return { results, counts };
+};
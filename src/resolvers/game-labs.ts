@@ -0,0 +1,298 @@
+import { GameLabsActionError, InvalidGameLabsParameterError, UnknownGameLabsActionError } from '../classes/errors';
+import { GameLabsActionCode } from '../types/general';
+
+import type { GameLabsActionWrappers, GenerateGameLabsActionTypesOptions } from '../types/game-labs-actions';
+import type {
+  BuildGameLabsActionOptions,
+  ClientGameLabsActionsResponse,
+  GameLabsActionContext,
+  GameLabsActionParameter,
+  GameLabsParameterValue,
+  PostGameLabsActionOptions,
+} from '../types/responses';
+
+type GameLabsActionSchema = ClientGameLabsActionsResponse[number];
+type SerializedGameLabsParameter = NonNullable<PostGameLabsActionOptions['parameters']>[string];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+const GENERATED_PARAMETER_TYPES: Record<string, string> = {
+  vector: 'GameLabsVector',
+  float: 'number',
+  int: 'number',
+  boolean: 'boolean',
+};
+
+/**
+ * Resolves the value of a parameter that wasn't supplied, from the default value declared by the action.
+ * @param parameter The parameter as declared by the action
+ * @returns The default value of the parameter
+ */
+const defaultParameterValue = (parameter: GameLabsActionParameter): GameLabsParameterValue => {
+  switch (parameter.dataType ?? parameter.type) {
+  case 'vector':
+    return [parameter.valueVectorX ?? 0, parameter.valueVectorY ?? 0, parameter.valueVectorZ ?? 0];
+  case 'float':
+    return parameter.valueFloat ?? 0;
+  case 'int':
+    return parameter.valueInt ?? 0;
+  case 'boolean':
+    // The API declares boolean defaults as 0 or 1
+    return Boolean(parameter.valueBoolean);
+  default:
+    return parameter.valueString ?? '';
+  }
+};
+
+/**
+ * Finds a GameLabs action in the actions available on a server.
+ * @param actions The actions available on the server, see `gameLabsActions`
+ * @param actionCode The code of the action to find
+ * @param actionContext The context the action is expected to be performed in
+ * @returns The action, as declared by the server
+ * @throws {UnknownGameLabsActionError} Thrown if the action is not available on the server.
+ * @throws {GameLabsActionError} Thrown if the action is declared for another context.
+ */
+export const resolveGameLabsAction = (
+  actions: ClientGameLabsActionsResponse,
+  actionCode: string,
+  actionContext?: GameLabsActionContext,
+): GameLabsActionSchema => {
+  const action = actions.find((available) => available.actionCode === actionCode);
+
+  if (!action) {
+    throw new UnknownGameLabsActionError(actionCode);
+  }
+
+  if (actionContext && action.actionContext !== actionContext) {
+    throw new GameLabsActionError(
+      actionCode,
+      `GameLabs action ${actionCode} is a ${action.actionContext} action, it can't be performed on a ${actionContext}`,
+    );
+  }
+
+  return action;
+};
+
+/**
+ * Validates a parameter value against the type declared by the action, and
+ * serializes it to the format expected by the API.
+ * @param actionCode The code of the action the parameter belongs to
+ * @param name The name of the parameter
+ * @param parameter The parameter as declared by the action
+ * @param value The supplied value, the default value is used if omitted
+ * @returns The serialized parameter
+ * @throws {InvalidGameLabsParameterError} Thrown if the value doesn't match the parameter type.
+ */
+export const serializeGameLabsParameter = (
+  actionCode: string,
+  name: string,
+  parameter: GameLabsActionParameter,
+  value?: GameLabsParameterValue,
+): SerializedGameLabsParameter => {
+  const dataType = parameter.dataType ?? parameter.type;
+  const resolvedValue = value ?? defaultParameterValue(parameter);
+  const invalid = (expected: string) => new InvalidGameLabsParameterError(
+    actionCode,
+    name,
+    `Parameter "${name}" of GameLabs action ${actionCode} expects ${expected}, received: ${JSON.stringify(value)}`,
+  );
+
+  switch (dataType) {
+  case 'vector':
+    if (!Array.isArray(resolvedValue) || resolvedValue.length !== 3 || !resolvedValue.every(isFiniteNumber)) {
+      throw invalid('a vector of three numbers');
+    }
+
+    return {
+      dataType,
+      valueVectorX: resolvedValue[0],
+      valueVectorY: resolvedValue[1],
+      valueVectorZ: resolvedValue[2],
+    };
+  case 'float':
+    if (!isFiniteNumber(resolvedValue)) {
+      throw invalid('a number');
+    }
+
+    return { dataType, valueFloat: resolvedValue };
+  case 'int':
+    if (!Number.isSafeInteger(resolvedValue)) {
+      throw invalid('an integer');
+    }
+
+    return { dataType, valueInt: resolvedValue as number };
+  case 'boolean':
+    if (typeof resolvedValue !== 'boolean') {
+      throw invalid('a boolean');
+    }
+
+    return { dataType, valueBool: resolvedValue };
+  default:
+    if (typeof resolvedValue !== 'string') {
+      throw invalid('a string');
+    }
+
+    return { dataType, valueString: resolvedValue };
+  }
+};
+
+/**
+ * Builds the request body of a GameLabs action from the action declared by
+ * the server, validating the reference key and parameters.
+ * @param action The action, as declared by the server
+ * @param options The reference key and parameter values to perform the action with
+ * @returns The action, ready to be posted through `postGameLabsAction` or `batchPostGameLabsAction`
+ * @throws {GameLabsActionError} Thrown if the reference key is missing, or supplied for a `world` action.
+ * @throws {InvalidGameLabsParameterError} Thrown if a parameter is unknown, or has an invalid value.
+ */
+export const buildGameLabsAction = (
+  action: GameLabsActionSchema,
+  options: Pick<BuildGameLabsActionOptions, 'referenceKey' | 'parameters'> = {},
+): Omit<PostGameLabsActionOptions, 'serverApiId'> => {
+  const { actionCode } = action;
+  const actionContext = action.actionContext as GameLabsActionContext;
+  const declared = action.parameters ?? {};
+  const supplied = options.parameters ?? {};
+
+  if (actionContext === 'world' && options.referenceKey) {
+    throw new GameLabsActionError(actionCode, `GameLabs action ${actionCode} is a world action, it has no target`);
+  }
+
+  if (actionContext !== 'world' && !options.referenceKey) {
+    throw new GameLabsActionError(
+      actionCode,
+      `GameLabs action ${actionCode} is a ${actionContext} action, it requires a target`,
+    );
+  }
+
+  for (const name of Object.keys(supplied)) {
+    if (!(name in declared)) {
+      throw new InvalidGameLabsParameterError(
+        actionCode,
+        name,
+        `Unknown parameter "${name}" for GameLabs action ${actionCode}, expected one of: ${
+          Object.keys(declared).join(', ') || 'none'
+        }`,
+      );
+    }
+  }
+
+  return {
+    actionCode,
+    actionContext,
+    referenceKey: options.referenceKey ?? null,
+    parameters: Object.fromEntries(Object.entries(declared).map(([ name, parameter ]) => [
+      name,
+      serializeGameLabsParameter(actionCode, name, parameter, supplied[name]),
+    ])),
+  };
+};
+
+/**
+ * Creates the typed wrappers for GameLabs actions, see `client.actions`. Every
+ * property is a function that performs the action with the same name.
+ * @param perform The function that performs the action, see `performGameLabsAction`
+ * @returns The typed wrappers, for every action in `GameLabsActionMap`
+ */
+export const createGameLabsActionWrappers = (
+  perform: (options: BuildGameLabsActionOptions) => Promise<void>,
+): GameLabsActionWrappers => new Proxy({} as GameLabsActionWrappers, {
+  get: (_target, actionCode) => {
+    // Don't resolve to a thenable, the wrappers would be awaited when returned from async functions
+    if (typeof actionCode !== 'string' || actionCode === 'then') {
+      return undefined;
+    }
+
+    return (
+      options: Pick<BuildGameLabsActionOptions, 'serverApiId' | 'target' | 'referenceKey'> & {
+        [key: string]: unknown;
+      } = {},
+    ) => {
+      const { serverApiId, target, referenceKey, ...parameters } = options;
+
+      return perform({
+        serverApiId,
+        actionCode,
+        target,
+        referenceKey,
+        parameters: parameters as BuildGameLabsActionOptions['parameters'],
+      });
+    };
+  },
+});
+
+/**
+ * Generates TypeScript types for the GameLabs actions on a server, so they can
+ * be performed through `client.actions` with autocomplete and compile-time checks.
+ * The generated source augments `GameLabsActionMap`, and (optionally) exports a
+ * wrapper function for every action.
+ * @param actions The actions to generate types for, see `gameLabsActions` or `data/game-labs-actions.json`
+ * @param options The options to generate the types with
+ * @returns The generated TypeScript source
+ */
+export const generateGameLabsActionTypes = (
+  actions: ClientGameLabsActionsResponse,
+  options: GenerateGameLabsActionTypesOptions = {},
+): string => {
+  const { moduleName = '@md-oss/cftools.js', includeBuiltIn = false, wrappers = true } = options;
+  const builtIn: string[] = Object.values(GameLabsActionCode);
+  const generated = actions.filter((action) => includeBuiltIn || !builtIn.includes(action.actionCode));
+  const propertyName = (name: string) => IDENTIFIER_PATTERN.test(name) ? name : `'${name.replace(/[\\']/g, '\\$&')}'`;
+  const docComment = (text: string) => `/** ${text.replace(/\s+/g, ' ').replace(/\*\//g, '*\\/').trim()} */`;
+  const parameterType = (parameter: GameLabsActionParameter) =>
+    GENERATED_PARAMETER_TYPES[parameter.dataType ?? parameter.type] ?? 'string';
+
+  const entries = generated.flatMap((action) => {
+    const parameters = Object.entries(action.parameters ?? {});
+
+    return [
+      `    ${docComment(action.actionName)}`,
+      `    ${propertyName(action.actionCode)}: {`,
+      `      context: '${action.actionContext}';`,
+      ...(parameters.length === 0 ? [ '      parameters: Record<never, never>;' ] : [
+        '      parameters: {',
+        ...parameters.flatMap(([ name, parameter ]) => [
+          `        ${docComment([ parameter.displayName, parameter.description ].filter(Boolean).join(' - '))}`,
+          `        ${propertyName(name)}?: ${parameterType(parameter)};`,
+        ]),
+        '      };',
+      ]),
+      '    };',
+    ];
+  });
+
+  const functions = !wrappers ? [] : generated.flatMap((action) => {
+    const key = propertyName(action.actionCode);
+    const wrapperName = action.actionCode.replace(/[^\w$]/g, '_').replace(/^(?=\d)/, '_');
+
+    return [
+      '',
+      docComment(action.actionName),
+      `export const ${wrapperName} = (`,
+      '  client: CFToolsClient,',
+      `  ...args: Parameters<GameLabsActionWrappers[${key === action.actionCode ? `'${key}'` : key}]>`,
+      `): Promise<void> => client.actions${key === action.actionCode ? `.${key}` : `[${key}]`}(...args);`,
+    ];
+  });
+
+  const imports = [
+    ...(functions.length > 0 ? [ 'CFToolsClient', 'GameLabsActionWrappers' ] : []),
+    ...(entries.some((line) => line.includes('GameLabsVector')) ? [ 'GameLabsVector' ] : []),
+  ];
+
+  return [
+    '// Generated by `generateGameLabsActionTypes`, changes will be lost when the types are generated again',
+    imports.length > 0 ? `import type { ${imports.join(', ')} } from '${moduleName}';` : 'export {};',
+    '',
+    `declare module '${moduleName}' {`,
+    '  interface GameLabsActionMap {',
+    ...entries,
+    '  }',
+    '}',
+    ...functions,
+    '',
+  ].join('\n');
+};
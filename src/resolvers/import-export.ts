@@ -0,0 +1,308 @@
+import { isIPv4 } from 'net';
+
+import { getPlayerIdType } from './player-ids';
+import type {
+  BanTransferRow,
+  ParsedTransferRows,
+  PlayerListTransferRow,
+  TransferFormat,
+  TransferRowError,
+} from '../types/import-export';
+import type {
+  ClientListBansResponse,
+  ClientPriorityQueueResponse,
+  ClientWhitelistResponse,
+} from '../types/responses';
+
+/**
+ * The columns of exported bans, in order.
+ */
+export const banTransferColumns = ['identifier', 'reason', 'expiresAt', 'status'] as const;
+/**
+ * The columns of exported whitelist and priority queue entries, in order.
+ */
+export const playerListTransferColumns = ['playerId', 'comment', 'expiresAt'] as const;
+
+const banStatuses = ['Ban.ACTIVE', 'Ban.INACTIVE', 'Ban.EXPIRED'];
+
+/**
+ * Escapes a value for use in a CSV field, quoting it when needed.
+ * @param value The value to escape
+ * @returns The escaped value
+ */
+const escapeCSVField = (value: string): string => /[",\r\n]/.test(value)
+  ? `"${value.replace(/"/g, '""')}"`
+  : value;
+
+/**
+ * Serializes rows to CSV, with a header row.
+ * @param columns The columns to serialize, in order
+ * @param rows The rows to serialize
+ * @returns The CSV string
+ */
+export const toCSV = (columns: readonly string[], rows: Record<string, unknown>[]): string => [
+  columns.map(escapeCSVField).join(','),
+  ...rows.map((row) => columns.map((column) => {
+    const value = row[column];
+    if (value === null || value === undefined) {
+      return '';
+    }
+    return escapeCSVField(value instanceof Date ? value.toISOString() : String(value));
+  }).join(',')),
+].join('\n') + '\n';
+
+/**
+ * Parses a CSV string (RFC 4180) with a header row into objects keyed by the header.
+ * @param input The CSV string to parse
+ * @returns The parsed rows
+ */
+export const fromCSV = (input: string): Record<string, string>[] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      }
+      else if (char === '"') {
+        quoted = false;
+      }
+      else {
+        field += char;
+      }
+    }
+    else if (char === '"') {
+      quoted = true;
+    }
+    else if (char === ',') {
+      record.push(field);
+      field = '';
+    }
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') {
+        index++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    }
+    else {
+      field += char;
+    }
+  }
+
+  if (field.length || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header = [], ...rows] = records.filter((entry) => entry.some((value) => value.length));
+
+  return rows.map((row) => Object.fromEntries(header.map((column, index) => [column.trim(), row[index] ?? ''])));
+};
+
+/**
+ * Serializes rows to the provided format.
+ * @param columns The columns to serialize, in order
+ * @param rows The rows to serialize
+ * @param format The format to serialize to
+ * @returns The serialized rows
+ */
+const serializeRows = (
+  columns: readonly string[],
+  rows: Record<string, unknown>[],
+  format: TransferFormat,
+): string => format === 'csv'
+  ? toCSV(columns, rows)
+  : JSON.stringify(rows, null, 2);
+
+/**
+ * Parses serialized rows in the provided format.
+ * @param input The serialized rows
+ * @param format The format of the serialized rows
+ * @returns The parsed (raw) rows
+ * @throws {SyntaxError} Thrown if the input isn't valid JSON, or not an array of rows.
+ */
+const parseRows = (input: string, format: TransferFormat): Record<string, unknown>[] => {
+  if (format === 'csv') {
+    return fromCSV(input);
+  }
+
+  const parsed: unknown = JSON.parse(input);
+
+  if (!Array.isArray(parsed) || parsed.some((row) => typeof row !== 'object' || row === null)) {
+    throw new SyntaxError('Expected a JSON array of rows');
+  }
+
+  return parsed as Record<string, unknown>[];
+};
+
+/**
+ * Resolves the expiration date of a row, empty values are permanent.
+ * @param value The raw expiration value
+ * @returns The expiration date, `null` for permanent entries, or `undefined` if invalid
+ */
+const parseExpiration = (value: unknown): Date | null | undefined => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const date = new Date(String(value));
+
+  return typeof value !== 'boolean' && !isNaN(date.getTime()) ? date : undefined;
+};
+
+/**
+ * Validates and transforms raw rows, collecting errors for the invalid rows.
+ * @param rows The raw rows
+ * @param validate Transforms a raw row, or returns an error message if it's invalid
+ * @returns The valid rows and the errors for invalid rows
+ */
+const validateRows = <R>(
+  rows: Record<string, unknown>[],
+  validate: (row: Record<string, unknown>) => R | string,
+): ParsedTransferRows<R> => {
+  const validRows: R[] = [];
+  const errors: TransferRowError[] = [];
+
+  rows.forEach((row, index) => {
+    const result = validate(row);
+
+    if (typeof result === 'string') {
+      errors.push({ index, row, message: result });
+    }
+    else {
+      validRows.push(result);
+    }
+  });
+
+  return { rows: validRows, errors };
+};
+
+/**
+ * Serializes bans to CSV or JSON, preserving the reason, expiration and status.
+ * @param bans The bans to serialize, as returned by `listBans`
+ * @param format The format to serialize to
+ * @returns The serialized bans
+ */
+export const serializeBans = (bans: ClientListBansResponse, format: TransferFormat): string => serializeRows(
+  banTransferColumns,
+  bans.map((ban): BanTransferRow => ({
+    identifier: ban.identifier,
+    reason: ban.reason,
+    expiresAt: ban.expiresAt,
+    status: ban.status,
+  })),
+  format,
+);
+
+/**
+ * Serializes whitelist entries to CSV or JSON, preserving the comment and expiration.
+ * @param entries The entries to serialize, as returned by `getWhitelist`
+ * @param format The format to serialize to
+ * @returns The serialized entries
+ */
+export const serializeWhitelist = (entries: ClientWhitelistResponse, format: TransferFormat): string => serializeRows(
+  playerListTransferColumns,
+  entries.map((entry): PlayerListTransferRow => ({
+    playerId: entry.user.cftoolsId,
+    comment: entry.meta.comment,
+    expiresAt: entry.meta.expiration,
+  })),
+  format,
+);
+
+/**
+ * Serializes priority queue entries to CSV or JSON, preserving the comment and expiration.
+ * @param entries The entries to serialize, as returned by `getPriorityQueue`
+ * @param format The format to serialize to
+ * @returns The serialized entries
+ */
+export const serializePriorityQueue = (
+  entries: ClientPriorityQueueResponse,
+  format: TransferFormat,
+): string => serializeRows(
+  playerListTransferColumns,
+  entries.map((entry): PlayerListTransferRow => ({
+    playerId: entry.user.cftoolsId,
+    comment: entry.meta.comment,
+    expiresAt: entry.meta.expiration,
+  })),
+  format,
+);
+
+/**
+ * Parses and validates exported bans. Identifiers have to be a CFTools ID,
+ * Steam64 ID or IPv4 address, and reasons can't exceed 128 characters.
+ * @param input The exported bans
+ * @param format The format of the exported bans
+ * @returns The valid bans, and errors for the invalid rows
+ * @throws {SyntaxError} Thrown if the input isn't valid JSON, or not an array of rows.
+ */
+export const parseBans = (input: string, format: TransferFormat): ParsedTransferRows<BanTransferRow> => validateRows(
+  parseRows(input, format),
+  (row) => {
+    const identifier = String(row.identifier ?? '').trim();
+    const reason = String(row.reason ?? '').trim();
+    const expiresAt = parseExpiration(row.expiresAt);
+    const status = row.status ? String(row.status) : undefined;
+    const idType = getPlayerIdType(identifier);
+
+    if (!isIPv4(identifier) && idType !== 'cftoolsid' && idType !== 'steam64') {
+      return `Invalid identifier "${identifier}", expected a CFTools ID, Steam64 ID or IPv4 address`;
+    }
+    if (!reason.length) {
+      return 'Missing ban reason';
+    }
+    if (reason.length > 128) {
+      return 'Ban reason exceeds 128 characters';
+    }
+    if (expiresAt === undefined) {
+      return `Invalid expiration date "${String(row.expiresAt)}"`;
+    }
+    if (status !== undefined && !banStatuses.includes(status)) {
+      return `Invalid ban status "${status}"`;
+    }
+
+    return { identifier, reason, expiresAt, status: status as BanTransferRow['status'] };
+  },
+);
+
+/**
+ * Parses and validates exported whitelist or priority queue entries. Player IDs
+ * have to be a valid player ID (see `getPlayerIdType`), and comments are required.
+ * @param input The exported entries
+ * @param format The format of the exported entries
+ * @returns The valid entries, and errors for the invalid rows
+ * @throws {SyntaxError} Thrown if the input isn't valid JSON, or not an array of rows.
+ */
+export const parsePlayerListEntries = (
+  input: string,
+  format: TransferFormat,
+): ParsedTransferRows<PlayerListTransferRow> => validateRows(
+  parseRows(input, format),
+  (row) => {
+    const playerId = String(row.playerId ?? '').trim();
+    const comment = String(row.comment ?? '').trim();
+    const expiresAt = parseExpiration(row.expiresAt);
+
+    if (getPlayerIdType(playerId) === null) {
+      return `Invalid player ID "${playerId}"`;
+    }
+    if (!comment.length) {
+      return 'Missing comment';
+    }
+    if (expiresAt === undefined) {
+      return `Invalid expiration date "${String(row.expiresAt)}"`;
+    }
+
+    return { playerId, comment, expiresAt };
+  },
+);
@@ -0,0 +1,59 @@
+import { CFTOOLS_BASE_URL } from '../constants';
+import { CFToolsId, Steam64Id } from './player-ids';
+import type { ClientPlayerSession } from '../types/responses';
+
+/** The base URL of Steam community profiles. */
+export const STEAM_PROFILE_BASE_URL = 'https://steamcommunity.com/profiles';
+
+/**
+ * Resolves the CFTools profile URL of a player, the inverse of `parseCFToolsProfileUrl`.
+ * @param player The session of the player, or their CFTools ID.
+ * @returns The CFTools profile URL of the player.
+ * @throws {InvalidPlayerIdError} Thrown if the provided string is not a valid CFTools ID.
+ */
+export const cftoolsProfileUrl = (player: ClientPlayerSession | CFToolsId | string): string => {
+  const cftoolsId = typeof player === 'string'
+    ? new CFToolsId(player).getRawId()
+    : player instanceof CFToolsId ? player.getRawId() : player.cftoolsId;
+
+  return `${CFTOOLS_BASE_URL}/profile/${cftoolsId}`;
+};
+
+/**
+ * Resolves the Steam community profile URL of a player, the inverse of `parseSteamProfileUrl`.
+ * @param player The session of the player, or their Steam64 ID.
+ * @returns The Steam community profile URL of the player.
+ * @throws {InvalidPlayerIdError} Thrown if the provided string is not a valid Steam64 ID.
+ */
+export const steamProfileUrl = (player: ClientPlayerSession | Steam64Id | string): string => {
+  const steam64 = typeof player === 'string'
+    ? new Steam64Id(player).getRawId()
+    : player instanceof Steam64Id ? player.getRawId() : player.gamedata.steam64;
+
+  return `${STEAM_PROFILE_BASE_URL}/${steam64}`;
+};
+
+/**
+ * Resolves the URL of a player session in the CFTools server dashboard.
+ * @param serverApiId The server API ID of the server the session belongs to.
+ * @param session The session, or it's ID.
+ * @returns The URL of the session in the CFTools server dashboard.
+ */
+export const sessionUrl = (serverApiId: string, session: ClientPlayerSession | string): string => {
+  const sessionId = typeof session === 'string' ? session : session.id;
+
+  return `${CFTOOLS_BASE_URL}/dashboard/${serverApiId}/players/${sessionId}`;
+};
+
+/**
+ * Resolves all links for a player session, see {@link cftoolsProfileUrl},
+ * {@link steamProfileUrl} and {@link sessionUrl}.
+ * @param serverApiId The server API ID of the server the session belongs to.
+ * @param session The session of the player.
+ * @returns The CFTools profile, Steam profile and session URLs of the player.
+ */
+export const playerSessionLinks = (serverApiId: string, session: ClientPlayerSession) => ({
+  cftoolsProfile: cftoolsProfileUrl(session),
+  steamProfile: steamProfileUrl(session),
+  session: sessionUrl(serverApiId, session),
+});
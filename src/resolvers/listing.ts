@@ -0,0 +1,45 @@
+import type { BanFilter, EntryFilter, ExpiryWindow } from '../types/listing';
+import type { ClientListBansResponse } from '../types/responses';
+import type { ReconciledEntry } from '../types/reconcile';
+
+/**
+ * Checks whether an expiration date falls within an expiry window.
+ * @param expiresAt The expiration date, `null` for permanent entries
+ * @param window The window the expiration date has to fall in
+ * @returns Whether the expiration date falls within the window
+ */
+export const matchesExpiryWindow = (expiresAt: Date | null, window: ExpiryWindow = {}): boolean => {
+  if (window.before && (!expiresAt || expiresAt.getTime() >= window.before.getTime())) {
+    return false;
+  }
+
+  return !window.after || !expiresAt || expiresAt.getTime() > window.after.getTime();
+};
+
+/**
+ * Checks whether a ban matches the provided filter. The reason pattern is
+ * matched through `String#search`, so the `lastIndex` of global patterns is ignored.
+ * @param ban The ban to check
+ * @param filter The filter to check the ban against
+ * @returns Whether the ban matches the filter
+ */
+export const matchesBanFilter = (ban: ClientListBansResponse[number], filter: BanFilter): boolean => {
+  const statuses = typeof filter.status === 'string' ? [filter.status] : filter.status;
+
+  return (!statuses || statuses.includes(ban.status))
+    && matchesExpiryWindow(ban.expiresAt, filter.expires)
+    && (!filter.reason || ban.reason.search(filter.reason) !== -1);
+};
+
+/**
+ * Checks whether a whitelist or priority queue entry matches the provided filter.
+ * Like `matchesBanFilter`, the `lastIndex` of global comment patterns is ignored.
+ * @param entry The entry to check
+ * @param filter The filter to check the entry against
+ * @returns Whether the entry matches the filter
+ */
+export const matchesEntryFilter = (entry: ReconciledEntry, filter: EntryFilter): boolean => {
+  return (!filter.creator || entry.creator.cftoolsId === filter.creator)
+    && matchesExpiryWindow(entry.meta.expiration, filter.expires)
+    && (!filter.commentPattern || entry.meta.comment.search(filter.commentPattern) !== -1);
+};
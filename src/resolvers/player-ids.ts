@@ -1,5 +1,11 @@
+import { createHash } from 'crypto';
+
+import { CFTOOLS_BASE_URL } from '../constants';
+import { InvalidPlayerIdError, UnresolvedVanityUrlError } from '../classes/errors';
+
 /**
  * Skeleton for player ids, which are used to identify players in different (API) systems.
+ * Player ids are validated when they are created, and can be compared with {@link equals}.
  */
 export abstract class AbstractPlayerId {
   /** The string id of the player. */
@@ -7,35 +13,109 @@ export abstract class AbstractPlayerId {
   /**
    * Creates a new player id instance.
    * @param id The string id of the player.
+   * @throws {InvalidPlayerIdError} Thrown if the id is not valid for this type of player id.
    */
   constructor(id: string) {
+    if (typeof id !== 'string' || !this.isValid(id)) {
+      throw new InvalidPlayerIdError(`${id}`, `Invalid ${new.target.name}: ${id}`);
+    }
     this.id = id;
   }
+  /**
+   * The type of the player id.
+   */
+  public abstract get type(): PlayerIdType;
+  /**
+   * Checks whether a string id is valid for this type of player id.
+   * @param id The id to check.
+   */
+  protected abstract isValid(id: string): boolean;
   /**
    * Returns the raw id of the player.
    */
   public abstract getRawId(): string;
+  /**
+   * Checks whether this player id is equal to another player id, or raw id.
+   * @param other The player id, or raw id, to compare with.
+   * @returns Whether the player ids are of the same type and have the same id.
+   */
+  public equals(other: AbstractPlayerId | string | null | undefined): boolean {
+    if (typeof other === 'string') {
+      return this.getRawId() === other;
+    }
+
+    return other instanceof AbstractPlayerId && this.type === other.type && this.getRawId() === other.getRawId();
+  }
+  /**
+   * @returns The raw id of the player.
+   */
+  public toString(): string {
+    return this.getRawId();
+  }
+  /**
+   * Serializes the player id, see {@link PlayerId.fromJSON} for the inverse.
+   * @returns The serialized player id.
+   */
+  public toJSON(): SerializedPlayerId {
+    return { __playerId: true, type: this.type, id: this.getRawId() };
+  }
 }
 
 export class Steam64Id extends AbstractPlayerId {
+  public get type(): 'steam64' {
+    return 'steam64';
+  }
+  protected isValid(id: string): boolean {
+    return isSteam64(id);
+  }
   public getRawId(): string {
     return this.id;
   }
+  /**
+   * Derives the BattlEye GUID of the player locally, see {@link steam64ToBattlEyeGUID}.
+   */
+  public toBattlEyeGUID(): BattlEyeGUID {
+    return new BattlEyeGUID(steam64ToBattlEyeGUID(this.id));
+  }
+  /**
+   * Derives the Bohemia Interactive UID of the player locally, see {@link steam64ToBohemiaUID}.
+   */
+  public toBohemiaUID(): BohemiaInteractiveUID {
+    return new BohemiaInteractiveUID(steam64ToBohemiaUID(this.id));
+  }
 }
 
 export class BattlEyeGUID extends AbstractPlayerId {
+  public get type(): 'battleyeguid' {
+    return 'battleyeguid';
+  }
+  protected isValid(id: string): boolean {
+    return isBattlEyeGUID(id);
+  }
   public getRawId(): string {
     return this.id;
   }
 }
 
 export class BohemiaInteractiveUID extends AbstractPlayerId {
+  public get type(): 'bohemiainteractiveuid' {
+    return 'bohemiainteractiveuid';
+  }
+  protected isValid(id: string): boolean {
+    return isBohemiaInteractiveUID(id);
+  }
   public getRawId(): string {
     return this.id;
   }
 }
 
 export class CFToolsId extends AbstractPlayerId {
+  public get type(): 'cftoolsid' {
+    return 'cftoolsid';
+  }
+  protected isValid(id: string): boolean {
+    return isCFToolsId(id);
+  }
   public getRawId(): string {
     return this.id;
   }
@@ -45,6 +125,11 @@ export class CFToolsId extends AbstractPlayerId {
 export type AnyPlayerId = Steam64Id | BattlEyeGUID | BohemiaInteractiveUID | CFToolsId;
 /** Supported types of player ids. */
 export type PlayerIdType = 'steam64' | 'cftoolsid' | 'battleyeguid' | 'bohemiainteractiveuid';
+/**
+ * A serialized player id, as it's returned by {@link AbstractPlayerId.toJSON}. The `__playerId`
+ * marker distinguishes it from other (API) objects that happen to have a `type` and `id`.
+ */
+export type SerializedPlayerId = { __playerId: true; type: PlayerIdType; id: string };
 
 /** Type guard for Steam64Id. */
 export const idISteam64Id = (id: AnyPlayerId): id is Steam64Id => id instanceof Steam64Id;
@@ -93,4 +178,277 @@ export const getPlayerIdType = (id: string): PlayerIdType | null => {
   } 
 
   return null;
-};
\ No newline at end of file
+};
+
+/** The Steam64 ID of the first individual account, Steam2 and Steam3 IDs are offsets from it. */
+const steam64Base = BigInt('76561197960265728');
+
+/**
+ * Parses a Steam community profile URL, e.g. `https://steamcommunity.com/profiles/76561198000000000`
+ * or the vanity URL `https://steamcommunity.com/id/<name>`.
+ * @param input The URL to parse, the protocol is optional.
+ * @returns The Steam64 ID or vanity name in the URL, or `null` if it's not a Steam profile URL.
+ */
+export const parseSteamProfileUrl = (input: string): { steam64: string } | { vanityName: string } | null => {
+  const match = /^(?:https?:\/\/)?(?:www\.)?steamcommunity\.com\/(profiles|id)\/([^/?#]+)\/?(?:[?#].*)?$/i
+    .exec(input.trim());
+
+  if (!match) {
+    return null;
+  }
+
+  return match[1].toLowerCase() === 'profiles' ? { steam64: match[2] } : { vanityName: decodeURIComponent(match[2]) };
+};
+
+/**
+ * Parses a CFTools profile URL, e.g. `https://app.cftools.cloud/profile/<cftools_id>`.
+ * @param input The URL to parse, the protocol is optional.
+ * @returns The CFTools ID in the URL, or `null` if it's not a CFTools profile URL.
+ */
+export const parseCFToolsProfileUrl = (input: string): string | null => {
+  const host = CFTOOLS_BASE_URL.replace(/^https?:\/\//, '').replace(/\./g, '\\.');
+  const match = new RegExp(`^(?:https?:\\/\\/)?${host}\\/profile\\/([0-9a-f]{24})(?:[/?#].*)?$`, 'i')
+    .exec(input.trim());
+
+  return match ? match[1].toLowerCase() : null;
+};
+
+/**
+ * Converts a Steam2 (`STEAM_0:1:19867136`) or Steam3 (`[U:1:39734273]`) ID to a Steam64 ID.
+ * @param input The Steam2 or Steam3 ID to convert.
+ * @returns The Steam64 ID, or `null` if the input is not a Steam2 or Steam3 ID.
+ */
+export const steamIdToSteam64 = (input: string): string | null => {
+  const steam2 = /^STEAM_[0-5]:([01]):(\d+)$/i.exec(input.trim());
+
+  if (steam2) {
+    return (steam64Base + BigInt(steam2[2]) * BigInt(2) + BigInt(steam2[1])).toString();
+  }
+
+  const steam3 = /^\[?U:1:(\d+)\]?$/i.exec(input.trim());
+
+  return steam3 ? (steam64Base + BigInt(steam3[1])).toString() : null;
+};
+
+/**
+ * @param value The value to check.
+ * @returns Whether the value is a valid serialized player id, see {@link AbstractPlayerId.toJSON}.
+ */
+export const isSerializedPlayerId = (value: unknown): value is SerializedPlayerId => {
+  if (typeof value !== 'object' || value === null || Object.keys(value).length !== 3) {
+    return false;
+  }
+
+  const { __playerId, type, id } = value as Partial<SerializedPlayerId>;
+
+  return __playerId === true && typeof id === 'string' && typeof type === 'string' && getPlayerIdType(id) === type;
+};
+
+/**
+ * Derives the BattlEye GUID from a Steam64 ID, without any API calls. The GUID
+ * is the MD5 hash of `BE`, followed by the Steam64 ID as a 64-bit little-endian integer.
+ * @param steam64 The Steam64 ID to derive the GUID from.
+ * @returns The BattlEye GUID of the player.
+ */
+export const steam64ToBattlEyeGUID = (steam64: string): string => {
+  const id = Buffer.alloc(8);
+
+  id.writeBigUInt64LE(BigInt(steam64));
+
+  return createHash('md5').update(Buffer.concat([Buffer.from('BE'), id])).digest('hex');
+};
+
+/**
+ * Derives the Bohemia Interactive UID from a Steam64 ID, without any API calls. The UID
+ * is the SHA-256 hash of the Steam64 ID, encoded as (padded) base64url.
+ * @param steam64 The Steam64 ID to derive the UID from.
+ * @returns The Bohemia Interactive UID of the player.
+ */
+export const steam64ToBohemiaUID = (steam64: string): string => createHash('sha256')
+  .update(steam64)
+  .digest('base64')
+  .replace(/\+/g, '-')
+  .replace(/\//g, '_');
+
+/**
+ * An index of BattlEye GUIDs and Bohemia Interactive UIDs back to the Steam64 IDs they
+ * are derived from. The hashes can't be reversed, so only Steam64 IDs that have been
+ * added to the index can be resolved - e.g. the players that have joined your servers.
+ */
+export class PlayerIdIndex {
+  /** The indexed Steam64 IDs, by their BattlEye GUID and Bohemia Interactive UID. */
+  private steam64s: Map<string, string> = new Map();
+
+  /**
+   * @returns The number of indexed Steam64 IDs.
+   */
+  public get size(): number {
+    return this.steam64s.size / 2;
+  }
+
+  /**
+   * Indexes the BattlEye GUID and Bohemia Interactive UID of one or more Steam64 IDs.
+   * @param steam64s The Steam64 IDs to index.
+   * @returns The index, for chaining.
+   */
+  public add(...steam64s: (Steam64Id | string)[]): this {
+    for (const steam64 of steam64s) {
+      const rawId = typeof steam64 === 'string' ? steam64 : steam64.getRawId();
+
+      if (!this.steam64s.has(steam64ToBohemiaUID(rawId))) {
+        this.steam64s.set(steam64ToBattlEyeGUID(rawId), rawId);
+        this.steam64s.set(steam64ToBohemiaUID(rawId), rawId);
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Resolves a BattlEye GUID or Bohemia Interactive UID to the Steam64 ID it was derived from.
+   * @param id The BattlEye GUID or Bohemia Interactive UID to resolve.
+   * @returns The Steam64 ID, or `null` if it hasn't been indexed.
+   */
+  public resolve(id: BattlEyeGUID | BohemiaInteractiveUID | string): Steam64Id | null {
+    const steam64 = this.steam64s.get(typeof id === 'string' ? id : id.getRawId());
+
+    return steam64 ? new Steam64Id(steam64) : null;
+  }
+
+  /**
+   * Removes all indexed Steam64 IDs.
+   */
+  public clear(): void {
+    this.steam64s.clear();
+  }
+}
+
+/**
+ * Factories for player ids, resolving the right {@link AbstractPlayerId} subclass from
+ * user input or serialized player ids.
+ */
+export abstract class PlayerId {
+  /**
+   * Creates a player id of a specific type.
+   * @param type The type of the player id.
+   * @param id The raw id of the player.
+   * @returns The player id.
+   * @throws {InvalidPlayerIdError} Thrown if the id is not valid for the type.
+   */
+  public static create(type: PlayerIdType, id: string): AnyPlayerId {
+    switch (type) {
+    case 'steam64':
+      return new Steam64Id(id);
+    case 'cftoolsid':
+      return new CFToolsId(id);
+    case 'battleyeguid':
+      return new BattlEyeGUID(id);
+    case 'bohemiainteractiveuid':
+      return new BohemiaInteractiveUID(id);
+    default:
+      throw new InvalidPlayerIdError(id, `Unknown player ID type: ${type}`);
+    }
+  }
+
+  /**
+   * Parses user input to a player id. Accepts raw ids of every type (as resolved by
+   * {@link getPlayerIdType}, hexadecimal ids are case-insensitive), Steam and CFTools profile
+   * URLs, Steam2/Steam3 IDs and serialized player ids. Surrounding whitespace is ignored.
+   * @param input The input to parse.
+   * @returns The player id.
+   * @throws {UnresolvedVanityUrlError} Thrown if the input is a Steam vanity URL.
+   * @throws {InvalidPlayerIdError} Thrown if the input is not a valid player id.
+   */
+  public static parse(input: string | AnyPlayerId | SerializedPlayerId): AnyPlayerId {
+    if (input instanceof AbstractPlayerId) {
+      return input;
+    }
+    if (typeof input !== 'string') {
+      return PlayerId.fromJSON(input);
+    }
+
+    const trimmed = input.trim();
+    const steamProfile = parseSteamProfileUrl(trimmed);
+
+    if (steamProfile && 'vanityName' in steamProfile) {
+      throw new UnresolvedVanityUrlError(input, steamProfile.vanityName);
+    }
+
+    const rawId = steamProfile?.steam64 ?? parseCFToolsProfileUrl(trimmed) ?? steamIdToSteam64(trimmed) ?? trimmed;
+    const type = getPlayerIdType(rawId);
+
+    if (type) {
+      return PlayerId.create(type, rawId);
+    }
+
+    const lowerCased = rawId.toLowerCase();
+
+    if (isCFToolsId(lowerCased) || isBattlEyeGUID(lowerCased)) {
+      return PlayerId.create(getPlayerIdType(lowerCased) as PlayerIdType, lowerCased);
+    }
+
+    throw new InvalidPlayerIdError(input, `Unable to parse player ID: ${input}`);
+  }
+
+  /**
+   * Parses user input to a player id, see {@link parse}.
+   * @param input The input to parse.
+   * @returns The player id, or `null` if the input is not a valid player id.
+   */
+  public static tryParse(input: string | AnyPlayerId | SerializedPlayerId): AnyPlayerId | null {
+    try {
+      return PlayerId.parse(input);
+    } catch (error) {
+      if (error instanceof InvalidPlayerIdError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deserializes a player id, the inverse of {@link AbstractPlayerId.toJSON}.
+   * @param json The serialized player id, or it's JSON string.
+   * @returns The player id.
+   * @throws {InvalidPlayerIdError} Thrown if the input is not a valid serialized player id.
+   */
+  public static fromJSON(json: SerializedPlayerId | string): AnyPlayerId {
+    let value: unknown = json;
+
+    if (typeof json === 'string') {
+      try {
+        value = JSON.parse(json);
+      } catch {
+        throw new InvalidPlayerIdError(json, 'Invalid serialized player ID');
+      }
+    }
+
+    if (!isSerializedPlayerId(value)) {
+      throw new InvalidPlayerIdError(JSON.stringify(json), 'Invalid serialized player ID');
+    }
+
+    return PlayerId.create(value.type, value.id);
+  }
+}
+
+/**
+ * Resolves the raw id from a player id, or user input that can be parsed by {@link PlayerId.parse} -
+ * e.g. a Steam or CFTools profile URL. Strings that can't be parsed are returned as-is.
+ * @param input The player id or user input to resolve.
+ * @returns The raw id of the player.
+ * @throws {UnresolvedVanityUrlError} Thrown if the input is a Steam vanity URL.
+ */
+export const resolveRawPlayerId = (input: string | AnyPlayerId): string => {
+  if (typeof input !== 'string') {
+    return input.getRawId();
+  }
+
+  try {
+    return PlayerId.parse(input).getRawId();
+  } catch (error) {
+    if (error instanceof UnresolvedVanityUrlError || !(error instanceof InvalidPlayerIdError)) {
+      throw error;
+    }
+    return input;
+  }
+};
@@ -0,0 +1,100 @@
+import { isNotFoundError } from '../classes/type-guards';
+import { getPlayerIdType, steam64ToBattlEyeGUID, steam64ToBohemiaUID } from './player-ids';
+import type { ClientPlayerStatsResponse } from '../types/responses';
+import type { PlayerIdentities, PlayerProfileSection, PlayerProfileServer } from '../types/profile';
+
+/**
+ * Resolves a section of a player profile, a `NotFoundError` resolves to `null`
+ * and any other error to a rejected section.
+ * @param operation The operation that resolves the section
+ * @returns The settled section
+ */
+export const settleProfileSection = async <T>(
+  operation: () => Promise<T>,
+): Promise<PlayerProfileSection<T | null>> => {
+  try {
+    return { status: 'fulfilled', value: await operation() };
+  } catch (error) {
+    return isNotFoundError(error)
+      ? { status: 'fulfilled', value: null }
+      : { status: 'rejected', error };
+  }
+};
+
+/**
+ * Creates the identities of a player from the ID they were looked up with,
+ * identities that aren't known from the ID are `null`.
+ * @param cftoolsId The CFTools ID of the player
+ * @param playerId The raw ID the player was looked up with
+ * @returns The identities known from the ID
+ */
+export const seedPlayerIdentities = (cftoolsId: string, playerId: string): PlayerIdentities => {
+  const idType = getPlayerIdType(playerId);
+
+  return {
+    cftoolsId,
+    steam64: idType === 'steam64' ? playerId : null,
+    battleyeGuid: idType === 'battleyeguid' ? playerId : null,
+    bohemiaUid: idType === 'bohemiainteractiveuid' ? playerId : null,
+  };
+};
+
+/**
+ * Fills the unknown identities of a player from the identities in their statistics.
+ * @param identities The known identities of the player, updated in place
+ * @param stats The statistics of the player
+ * @returns The updated identities
+ */
+export const mergeStatsIdentities = (
+  identities: PlayerIdentities,
+  stats: ClientPlayerStatsResponse,
+): PlayerIdentities => {
+  identities.steam64 ??= stats.identities.steam.steam64;
+  identities.battleyeGuid ??= stats.identities.battleye.guid;
+  identities.bohemiaUid ??= stats.identities.bohemiainteractive.uid;
+
+  return identities;
+};
+
+/**
+ * Fills the unknown BattlEye GUID and Bohemia Interactive UID of a player, by deriving
+ * them from the Steam64 ID - if it's known.
+ * @param identities The known identities of the player, updated in place
+ * @returns The updated identities
+ */
+export const deriveSteam64Identities = (identities: PlayerIdentities): PlayerIdentities => {
+  if (identities.steam64) {
+    identities.battleyeGuid ??= steam64ToBattlEyeGUID(identities.steam64);
+    identities.bohemiaUid ??= steam64ToBohemiaUID(identities.steam64);
+  }
+
+  return identities;
+};
+
+/**
+ * Combines the known identities of a player from the ID they were looked up with,
+ * and the statistics and sessions on every server, the first known value for every
+ * identity is used. Identities that can be derived from the Steam64 ID are filled locally.
+ * @param cftoolsId The CFTools ID of the player
+ * @param servers The status of the player on every server
+ * @param playerId The raw ID the player was looked up with, defaults to the CFTools ID
+ * @returns The known identities of the player
+ */
+export const resolveProfileIdentities = (
+  cftoolsId: string,
+  servers: PlayerProfileServer[],
+  playerId: string = cftoolsId,
+): PlayerIdentities => {
+  const identities = seedPlayerIdentities(cftoolsId, playerId);
+
+  for (const { stats, session } of servers) {
+    if (stats.status === 'fulfilled' && stats.value) {
+      mergeStatsIdentities(identities, stats.value);
+    }
+    if (session.status === 'fulfilled' && session.value) {
+      identities.steam64 ??= session.value.gamedata.steam64;
+    }
+  }
+
+  return deriveSteam64Identities(identities);
+};
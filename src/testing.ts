@@ -0,0 +1,3 @@
+// Testing utilities, exposed through the `@md-oss/cftools.js/testing` entry point
+// so the mock server (and its `http` and fixture dependencies) isn't bundled with the client.
+export * from './classes/mock-server';
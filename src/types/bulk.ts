@@ -0,0 +1,81 @@
+import type { AnyPlayerId } from '../resolvers/player-ids';
+import type { CreateBanByPlayerIdOptions } from './responses/bans';
+import type { PostPriorityQueueOptions } from './responses/priority-queue';
+import type { PostWhitelistOptions } from './responses/whitelist';
+
+/**
+ * The status of a single item in a bulk operation:
+ * - `success` - The operation succeeded
+ * - `duplicate` - The entry already exists (`DuplicateEntryError`)
+ * - `not-found` - The player or resource could not be found (`NotFoundError`)
+ * - `error` - The operation failed with any other error
+ */
+export type BulkItemStatus = 'success' | 'duplicate' | 'not-found' | 'error';
+
+/**
+ * The result of a single item in a bulk operation.
+ */
+export type BulkItemResult<I, T = void> = {
+  /** The item the operation was performed for. */
+  item: I;
+  status: 'success';
+  value: T;
+} | {
+  /** The item the operation was performed for. */
+  item: I;
+  status: Exclude<BulkItemStatus, 'success'>;
+  error: unknown;
+};
+
+/**
+ * The report of a bulk operation, with a result for every item - in the
+ * same order as the provided items.
+ */
+export type BulkOperationReport<I, T = void> = {
+  results: BulkItemResult<I, T>[];
+  /** The number of items for every status. */
+  counts: Record<BulkItemStatus, number>;
+};
+
+/**
+ * The options shared by all bulk operations.
+ */
+export type BulkOperationOptions = {
+  /**
+   * The maximum number of items that are processed concurrently.
+   * @default 5
+   */
+  concurrency?: number;
+};
+
+/**
+ * The options to whitelist multiple players with, see `bulkPostWhitelist`.
+ */
+export type BulkPostWhitelistOptions = BulkOperationOptions & Omit<PostWhitelistOptions, 'playerId'> & {
+  playerIds: (AnyPlayerId | string)[];
+};
+
+/**
+ * The options to add multiple players to the priority queue with, see `bulkPostPriorityQueue`.
+ */
+export type BulkPostPriorityQueueOptions = BulkOperationOptions & Omit<PostPriorityQueueOptions, 'playerId'> & {
+  playerIds: (AnyPlayerId | string)[];
+};
+
+/**
+ * The options to ban multiple players on one or more banlists with, see `bulkCreateBan`.
+ */
+export type BulkCreateBanOptions = BulkOperationOptions
+  & Omit<CreateBanByPlayerIdOptions, 'banListId' | 'format' | 'identifier'> & {
+    /** The banlist(s) to ban every player on. */
+    banListIds: string | string[];
+    playerIds: (AnyPlayerId | string)[];
+  };
+
+/**
+ * An item in a `bulkCreateBan` operation, one for every banlist and player.
+ */
+export type BulkCreateBanItem = {
+  banListId: string;
+  playerId: AnyPlayerId | string;
+};
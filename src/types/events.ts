@@ -0,0 +1,273 @@
+import type { AuthenticationData } from './auth';
+import type { GameServerQueryError } from './general';
+import type { CachePrefix } from '../classes/client';
+import type { RateLimitError } from '../classes/errors';
+import type { RequestInterceptorContext } from './requests';
+import type { ReconciledEntry } from './reconcile';
+import type {
+  ClientListBansResponse,
+  ClientPlayerSession,
+  ClientServerInfoResponse,
+  PostGameLabsActionOptions,
+} from './responses';
+
+/**
+ * Emitted when a request (attempt) is sent to the CFTools API.
+ */
+export type RequestEvent = Omit<RequestInterceptorContext, 'init'>;
+
+/**
+ * Emitted when a response is received from the CFTools API, for both
+ * successful and failed requests.
+ */
+export type ResponseEvent = RequestEvent & {
+  /** The HTTP status code of the response. */
+  status: number;
+  /** The time (in ms) it took to receive the response, excluding time spent in the request queue. */
+  duration: number;
+};
+
+/**
+ * Emitted when a request is rate-limited by the CFTools API.
+ */
+export type RateLimitedEvent = {
+  url: string;
+  method: string;
+  /** The (1-based) attempt that was rate-limited. */
+  attempt: number;
+  /** The error the request failed with. */
+  error: RateLimitError;
+  /** The delay (in ms) before the request is retried, or `null` if it won't be retried. */
+  retryIn: number | null;
+};
+
+/**
+ * Emitted when a cached response is looked up.
+ */
+export type CacheEvent = {
+  prefix: CachePrefix;
+  /** The (hashed) key of the cache entry, without the prefix. */
+  key: string;
+  /** Whether the entry has expired, and is served while it's refreshed (stale-while-revalidate). */
+  stale: boolean;
+};
+
+/**
+ * Emitted when the authentication token has been refreshed, the token
+ * itself is omitted.
+ */
+export type TokenRefreshedEvent = AuthenticationData;
+
+/**
+ * Emitted when the client failed to (re-)authenticate with the CFTools API.
+ */
+export type AuthFailedEvent = {
+  error: unknown;
+};
+
+/**
+ * Emitted when a GameLabs action has been posted, once for every action in a batch.
+ */
+export type GameLabsActionPostedEvent = Omit<PostGameLabsActionOptions, 'serverApiId'> & {
+  serverApiId: string;
+};
+
+/**
+ * The events emitted by the `CFToolsClient`, and their payloads.
+ */
+export type ClientEvents = {
+  request: [event: RequestEvent];
+  response: [event: ResponseEvent];
+  rateLimited: [event: RateLimitedEvent];
+  cacheHit: [event: CacheEvent];
+  cacheMiss: [event: CacheEvent];
+  tokenRefreshed: [event: TokenRefreshedEvent];
+  authFailed: [event: AuthFailedEvent];
+  gameLabsActionPosted: [event: GameLabsActionPostedEvent];
+};
+
+/**
+ * The base payload for player list watcher events, keyed by the session ID and CFTools ID.
+ */
+export type PlayerSessionEvent = {
+  /** The server API ID of the server the session belongs to. */
+  serverApiId: string;
+  /** The ID of the session. */
+  id: string;
+  /** The CFTools ID of the player. */
+  cftoolsId: string;
+  /** The (latest known) session of the player. */
+  session: ClientPlayerSession;
+};
+
+/**
+ * The properties of a player session that are compared between polls.
+ */
+export type PlayerSessionChange = 'ping' | 'position' | 'stats';
+
+/**
+ * Emitted when a player's session changed between polls.
+ */
+export type PlayerUpdateEvent = PlayerSessionEvent & {
+  /** The session as it was during the previous poll. */
+  previous: ClientPlayerSession;
+  /** The properties that changed since the previous poll. */
+  changes: PlayerSessionChange[];
+};
+
+/**
+ * Emitted when a player is flagged by CFTools radar, once for every new set of flags.
+ */
+export type RadarFlaggedEvent = PlayerSessionEvent & {
+  /** The flags that were added since the previous poll. */
+  flags: string[];
+};
+
+/**
+ * Emitted when polling the player list for a server failed, or a listener threw
+ * while emitting the changes. The watcher keeps polling and keeps the last known player list.
+ */
+export type PlayerListPollErrorEvent = {
+  serverApiId: string;
+  error: unknown;
+};
+
+/**
+ * The events emitted by the `PlayerListWatcher`, and their payloads.
+ */
+export type PlayerListWatcherEvents = {
+  playerJoin: [event: PlayerSessionEvent];
+  playerLeave: [event: PlayerSessionEvent];
+  playerUpdate: [event: PlayerUpdateEvent];
+  radarFlagged: [event: RadarFlaggedEvent];
+  pollError: [event: PlayerListPollErrorEvent];
+};
+
+/**
+ * A snapshot of the health of a server, resolved from `serverInfo` and `gameServerDetails`.
+ */
+export type ServerHealth = {
+  serverApiId: string;
+  gameserverId: string;
+  /** Whether the game-server is online, according to the game-server query. */
+  online: boolean;
+  /** The state of the CFTools worker connected to the server. */
+  workerState: ClientServerInfoResponse['worker']['state'];
+  /** Whether the GameLabs integration is connected. */
+  gameIntegrationStatus: boolean;
+  /** The error of the last game-server query, `GameServerQueryError.NONE` if the query succeeded. */
+  queryError: GameServerQueryError;
+  /** The date and time of the next scheduled restart, or `null` if no restart is scheduled. */
+  nextRestart: Date | null;
+  /** The date and time the health was checked. */
+  checkedAt: Date;
+};
+
+/**
+ * Emitted when the health of a server transitioned between checks.
+ */
+export type ServerHealthEvent = {
+  serverApiId: string;
+  /** The current health of the server. */
+  health: ServerHealth;
+  /** The health of the server during the previous check. */
+  previous: ServerHealth;
+};
+
+/**
+ * Emitted when the scheduled restart of a server is within the configured lead time,
+ * once for every scheduled restart.
+ */
+export type RestartImminentEvent = {
+  serverApiId: string;
+  health: ServerHealth;
+  /** The date and time the server restarts. */
+  restartAt: Date;
+  /** The time (in ms) until the server restarts. */
+  restartIn: number;
+};
+
+/**
+ * Emitted when checking the health of a server failed, because the CFTools API
+ * couldn't be reached, or a listener threw while emitting the transitions. The
+ * monitor keeps checking, and keeps the last known health.
+ */
+export type ServerHealthCheckErrorEvent = {
+  serverApiId: string;
+  error: unknown;
+};
+
+/**
+ * The events emitted by the `ServerHealthMonitor`, and their payloads.
+ */
+export type ServerHealthMonitorEvents = {
+  serverOffline: [event: ServerHealthEvent];
+  serverOnline: [event: ServerHealthEvent];
+  gameLabsDisconnected: [event: ServerHealthEvent];
+  gameLabsConnected: [event: ServerHealthEvent];
+  workerStateChanged: [event: ServerHealthEvent];
+  queryError: [event: ServerHealthEvent];
+  restartImminent: [event: RestartImminentEvent];
+  checkError: [event: ServerHealthCheckErrorEvent];
+};
+
+/**
+ * A list that is scanned for expiring entries by the `ExpirationScheduler`.
+ */
+export type ExpirationTarget = {
+  type: 'ban';
+  banListId: string;
+} | {
+  type: 'whitelist' | 'priorityQueue';
+  serverApiId: string;
+};
+
+/**
+ * Emitted when an entry expires within one of the configured lead times, once
+ * for every lead time (and expiration date) of the entry.
+ */
+export type ExpiringEntryEvent = {
+  target: ExpirationTarget;
+  /** The entry that is expiring, a ban or a whitelist/priority queue entry depending on the target. */
+  entry: ClientListBansResponse[number] | ReconciledEntry;
+  /** The identifier of the entry, the ban ID or the CFTools ID of the player. */
+  key: string;
+  /** The date and time the entry expires. */
+  expiresAt: Date;
+  /** The time (in ms) until the entry expires. */
+  expiresIn: number;
+  /** The lead time (in ms) that was reached. */
+  leadTime: number;
+};
+
+/**
+ * Emitted when an entry expired while the scheduler is running, once for
+ * every expiration date of the entry.
+ */
+export type ExpiredEntryEvent = {
+  target: ExpirationTarget;
+  /** The entry that expired, as it was last seen. */
+  entry: ClientListBansResponse[number] | ReconciledEntry;
+  /** The identifier of the entry, the ban ID or the CFTools ID of the player. */
+  key: string;
+  /** The date and time the entry expired. */
+  expiresAt: Date;
+};
+
+/**
+ * Emitted when scanning a list failed, or a listener threw while emitting the
+ * expirations. The scheduler keeps scanning, and keeps the last known entries.
+ */
+export type ExpirationScanErrorEvent = {
+  target: ExpirationTarget;
+  error: unknown;
+};
+
+/**
+ * The events emitted by the `ExpirationScheduler`, and their payloads.
+ */
+export type ExpirationSchedulerEvents = {
+  expiringSoon: [event: ExpiringEntryEvent];
+  expired: [event: ExpiredEntryEvent];
+  scanError: [event: ExpirationScanErrorEvent];
+};
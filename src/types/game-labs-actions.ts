@@ -0,0 +1,211 @@
+import type { GameLabsActionContext, GameLabsActionTarget, GameLabsVector } from './responses';
+
+/**
+ * The GameLabs actions that can be performed through `client.actions`, by
+ * action code. This is an interface so it can be extended through module
+ * augmentation - see `generateGameLabsActionTypes` to generate the entries for
+ * the modded actions on your server. Parameters are optional, omitted
+ * parameters use the default value declared by the action.
+ */
+export interface GameLabsActionMap {
+  /** Teleport player to target location */
+  CFCloud_TeleportPlayer: {
+    context: 'player';
+    parameters: {
+      /** Target location - Target location as DayZ parsable vector */
+      vector?: GameLabsVector;
+    };
+  };
+  /** Replenish player vitals */
+  CFCloud_HealPlayer: {
+    context: 'player';
+    parameters: Record<never, never>;
+  };
+  /** Kill player character */
+  CFCloud_KillPlayer: {
+    context: 'player';
+    parameters: Record<never, never>;
+  };
+  /** Spawn an item at player position */
+  CFCloud_SpawnPlayerItem: {
+    context: 'player';
+    parameters: {
+      /** Debug spawn - Use debug spawn method to automatically populate specific items */
+      debug?: boolean;
+      /** Item class name - Class name of item to be spawned */
+      item?: string;
+      /** Quantity - Amount if items to be spawned */
+      quantity?: number;
+      /** Stacked - Spawn items as a stack (only works if item supports to be stacked) */
+      stacked?: boolean;
+    };
+  };
+  /** Delete all player items */
+  CFCloud_StripPlayer: {
+    context: 'player';
+    parameters: Record<never, never>;
+  };
+  /** Explode player */
+  CFCloud_ExplodePlayer: {
+    context: 'player';
+    parameters: Record<never, never>;
+  };
+  /** Delete vehicle */
+  CFCloud_DeleteVehicle: {
+    context: 'vehicle';
+    parameters: Record<never, never>;
+  };
+  /** Stop engine */
+  CFCloud_KillVehicleEngine: {
+    context: 'vehicle';
+    parameters: Record<never, never>;
+  };
+  /** Refuel vehicle */
+  CFCloud_RefuelVehicle: {
+    context: 'vehicle';
+    parameters: Record<never, never>;
+  };
+  /** Repair vehicle and refill */
+  CFCloud_RepairVehicle: {
+    context: 'vehicle';
+    parameters: Record<never, never>;
+  };
+  /** Explode vehicle */
+  CFCloud_VehicleExplode: {
+    context: 'vehicle';
+    parameters: Record<never, never>;
+  };
+  /** Unstuck vehicle from below the map */
+  CFCloud_UnstuckVehicle: {
+    context: 'vehicle';
+    parameters: Record<never, never>;
+  };
+  /** Update world time */
+  CFCloud_WorldTime: {
+    context: 'world';
+    parameters: {
+      /** Hour -  */
+      hour?: number;
+      /** Minute -  */
+      minute?: number;
+    };
+  };
+  /** Update weather */
+  CFCloud_WorldWeather: {
+    context: 'world';
+    parameters: {
+      /** Fog - Number between 0 and 1 */
+      fog?: number;
+      /** Overcast - Number between 0 and 1 */
+      overcast?: number;
+      /** Rain - Number between 0 and 1 */
+      rain?: number;
+      /** Wind speed - Wind speed in km/h */
+      wind?: number;
+    };
+  };
+  /** Set clear weather */
+  CFCloud_WorldWeatherSunny: {
+    context: 'world';
+    parameters: Record<never, never>;
+  };
+  /** Clear all world AI */
+  CFCloud_WorldWipeAI: {
+    context: 'world';
+    parameters: Record<never, never>;
+  };
+  /** Clear all world vehicles */
+  CFCloud_WorldWipeVehicles: {
+    context: 'world';
+    parameters: Record<never, never>;
+  };
+  /** Spawn an item at coordinates */
+  CFCloud_SpawnItemWorld: {
+    context: 'world';
+    parameters: {
+      /** Debug spawn - Use debug spawn method to automatically populate specific items */
+      debug?: boolean;
+      /** Item class name - Class name of item to be spawned */
+      item?: string;
+      /** Quantity - Amount if items to be spawned */
+      quantity?: number;
+      /** Stacked - Spawn items as a stack (only works if item supports to be stacked) */
+      stacked?: boolean;
+      /** Coordinates - World coordinates */
+      vector?: GameLabsVector;
+    };
+  };
+  /** Delete object */
+  CFCloud_ObjectDelete: {
+    context: 'object';
+    parameters: Record<never, never>;
+  };
+  /** Clear territory (Server restart required) */
+  CFCloud_TerritoryFlagClear: {
+    context: 'object';
+    parameters: Record<never, never>;
+  };
+  /** Flip vehicle */
+  WRDG_FlipTransport_GL: {
+    context: 'vehicle';
+    parameters: Record<never, never>;
+  };
+  /** Push vehicle */
+  WRDG_PushTransport_GL: {
+    context: 'vehicle';
+    parameters: {
+      /** Reverse - Push the vehicle in reverse */
+      reverse?: boolean;
+    };
+  };
+  /** Mute Player */
+  LB_Gamelabs_MutePlayer: {
+    context: 'player';
+    parameters: {
+      /** Time - Minutes */
+      int?: number;
+    };
+  };
+  /** Unmute Player */
+  LB_Gamelabs_UnmutePlayer: {
+    context: 'player';
+    parameters: Record<never, never>;
+  };
+}
+
+/**
+ * The options that target the entity an action is performed on: `player`
+ * actions take a `target`, `vehicle` and `object` actions a `referenceKey`
+ * and `world` actions neither.
+ */
+export type GameLabsActionTargetOptions<C extends GameLabsActionContext> = C extends 'player'
+  ? { target: GameLabsActionTarget; referenceKey?: never }
+  : C extends 'world'
+    ? { target?: never; referenceKey?: never }
+    : { target?: never; referenceKey: string };
+
+/**
+ * The options to perform a typed GameLabs action with, the parameters of the
+ * action are supplied alongside the target.
+ */
+export type GameLabsActionOptions<K extends keyof GameLabsActionMap> = { serverApiId?: string }
+  & GameLabsActionTargetOptions<GameLabsActionMap[K]['context']>
+  & GameLabsActionMap[K]['parameters'];
+
+/**
+ * A typed wrapper for every action in {@link GameLabsActionMap}, see `client.actions`.
+ */
+export type GameLabsActionWrappers = {
+  [K in keyof GameLabsActionMap]: Record<never, never> extends GameLabsActionOptions<K>
+    ? (options?: GameLabsActionOptions<K>) => Promise<void>
+    : (options: GameLabsActionOptions<K>) => Promise<void>;
+};
+
+export type GenerateGameLabsActionTypesOptions = {
+  /** The module that is augmented, and the types are imported from, defaults to `@md-oss/cftools.js`. */
+  moduleName?: string;
+  /** Whether to include the actions that are already typed by this library, see `GameLabsActionCode`. */
+  includeBuiltIn?: boolean;
+  /** Whether to emit a wrapper function for every action, alongside the types, defaults to `true`. */
+  wrappers?: boolean;
+};
@@ -0,0 +1,31 @@
+/**
+ * Omits keys from every member of a union type, unlike `Omit` which
+ * collapses the union into it's common keys.
+ */
+export type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * The options of a client method, without the server API ID - which is
+ * provided by the server handle the method is called on.
+ */
+export type ServerBoundOptions<T> = DistributiveOmit<T, 'serverApiId'>;
+
+/**
+ * The options of a client method, without the banlist ID - which is
+ * provided by the banlist handle the method is called on.
+ */
+export type BanListBoundOptions<T> = DistributiveOmit<T, 'banListId'>;
+
+/**
+ * The result of an operation that is fanned out to multiple servers, one
+ * result for every server - failures for one server don't affect the others.
+ */
+export type ServerFanOutResult<T> = {
+  serverApiId: string;
+  status: 'fulfilled';
+  value: T;
+} | {
+  serverApiId: string;
+  status: 'rejected';
+  error: unknown;
+};
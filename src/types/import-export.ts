@@ -0,0 +1,107 @@
+import type { BulkItemResult } from './bulk';
+import type { BanStatus } from './responses/bans';
+
+/**
+ * The formats bans, whitelist and priority queue entries can be exported to and imported from.
+ */
+export type TransferFormat = 'csv' | 'json';
+
+/**
+ * A portable ban, as exported by `serializeBans`.
+ */
+export type BanTransferRow = {
+  /** The CFTools ID, Steam64 ID or IPv4 address that is banned. */
+  identifier: string;
+  reason: string;
+  /** The date and time the ban expires, or `null` for permanent bans. */
+  expiresAt: Date | null;
+  /** The status of the ban, rows without a status are considered active. */
+  status?: BanStatus;
+};
+
+/**
+ * A portable whitelist or priority queue entry, as exported by `serializeWhitelist`
+ * and `serializePriorityQueue`.
+ */
+export type PlayerListTransferRow = {
+  /** The CFTools ID or any other player ID of the player. */
+  playerId: string;
+  comment: string;
+  /** The date and time the entry expires, or `null` for permanent entries. */
+  expiresAt: Date | null;
+};
+
+/**
+ * A row that failed validation while parsing an import.
+ */
+export type TransferRowError = {
+  /** The (0-based) index of the row, excluding the CSV header. */
+  index: number;
+  /** The raw row, as it was parsed. */
+  row: Record<string, unknown>;
+  message: string;
+};
+
+/**
+ * The result of parsing an import, the valid rows and errors for the invalid rows.
+ */
+export type ParsedTransferRows<R> = {
+  rows: R[];
+  errors: TransferRowError[];
+};
+
+/**
+ * What an import does (or would do, in dry-run mode) for a valid row:
+ * - `create` - The entry is created
+ * - `skip` - The entry is skipped, see the `reason`
+ */
+export type ImportPlanItem<R> = {
+  row: R;
+  action: 'create' | 'skip';
+  /** Why the entry is skipped, e.g. because it already exists, or has expired. */
+  reason?: 'exists' | 'expired' | 'inactive' | 'player-not-found';
+};
+
+/**
+ * The report of an import.
+ */
+export type ImportReport<R> = {
+  dryRun: boolean;
+  /** The rows that failed validation, these are never imported. */
+  errors: TransferRowError[];
+  /** What the import does (or would do) for every valid row. */
+  plan: ImportPlanItem<R>[];
+  /** The result for every created entry, empty in dry-run mode. */
+  results: BulkItemResult<R>[];
+};
+
+/**
+ * The options shared by all imports.
+ */
+export type ImportOptions = {
+  /** The exported data to import. */
+  data: string;
+  format: TransferFormat;
+  /** Only report what would change, without creating any entries. */
+  dryRun?: boolean;
+  /**
+   * The maximum number of entries that are created concurrently.
+   * @default 5
+   */
+  concurrency?: number;
+};
+
+/**
+ * The options to import bans with, see `importBans`.
+ */
+export type ImportBansOptions = ImportOptions & {
+  banListId: string;
+};
+
+/**
+ * The options to import whitelist or priority queue entries with, see
+ * `importWhitelist` and `importPriorityQueue`.
+ */
+export type ImportPlayerListOptions = ImportOptions & {
+  serverApiId?: string;
+};
@@ -0,0 +1,52 @@
+import type { BanStatus, GetPriorityQueueOptions, GetWhitelistOptions, ListBansOptions } from './responses';
+
+/**
+ * A window the expiration date of an entry has to fall in. Permanent entries never
+ * expire, they match `after` but never match `before`.
+ */
+export type ExpiryWindow = {
+  /** Only include entries that expire after this date. */
+  after?: Date;
+  /** Only include entries that expire before this date. */
+  before?: Date;
+};
+
+/**
+ * The client-side filters that can be applied to bans, see `iterateBans`.
+ */
+export type BanFilter = {
+  /** Only include bans with (one of) these statuses. */
+  status?: BanStatus | BanStatus[];
+  /** Only include bans that expire within this window. */
+  expires?: ExpiryWindow;
+  /** Only include bans with a reason that matches this pattern. */
+  reason?: RegExp;
+};
+
+/**
+ * The client-side filters that can be applied to whitelist and priority queue
+ * entries, see `iterateWhitelist` and `iteratePriorityQueue`.
+ */
+export type EntryFilter = {
+  /** Only include entries that expire within this window. */
+  expires?: ExpiryWindow;
+  /** Only include entries created by this CFTools ID (e.g. a staff member, or your application). */
+  creator?: string;
+  /** Only include entries with a comment that matches this pattern. */
+  commentPattern?: RegExp;
+};
+
+/**
+ * The options to iterate over the bans on a banlist with.
+ */
+export type IterateBansOptions = ListBansOptions & BanFilter;
+
+/**
+ * The options to iterate over the whitelist of a server with.
+ */
+export type IterateWhitelistOptions = GetWhitelistOptions & EntryFilter;
+
+/**
+ * The options to iterate over the priority queue of a server with.
+ */
+export type IteratePriorityQueueOptions = GetPriorityQueueOptions & EntryFilter;
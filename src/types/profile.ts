@@ -0,0 +1,85 @@
+import type {
+  ClientListBansResponse,
+  ClientLookupUserResponse,
+  ClientPlayerSession,
+  ClientPlayerStatsResponse,
+  ClientPriorityQueueResponse,
+  ClientWhitelistResponse,
+} from './responses';
+
+/**
+ * The options to aggregate a player profile with, see `getPlayerProfile`.
+ */
+export type PlayerProfileOptions = {
+  /**
+   * The server API IDs of the servers to include sessions, statistics, whitelist
+   * and priority queue status for - defaults to the server of the client, if any.
+   */
+  servers?: string[];
+  /** The banlists to include bans for, defaults to none. */
+  banLists?: string[];
+};
+
+/**
+ * A section of a player profile, resolved independently from the other sections.
+ * A `NotFoundError` resolves to a `null` value, any other error is included as
+ * a rejected section - failures in one section don't affect the others.
+ */
+export type PlayerProfileSection<T> = {
+  status: 'fulfilled';
+  value: T;
+} | {
+  status: 'rejected';
+  error: unknown;
+};
+
+/**
+ * The status of a player on a single server.
+ */
+export type PlayerProfileServer = {
+  serverApiId: string;
+  /** The current session of the player, `null` if the player is not online. */
+  session: PlayerProfileSection<ClientPlayerSession | null>;
+  /** The statistics of the player, `null` if the player has no statistics. */
+  stats: PlayerProfileSection<ClientPlayerStatsResponse | null>;
+  /** The whitelist entry of the player, `null` if the player isn't whitelisted. */
+  whitelist: PlayerProfileSection<ClientWhitelistResponse[number] | null>;
+  /** The priority queue entry of the player, `null` if the player has no priority queue. */
+  priorityQueue: PlayerProfileSection<ClientPriorityQueueResponse[number] | null>;
+};
+
+/**
+ * The bans of a player on a single banlist.
+ */
+export type PlayerProfileBanList = {
+  banListId: string;
+  /** All bans for the player, including inactive bans. */
+  bans: PlayerProfileSection<ClientListBansResponse>;
+};
+
+/**
+ * The known identities of a player, combined from the lookup, statistics (`PlayerStatisticsIdentities`)
+ * and sessions of the player. Identities that aren't known are `null`.
+ */
+export type PlayerIdentities = {
+  cftoolsId: string;
+  steam64: string | null;
+  battleyeGuid: string | null;
+  bohemiaUid: string | null;
+};
+
+/**
+ * A player profile, combining the lookup, sessions, statistics, bans and
+ * whitelist/priority queue status of a player in a single object.
+ */
+export type PlayerProfile = {
+  cftoolsId: string;
+  lookup: ClientLookupUserResponse;
+  identities: PlayerIdentities;
+  /** The status of the player on every requested server, in the requested order. */
+  servers: PlayerProfileServer[];
+  /** The bans of the player on every requested banlist, in the requested order. */
+  banLists: PlayerProfileBanList[];
+  /** Whether the player has an active ban on any of the (successfully fetched) banlists. */
+  banned: boolean;
+};
@@ -0,0 +1,95 @@
+import type { AnyPlayerId } from '../resolvers/player-ids';
+import type { BulkItemResult, BulkOperationOptions } from './bulk';
+import type { ClientPriorityQueueResponse, ClientWhitelistResponse } from './responses';
+
+/**
+ * A whitelist or priority queue entry, as it's returned by `getWhitelist` or `getPriorityQueue`.
+ */
+export type ReconciledEntry = ClientWhitelistResponse[number] | ClientPriorityQueueResponse[number];
+
+/**
+ * A desired whitelist or priority queue entry, from your own source of truth.
+ */
+export type DesiredEntry = {
+  playerId: AnyPlayerId | string;
+  comment: string;
+  /** The date and time the entry expires, `null` or omitted for permanent entries. */
+  expiresAt?: Date | null;
+};
+
+/**
+ * What a reconciliation does (or would do, in dry-run mode) for a player:
+ * - `add` - The player doesn't have an entry, it is posted
+ * - `update` - The comment or expiration differs, the entry is deleted and re-posted
+ * - `remove` - The player has an entry but isn't desired, it is deleted
+ * - `keep` - The entry already matches the desired entry
+ * - `skip` - The entry is left untouched, see the `reason`
+ */
+export type ReconcileAction = 'add' | 'update' | 'remove' | 'keep' | 'skip';
+
+/**
+ * A single step in a reconciliation plan.
+ */
+export type ReconcilePlanItem = {
+  action: ReconcileAction;
+  /** The CFTools ID of the player, `null` if the desired player couldn't be resolved. */
+  cftoolsId: string | null;
+  /** The desired entry, `null` for entries that aren't desired. */
+  desired: DesiredEntry | null;
+  /** The current entry, `null` for players without an entry. */
+  current: ReconciledEntry | null;
+  /** The fields that differ between the desired and current entry, for `update` actions. */
+  changes?: ('comment' | 'expiresAt')[];
+  /**
+   * Why the entry is skipped:
+   * - `manual-entry` - The entry wasn't created through the API, see `includeManualEntries`
+   * - `player-not-found` - The desired player couldn't be resolved to a CFTools ID
+   * - `duplicate` - The player is already desired by an earlier entry, which is used instead
+   */
+  reason?: 'manual-entry' | 'player-not-found' | 'duplicate';
+};
+
+/**
+ * The options to reconcile the whitelist or priority queue with, see
+ * `reconcileWhitelist` and `reconcilePriorityQueue`.
+ */
+export type ReconcileOptions = BulkOperationOptions & {
+  serverApiId?: string;
+  /**
+   * The complete set of desired entries, players that aren't included are removed.
+   * Entries that have already expired are not considered desired.
+   */
+  entries: DesiredEntry[];
+  /** Only plan the changes, without applying them. */
+  dryRun?: boolean;
+  /**
+   * Whether entries that weren't created through the API (`meta.fromApi` is `false`),
+   * e.g. entries added through the CFTools dashboard, are updated and removed.
+   * @default false
+   */
+  includeManualEntries?: boolean;
+};
+
+/**
+ * The result of an `add`, `update` or `remove` step in a reconciliation.
+ */
+export type ReconcileStepResult = BulkItemResult<ReconcilePlanItem> & {
+  /**
+   * For failed `update` steps, where the current entry was deleted but the desired
+   * entry couldn't be posted (see `RenewalFailedError`):
+   * - `restored` - The original entry has been restored
+   * - `removed` - The original entry couldn't be restored, the player has no entry
+   */
+  partial?: 'restored' | 'removed';
+};
+
+/**
+ * The report of a reconciliation.
+ */
+export type ReconcileReport = {
+  dryRun: boolean;
+  /** What the reconciliation does (or would do) for every desired and current entry. */
+  plan: ReconcilePlanItem[];
+  /** The result for every `add`, `update` and `remove` step, empty in dry-run mode. */
+  results: ReconcileStepResult[];
+};
@@ -0,0 +1,33 @@
+import type { AnyPlayerId } from '../resolvers/player-ids';
+
+/**
+ * How a renewed entry expires, either at a new date and time, or extended by a
+ * duration (in ms) from it's current expiration - or from now, if it has already
+ * expired. Extending a permanent entry keeps it permanent.
+ */
+export type RenewalExpiration<E extends string = 'expiresAt', P = null> = (
+  { [K in E]: Date | P } & { extendBy?: never }
+) | (
+  { [K in E]?: never } & { extendBy: number }
+);
+
+/**
+ * The options to renew a whitelist or priority queue entry with, see
+ * `renewWhitelist` and `renewPriorityQueue`.
+ */
+export type RenewEntryOptions = RenewalExpiration & {
+  serverApiId?: string;
+  playerId: AnyPlayerId | string;
+  /** The comment for the renewed entry, defaults to the current comment. */
+  comment?: string;
+};
+
+/**
+ * The options to renew a ban with, see `renewBan`.
+ */
+export type RenewBanOptions = RenewalExpiration<'expires', 'PERMANENT'> & {
+  banListId: string;
+  banId: string;
+  /** The reason for the renewed ban, defaults to the current reason. */
+  reason?: string;
+};
@@ -1,5 +1,91 @@
 import { API_VERSION } from '../constants';
 
+/**
+ * A `fetch` compatible function, used to perform the actual HTTP requests. This
+ * allows the client to run against a local mock server, a proxy, or an
+ * instrumented `fetch` implementation.
+ */
+export type FetchFunction = (input: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * The base URLs used to resolve API URLs, for each API version and
+ * for both the regular and enterprise API.
+ */
+export type ApiBaseUrls = {
+  v1: string;
+  v2: string;
+  enterpriseV1: string;
+  enterpriseV2: string;
+};
+
+/**
+ * The context that is provided to request interceptors.
+ */
+export type RequestInterceptorContext = {
+  /** The resolved URL that is requested. */
+  url: string;
+  /** The resolved request options, including authentication headers. */
+  init: RequestInit;
+  /** The (uppercase) HTTP method of the request. */
+  method: string;
+  /** The API version that is requested, or `null` if the URL doesn't belong to a known base URL. */
+  version: API_VERSION | null;
+  /** The (1-based) attempt of the request. */
+  attempt: number;
+  /** Whether the request is for authentication or not. */
+  isAuthenticating: boolean;
+};
+
+/**
+ * The context that is provided to response interceptors.
+ */
+export type ResponseInterceptorContext = RequestInterceptorContext & {
+  /** The HTTP status code of the response. */
+  status: number;
+  /** The headers of the response. */
+  headers: Headers;
+  /** The parsed (JSON) body of the response, `undefined` if the response has no (valid) body. */
+  body: unknown;
+  /** The time (in ms) it took to receive the response, excluding time spent in the request queue. */
+  duration: number;
+};
+
+/**
+ * The context that is provided to error interceptors.
+ */
+export type ErrorInterceptorContext = RequestInterceptorContext & {
+  /** The error the request failed with, after being mapped by the request client. */
+  error: unknown;
+};
+
+/**
+ * Called before a request is performed. Return (new) request options to modify the
+ * request, or a `Response` to short-circuit the request without calling `fetch`.
+ */
+export type BeforeRequestInterceptor = (
+  context: RequestInterceptorContext,
+) => void | RequestInit | Response | Promise<void | RequestInit | Response>;
+
+/**
+ * Called after a response is received, for both successful and failed requests.
+ * Return a value other than `undefined` to replace the parsed body of the response.
+ */
+export type AfterResponseInterceptor = (context: ResponseInterceptorContext) => unknown | Promise<unknown>;
+
+/**
+ * Called when a request (attempt) fails. Throw to replace the error the request fails with.
+ */
+export type ErrorInterceptor = (context: ErrorInterceptorContext) => void | Promise<void>;
+
+/**
+ * The interceptors that are applied to requests, in order of registration.
+ */
+export type RequestInterceptors = {
+  beforeRequest: BeforeRequestInterceptor[];
+  afterResponse: AfterResponseInterceptor[];
+  onError: ErrorInterceptor[];
+};
+
 export abstract class AbstractRequestClient {
   public abstract apiUrl(version: API_VERSION, path: string, params?: URLSearchParams): string;
   public abstract resolveHeaders(headersInit: HeadersInit, omitAuthHeaders?: boolean): HeadersInit;
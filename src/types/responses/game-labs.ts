@@ -5,8 +5,15 @@ import type { ClientPlayerSession } from './gsm-list';
 import { GameLabsActionCode } from '../general';
 import { AnyPlayerId } from '../../resolvers/player-ids';
 
+export type GameLabsActionParameterType = 'boolean' | 'float' | 'int' | 'string' | 'vector';
+
 export type GameLabsActionParameter = {
-  type: 'boolean' | 'float' | 'int' | 'string' | 'vector';
+  type: GameLabsActionParameterType;
+  /**
+   * The data type as returned by the API, this is either one of the parameter
+   * types, or a string type that is selected from a list in the dashboard, e.g. `cf_itemlist`.
+   */
+  dataType?: GameLabsActionParameterType | string;
   description: string;
   displayName: string;
   options: {
@@ -78,10 +85,12 @@ export type ClientGameLabsEntityVehiclesResponse = ClientBaseResponse<
 // Start Post Action
 // 
 
+export type GameLabsActionContext = 'world' | 'player' | 'vehicle' | 'object';
+
 export type PostGameLabsActionOptions = {
   serverApiId?: string;
   actionCode: GameLabsActionCode | string;
-  actionContext: 'world' | 'player' | 'vehicle' | 'object';
+  actionContext: GameLabsActionContext;
   referenceKey: string | null;
   parameters?: {
     [key: string]: {
@@ -101,6 +110,35 @@ export type BatchPostGameLabsActionOptions = {
 
 export type GameLabsActionTarget = ClientPlayerSession | string | AnyPlayerId;
 
+// 
+// Start Action Builder
+// 
+
+/** A DayZ vector, the x, y and z coordinates respectively. */
+export type GameLabsVector = [number, number, number];
+
+/**
+ * A parameter value supplied to the action builder - `vector` parameters take
+ * a {@link GameLabsVector}, `float` and `int` parameters a number, `boolean`
+ * parameters a boolean and all other parameters a string.
+ */
+export type GameLabsParameterValue = boolean | number | string | GameLabsVector;
+
+export type BuildGameLabsActionOptions = {
+  serverApiId?: string;
+  actionCode: GameLabsActionCode | string;
+  /** The context the action is expected to be performed in, rejects actions declared for another context. */
+  actionContext?: GameLabsActionContext;
+  /** The player to perform a `player` action on, resolved to it's Steam64 ID. */
+  target?: GameLabsActionTarget;
+  /** The vehicle or object ID to perform a `vehicle` or `object` action on. */
+  referenceKey?: string;
+  /** The parameter values by name, omitted parameters use the default value declared by the action. */
+  parameters?: {
+    [key: string]: GameLabsParameterValue;
+  };
+};
+
 export type IdentifierActionOptionsNoParams = {
   serverApiId?: string;
   identifier: string;
@@ -1,12 +1,27 @@
 // tslint:disable: only-arrow-functions
 import { expect } from 'chai';
 import { getClient } from './client';
+import { CFToolsClient } from '../src/classes/client';
+import { CFToolsMockServer } from '../src/classes/mock-server';
 import { LogLevel } from '../src/types/logger';
 
 const logLevel: LogLevel = 'error';
-const client = getClient(logLevel);
+const mockServer = new CFToolsMockServer();
+let client: CFToolsClient;
 
 describe('Authenticating', function() {
+  before(async function() {
+    await mockServer.start();
+    client = getClient(mockServer, logLevel);
+  });
+
+  after(async function() {
+    if (client.authProvider.refreshTimeout) {
+      clearInterval(client.authProvider.refreshTimeout);
+    }
+    await mockServer.stop();
+  });
+
   it('should initially be unauthenticated', function() {
     expect(client.authProvider.authenticated).to.equal(false);
   });
@@ -0,0 +1,114 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CFToolsClient } from '../src/classes/client';
+import { ConsoleLogger } from '../src/classes/logger';
+import { DuplicateEntryError } from '../src/classes/errors';
+import { CFToolsMockServer, MockServerInstance } from '../src/classes/mock-server';
+import { runBulkOperation } from '../src/resolvers/bulk';
+import { Steam64Id } from '../src/resolvers/player-ids';
+
+describe('Bulk operations', function() {
+  const mockServer = new CFToolsMockServer();
+  let client: CFToolsClient;
+  let server: MockServerInstance;
+
+  before(async function() {
+    await mockServer.start();
+  });
+
+  after(async function() {
+    await mockServer.stop();
+  });
+
+  beforeEach(function() {
+    server = mockServer.addServer();
+    client = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret: mockServer.applicationSecret,
+      serverApiId: server.serverApiId,
+    }, {
+      logger: new ConsoleLogger('off'),
+      retryConfiguration: { enabled: false },
+      apiBaseUrls: mockServer.url,
+    });
+  });
+
+  afterEach(function() {
+    if (client.authProvider.refreshTimeout) {
+      clearInterval(client.authProvider.refreshTimeout);
+    }
+  });
+
+  it('should bound concurrency and keep the order of results', async function() {
+    let active = 0;
+    let maxActive = 0;
+    const report = await runBulkOperation([30, 10, 20, 0, 40], async (delay) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      active--;
+      if (delay === 0) {
+        throw new DuplicateEntryError(null);
+      }
+      return delay * 2;
+    }, 2);
+
+    expect(maxActive).to.equal(2);
+    expect(report.results.map((result) => result.status)).to.deep.equal([
+      'success', 'success', 'success', 'duplicate', 'success',
+    ]);
+    expect(report.results[0]).to.include({ item: 30, value: 60 });
+    expect(report.counts).to.deep.equal({ success: 4, duplicate: 1, 'not-found': 0, error: 0 });
+  });
+
+  it('should whitelist players and report duplicates', async function() {
+    const [first, second] = [mockServer.addUser(), mockServer.addUser()];
+
+    await client.postWhitelist({ playerId: first.cftoolsId, comment: 'Existing' });
+    const report = await client.bulkPostWhitelist({
+      playerIds: [first.cftoolsId, second.cftoolsId, new Steam64Id(first.steam64)],
+      comment: 'Imported',
+    });
+
+    expect(report.results.map((result) => result.status)).to.deep.equal(['duplicate', 'success', 'duplicate']);
+    expect(server.whitelist).to.have.lengthOf(2);
+  });
+
+  it('should add players to the priority queue and report unknown players', async function() {
+    const user = mockServer.addUser();
+    const report = await client.bulkPostPriorityQueue({
+      playerIds: [user.cftoolsId, '76561190000000000'],
+      comment: 'Supporter',
+      concurrency: 1,
+    });
+
+    expect(report.results.map((result) => result.status)).to.deep.equal(['success', 'not-found']);
+    expect(report.counts).to.include({ success: 1, 'not-found': 1 });
+  });
+
+  it('should ban players across multiple banlists', async function() {
+    const banLists = [mockServer.addBanList(), mockServer.addBanList()];
+    const users = [mockServer.addUser(), mockServer.addUser()];
+    const report = await client.bulkCreateBan({
+      banListIds: banLists.map((banList) => banList.banListId),
+      playerIds: users.map((user) => user.cftoolsId),
+      reason: 'Cheating',
+      expires: 'PERMANENT',
+    });
+
+    expect(report.counts.success).to.equal(4);
+    expect(report.results.map((result) => result.item.banListId)).to.deep.equal([
+      banLists[0].banListId, banLists[0].banListId, banLists[1].banListId, banLists[1].banListId,
+    ]);
+    expect(banLists.map((banList) => banList.bans.length)).to.deep.equal([2, 2]);
+  });
+
+  it('should lookup users in bulk', async function() {
+    const user = mockServer.addUser();
+    const report = await client.bulkLookupUser([user.steam64, '76561190000000000']);
+
+    expect(report.results[0]).to.deep.include({ status: 'success', value: { cftoolsId: user.cftoolsId, notice: undefined } });
+    expect(report.results[1].status).to.equal('not-found');
+  });
+});
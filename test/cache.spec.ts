@@ -0,0 +1,289 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+import { Keyv } from 'keyv';
+
+import { CacheManager } from '../src/classes/cache';
+import { CFToolsClient, ClientOptions } from '../src/classes/client';
+import { ConsoleLogger } from '../src/classes/logger';
+import { CFToolsMockServer, MockServerInstance } from '../src/classes/mock-server';
+
+describe('Cache', function() {
+  const ttl = 60000;
+
+  describe('Cache manager', function() {
+    it('should not share entries between instances by default', async function() {
+      const first = new CacheManager();
+      const second = new CacheManager();
+
+      await first.set('playerList:key', 'value', ttl);
+      expect(await first.get('playerList:key')).to.equal('value');
+      expect(await second.get('playerList:key')).to.be.null;
+    });
+    it('should namespace entries in a shared store', async function() {
+      const store = new Map<string, unknown>();
+      const first = new CacheManager(store, 'first');
+      const second = new CacheManager(store, 'second');
+
+      await first.set('playerList:key', 'first', ttl);
+      await second.set('playerList:key', 'second', ttl);
+
+      expect(await first.get('playerList:key')).to.equal('first');
+      expect(await second.get('playerList:key')).to.equal('second');
+      expect(await first.keysForPrefix('playerList')).to.deep.equal(['playerList:key']);
+    });
+    it('should only clear its own entries', async function() {
+      const store = new Keyv();
+      const first = new CacheManager(store, 'first');
+      const second = new CacheManager(store, 'second');
+
+      await first.set('key', 'first', ttl);
+      await second.set('key', 'second', ttl);
+      await first.clear();
+
+      expect(await first.get('key')).to.be.null;
+      expect(await second.get('key')).to.equal('second');
+    });
+  });
+
+  describe('Client cache', function() {
+    const mockServer = new CFToolsMockServer();
+    const clients: CFToolsClient[] = [];
+    let server: MockServerInstance;
+
+    const getMockClient = (options: ClientOptions = {}, applicationId = mockServer.applicationId) => {
+      const client = new CFToolsClient({
+        applicationId,
+        applicationSecret: mockServer.applicationSecret,
+        serverApiId: server.serverApiId,
+      }, {
+        logger: new ConsoleLogger('off'),
+        apiBaseUrls: mockServer.url,
+        ...options,
+      });
+
+      clients.push(client);
+
+      return client;
+    };
+
+    before(async function() {
+      await mockServer.start();
+    });
+
+    after(async function() {
+      await mockServer.stop();
+    });
+
+    beforeEach(function() {
+      server = mockServer.addServer();
+    });
+
+    afterEach(function() {
+      for (const client of clients.splice(0)) {
+        if (client.authProvider.refreshTimeout) {
+          clearInterval(client.authProvider.refreshTimeout);
+        }
+      }
+    });
+
+    it('should not share cached responses between clients', async function() {
+      const first = getMockClient();
+      const second = getMockClient();
+
+      await first.serverInfo(server.serverApiId);
+      mockServer.clearRequests();
+      await second.serverInfo(server.serverApiId);
+
+      expect(mockServer.requests.map((request) => request.path))
+        .to.include(`/v1/server/${server.serverApiId}/info`);
+    });
+    it('should share a warm cache through a shared store', async function() {
+      const store = new Keyv();
+      const first = getMockClient({ cacheStore: store });
+      const second = getMockClient({ cacheStore: store });
+      let cacheHits = 0;
+
+      second.on('cacheHit', () => cacheHits++);
+
+      await first.serverInfo(server.serverApiId);
+      mockServer.clearRequests();
+      await second.serverInfo(server.serverApiId);
+
+      expect(mockServer.requests).to.have.lengthOf(0);
+      expect(cacheHits).to.equal(1);
+    });
+    it('should share in-flight requests between identical concurrent calls', async function() {
+      const client = getMockClient({ cacheConfiguration: { enabled: false } });
+
+      mockServer.clearRequests();
+      const responses = await Promise.all([
+        client.serverInfo(server.serverApiId),
+        client.serverInfo(server.serverApiId),
+        client.playerList(server.serverApiId),
+      ]);
+
+      expect(responses[0]).to.equal(responses[1]);
+      expect(mockServer.requests.map((request) => request.path)).to.deep.equal([
+        '/v1/auth/register',
+        `/v1/server/${server.serverApiId}/info`,
+        `/v1/server/${server.serverApiId}/GSM/list`,
+      ]);
+    });
+    it('should serve stale entries while revalidating in the background', async function() {
+      const client = getMockClient({ cacheConfiguration: { serverInfo: [0.05, 100], staleWhileRevalidate: 60 } });
+      const staleHits: boolean[] = [];
+
+      client.on('cacheHit', (event) => staleHits.push(event.stale));
+
+      await client.serverInfo(server.serverApiId);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      mockServer.clearRequests();
+
+      const refreshed = new Promise((resolve) => client.once('response', resolve));
+      await Promise.all([
+        client.serverInfo(server.serverApiId),
+        client.serverInfo(server.serverApiId),
+      ]);
+      await refreshed;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await client.serverInfo(server.serverApiId);
+
+      expect(staleHits).to.deep.equal([true, true, false]);
+      expect(mockServer.requests).to.have.lengthOf(1);
+    });
+    it('should return fresh whitelist entries after writes', async function() {
+      const client = getMockClient();
+      const user = mockServer.addUser();
+      const options = { serverApiId: server.serverApiId, playerId: user.cftoolsId };
+
+      expect(await client.getWhitelist({ serverApiId: server.serverApiId })).to.have.lengthOf(0);
+      await client.postWhitelist({ ...options, comment: 'Whitelisted' });
+      expect(await client.getWhitelist(options)).to.have.lengthOf(1);
+      expect(await client.getWhitelist({ serverApiId: server.serverApiId })).to.have.lengthOf(1);
+
+      await client.deleteWhitelist(options);
+      expect(await client.getWhitelist(options)).to.have.lengthOf(0);
+    });
+    it('should not share or cache reads that were in-flight during a write', async function() {
+      let releaseRead: () => void = () => undefined;
+      let readFetched: () => void = () => undefined;
+      const [fetched, released] = [
+        new Promise<void>((resolve) => (readFetched = resolve)),
+        new Promise<void>((resolve) => (releaseRead = resolve)),
+      ];
+      let held = false;
+      const client = getMockClient({
+        // Hold the response of the first whitelist read, until the write has completed
+        fetch: async (input, init) => {
+          const response = await fetch(input, init);
+
+          if (!held && (init?.method ?? 'GET') === 'GET' && `${input}`.includes('/whitelist')) {
+            held = true;
+            readFetched();
+            await released;
+          }
+
+          return response;
+        },
+      });
+      const user = mockServer.addUser();
+      const options = { serverApiId: server.serverApiId };
+
+      const staleRead = client.getWhitelist(options);
+      await fetched;
+      await client.postWhitelist({ ...options, playerId: user.cftoolsId, comment: 'Whitelisted' });
+      const freshRead = client.getWhitelist(options);
+      releaseRead();
+
+      expect(await staleRead).to.have.lengthOf(0);
+      expect(await freshRead).to.have.lengthOf(1);
+      expect(await client.getWhitelist(options)).to.have.lengthOf(1);
+    });
+    it('should only invalidate entries for the affected player', async function() {
+      const client = getMockClient();
+      const [first, second] = [mockServer.addUser(), mockServer.addUser()];
+      const prefix = `priorityQueue:${server.serverApiId}`;
+
+      await client.postPriorityQueue({ serverApiId: server.serverApiId, playerId: first.cftoolsId, comment: 'First' });
+      await client.getPriorityQueue({ serverApiId: server.serverApiId, playerId: first.cftoolsId });
+      await client.postPriorityQueue({ serverApiId: server.serverApiId, playerId: second.cftoolsId, comment: 'Second' });
+
+      expect(await client.cacheManager.keysForPrefix(`${prefix}:${first.cftoolsId}:`)).to.have.lengthOf(1);
+      expect(await client.cacheManager.keysForPrefix(`${prefix}:${second.cftoolsId}:`)).to.have.lengthOf(0);
+    });
+    it('should only invalidate entries for the affected banlist', async function() {
+      const client = getMockClient();
+      const user = mockServer.addUser();
+      const [first, second] = [mockServer.addBanList(), mockServer.addBanList()];
+
+      await client.listBans({ banListId: first.banListId });
+      await client.listBans({ banListId: second.banListId });
+      await client.createBan({
+        banListId: first.banListId, format: 'cftools_id', identifier: user.cftoolsId, reason: 'Cheating', expires: 'PERMANENT',
+      });
+
+      expect(await client.listBans({ banListId: first.banListId })).to.have.lengthOf(1);
+      expect(await client.cacheManager.keysForPrefix(`listBans:${second.banListId}:`)).to.have.lengthOf(1);
+
+      await client.deleteBan({ banListId: first.banListId, banId: first.bans[0].id });
+      expect(await client.listBans({ banListId: first.banListId })).to.have.lengthOf(0);
+    });
+    it('should invalidate the player list after kicking a player', async function() {
+      const client = getMockClient();
+      const session = mockServer.addSession(server.serverApiId, mockServer.addUser());
+
+      expect(await client.playerList(server.serverApiId)).to.have.lengthOf(1);
+      await client.kickPlayer({ serverApiId: server.serverApiId, id: session.id, reason: 'Kicked' });
+      expect(await client.playerList(server.serverApiId)).to.have.lengthOf(0);
+    });
+    it('should report cache statistics per prefix', async function() {
+      const client = getMockClient({ cacheConfiguration: { serverInfo: [60, 1] } });
+      const other = mockServer.addServer();
+
+      await client.serverInfo(server.serverApiId);
+      await client.serverInfo(server.serverApiId);
+      await client.serverInfo(other.serverApiId);
+
+      const { prefixes, total } = await client.cacheStats();
+
+      expect(prefixes.serverInfo).to.include({ hits: 1, misses: 2, evictions: 1, invalidations: 0, entries: 1 });
+      expect(prefixes.serverInfo.size).to.be.greaterThan(0);
+      expect(prefixes.serverInfo.oldestEntryAge).to.be.at.least(0);
+      expect(prefixes.playerList).to.include({ hits: 0, misses: 0, entries: 0, oldestEntryAge: null });
+      expect(total).to.include({ hits: 1, misses: 2, entries: 1 });
+    });
+    it('should inspect and evict entries by their logical key', async function() {
+      const client = getMockClient();
+      const other = mockServer.addServer();
+
+      await client.serverInfo(server.serverApiId);
+      await client.serverInfo(other.serverApiId);
+
+      const [entry] = await client.inspectCache('serverInfo', server.serverApiId);
+
+      expect(entry.logicalKey).to.equal(server.serverApiId);
+      expect(entry.value).to.have.nested.property('gameserver.gameserverId');
+      expect(entry.stale).to.be.false;
+      expect(await client.inspectCache('serverInfo')).to.have.lengthOf(2);
+
+      expect(await client.evictCache('serverInfo', server.serverApiId)).to.equal(1);
+      expect(await client.inspectCache('serverInfo', server.serverApiId)).to.have.lengthOf(0);
+      expect(await client.inspectCache('serverInfo', other.serverApiId)).to.have.lengthOf(1);
+      expect((await client.cacheStats()).prefixes.serverInfo.invalidations).to.equal(1);
+    });
+    it('should namespace cached responses by application and enterprise mode', async function() {
+      const store = new Keyv();
+      const client = getMockClient({ cacheStore: store });
+      const otherApplication = getMockClient({ cacheStore: store }, 'other-application-id');
+      const enterprise = new CFToolsClient({
+        applicationId: mockServer.applicationId,
+        applicationSecret: mockServer.applicationSecret,
+        enterpriseToken: 'enterprise-token',
+      }, { cacheStore: store, logger: new ConsoleLogger('off') });
+
+      expect(client.cacheManager.namespace).to.equal(`cftools:${mockServer.applicationId}:public`);
+      expect(otherApplication.cacheManager.namespace).to.equal('cftools:other-application-id:public');
+      expect(enterprise.cacheManager.namespace).to.equal(`cftools:${mockServer.applicationId}:enterprise`);
+    });
+  });
+});
@@ -2,26 +2,50 @@ import 'dotenv/config';
 
 import { CFToolsClient } from '../src/classes/client';
 import { ConsoleLogger } from '../src/classes/logger';
+import { CFToolsMockServer } from '../src/classes/mock-server';
 import { LogLevel } from '../src/types/logger';
 
-export const getClient = (logLevel: LogLevel, requestTimeout = 1500) => {
-  if (!process.env.CFTOOLS_APPLICATION_ID) {
-    throw new Error('CFTOOLS_APPLICATION_ID is not defined');
-  }
-  
-  if (!process.env.CFTOOLS_APPLICATION_SECRET) {
-    throw new Error('CFTOOLS_APPLICATION_SECRET is not defined');
-  }
+/**
+ * Whether the suite runs against the live CFTools API instead of the mock server,
+ * opt-in through `CFTOOLS_LIVE_TESTS=true` and the credentials in `.env`.
+ */
+export const liveMode = process.env.CFTOOLS_LIVE_TESTS === 'true';
 
+export const getClient = (
+  mockServer: CFToolsMockServer,
+  logLevel: LogLevel,
+  serverApiId?: string,
+  requestTimeout = 1500,
+) => {
   const logger = new ConsoleLogger(logLevel);
+
+  if (liveMode) {
+    if (!process.env.CFTOOLS_APPLICATION_ID) {
+      throw new Error('CFTOOLS_APPLICATION_ID is not defined');
+    }
+
+    if (!process.env.CFTOOLS_APPLICATION_SECRET) {
+      throw new Error('CFTOOLS_APPLICATION_SECRET is not defined');
+    }
+
+    return new CFToolsClient({
+      applicationId: process.env.CFTOOLS_APPLICATION_ID,
+      applicationSecret: process.env.CFTOOLS_APPLICATION_SECRET,
+      enterpriseToken: process.env.CFTOOLS_ENTERPRISE_TOKEN,
+      serverApiId: process.env.CFTOOLS_SERVER_API_ID,
+      userAgent: 'CFTools API Client / Test Suite',
+    }, { logger, requestTimeout, cacheConfiguration: {
+
+    } });
+  }
+
   const client = new CFToolsClient({
-    applicationId: process.env.CFTOOLS_APPLICATION_ID,
-    applicationSecret: process.env.CFTOOLS_APPLICATION_SECRET,
-    enterpriseToken: process.env.CFTOOLS_ENTERPRISE_TOKEN,
-    serverApiId: process.env.CFTOOLS_SERVER_API_ID,
+    applicationId: mockServer.applicationId,
+    applicationSecret: mockServer.applicationSecret,
+    serverApiId,
     userAgent: 'CFTools API Client / Test Suite',
-  }, { logger, requestTimeout, cacheConfiguration: {
-    
+  }, { logger, requestTimeout, apiBaseUrls: mockServer.url, cacheConfiguration: {
+
   } });
 
   return client;
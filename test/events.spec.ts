@@ -0,0 +1,144 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CFToolsClient, ClientOptions } from '../src/classes/client';
+import { ConsoleLogger } from '../src/classes/logger';
+import { BadSecretError } from '../src/classes/errors';
+import { CFToolsMockServer, MockServerInstance } from '../src/classes/mock-server';
+import {
+  AuthFailedEvent,
+  CacheEvent,
+  GameLabsActionPostedEvent,
+  RateLimitedEvent,
+  RequestEvent,
+  ResponseEvent,
+  TokenRefreshedEvent,
+} from '../src/types/events';
+
+describe('Client events', function() {
+  const mockServer = new CFToolsMockServer();
+  const clients: CFToolsClient[] = [];
+  let server: MockServerInstance;
+
+  const getMockClient = (options: ClientOptions = {}, applicationSecret = mockServer.applicationSecret) => {
+    const client = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret,
+      serverApiId: server.serverApiId,
+    }, {
+      logger: new ConsoleLogger('off'),
+      cacheConfiguration: { enabled: false },
+      retryConfiguration: { baseDelay: 1, jitter: false },
+      apiBaseUrls: mockServer.url,
+      ...options,
+    });
+
+    clients.push(client);
+
+    return client;
+  };
+
+  before(async function() {
+    await mockServer.start();
+  });
+
+  after(async function() {
+    await mockServer.stop();
+  });
+
+  beforeEach(function() {
+    server = mockServer.addServer();
+  });
+
+  afterEach(function() {
+    for (const client of clients.splice(0)) {
+      if (client.authProvider.refreshTimeout) {
+        clearInterval(client.authProvider.refreshTimeout);
+      }
+    }
+  });
+
+  it('should emit request, response and token events', async function() {
+    const client = getMockClient();
+    const requests: RequestEvent[] = [];
+    const responses: ResponseEvent[] = [];
+    const tokens: TokenRefreshedEvent[] = [];
+
+    client.on('request', (event) => requests.push(event));
+    client.on('response', (event) => responses.push(event));
+    client.on('tokenRefreshed', (event) => tokens.push(event));
+
+    await client.serverInfo(server.serverApiId);
+
+    expect(requests.map((event) => event.isAuthenticating)).to.deep.equal([true, false]);
+    expect(responses.map((event) => event.status)).to.deep.equal([200, 200]);
+    expect(responses[1].url).to.equal(`${mockServer.url}/v1/server/${server.serverApiId}/info`);
+    expect(tokens).to.have.lengthOf(1);
+    expect(tokens[0].expiresAt).to.be.instanceOf(Date);
+  });
+
+  it('should emit authentication failures', async function() {
+    const client = getMockClient({}, 'invalid-secret');
+    const failures: AuthFailedEvent[] = [];
+
+    client.on('authFailed', (event) => failures.push(event));
+
+    try {
+      await client.serverInfo(server.serverApiId);
+      expect.fail('Expected a BadSecretError');
+    } catch (error) {
+      expect(error).to.be.instanceOf(BadSecretError);
+    }
+
+    expect(failures).to.have.lengthOf(1);
+    expect(failures[0].error).to.be.instanceOf(BadSecretError);
+  });
+
+  it('should emit rate limit events', async function() {
+    const client = getMockClient();
+    const events: RateLimitedEvent[] = [];
+
+    client.on('rateLimited', (event) => events.push(event));
+    mockServer.failNext({ status: 429, error: 'rate-limited', path: '/info' });
+
+    await client.serverInfo(server.serverApiId);
+
+    expect(events).to.have.lengthOf(1);
+    expect(events[0].attempt).to.equal(1);
+    expect(events[0].retryIn).to.equal(1);
+  });
+
+  it('should emit cache events', async function() {
+    const client = getMockClient({ cacheConfiguration: { enabled: true } });
+    const hits: CacheEvent[] = [];
+    const misses: CacheEvent[] = [];
+
+    client.on('cacheHit', (event) => hits.push(event));
+    client.on('cacheMiss', (event) => misses.push(event));
+
+    await client.serverInfo(server.serverApiId);
+    await client.serverInfo(server.serverApiId);
+
+    expect(misses.map((event) => event.prefix)).to.deep.equal(['serverInfo']);
+    expect(hits.map((event) => event.prefix)).to.deep.equal(['serverInfo']);
+    expect(hits[0].key).to.equal(misses[0].key);
+  });
+
+  it('should emit posted GameLabs actions', async function() {
+    const client = getMockClient();
+    const events: GameLabsActionPostedEvent[] = [];
+
+    client.on('gameLabsActionPosted', (event) => events.push(event));
+
+    await client.batchPostGameLabsAction({
+      serverApiId: server.serverApiId,
+      actions: [
+        { actionCode: 'CFCloud_WorldWipeAI', actionContext: 'world', referenceKey: null },
+        { actionCode: 'CFCloud_WorldWeatherSunny', actionContext: 'world', referenceKey: null },
+      ],
+    });
+
+    expect(events.map((event) => event.actionCode)).to.deep.equal(['CFCloud_WorldWipeAI', 'CFCloud_WorldWeatherSunny']);
+    expect(events[0].serverApiId).to.equal(server.serverApiId);
+  });
+});
@@ -0,0 +1,228 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CFToolsClient } from '../src/classes/client';
+import {
+  InvalidOptionError,
+  MaxLengthExceededError,
+  RenewalFailedError,
+} from '../src/classes/errors';
+import { ConsoleLogger } from '../src/classes/logger';
+import { CFToolsMockServer, MockServerInstance } from '../src/classes/mock-server';
+import { ExpirationScheduler } from '../src/classes/expiration-scheduler';
+import { UnitConstants } from '../src/constants';
+import { ExpirationScanErrorEvent, ExpiredEntryEvent, ExpiringEntryEvent } from '../src/types/events';
+
+describe('Expiration scheduler', function() {
+  const mockServer = new CFToolsMockServer();
+  const schedulers: ExpirationScheduler[] = [];
+  let client: CFToolsClient;
+  let server: MockServerInstance;
+
+  const getScheduler = (leadTimes?: number[], interval?: number) => {
+    const scheduler = new ExpirationScheduler(
+      client,
+      [{ type: 'whitelist', serverApiId: server.serverApiId }],
+      interval,
+      leadTimes,
+    );
+
+    schedulers.push(scheduler);
+
+    return scheduler;
+  };
+
+  before(async function() {
+    await mockServer.start();
+  });
+
+  after(async function() {
+    await mockServer.stop();
+  });
+
+  beforeEach(function() {
+    server = mockServer.addServer();
+    client = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret: mockServer.applicationSecret,
+      serverApiId: server.serverApiId,
+    }, {
+      logger: new ConsoleLogger('off'),
+      cacheConfiguration: { enabled: false },
+      retryConfiguration: { enabled: false },
+      apiBaseUrls: mockServer.url,
+    });
+  });
+
+  afterEach(function() {
+    for (const scheduler of schedulers.splice(0)) {
+      scheduler.stop();
+    }
+    if (client.authProvider.refreshTimeout) {
+      clearInterval(client.authProvider.refreshTimeout);
+    }
+  });
+
+  it('should emit the shortest reached lead time once', async function() {
+    const user = mockServer.addUser();
+    const scheduler = getScheduler([UnitConstants.MS_IN_ONE_D, 7 * UnitConstants.MS_IN_ONE_D]);
+    const events: ExpiringEntryEvent[] = [];
+
+    scheduler.on('expiringSoon', (event) => events.push(event));
+    await client.postWhitelist({
+      playerId: user.cftoolsId,
+      comment: 'Supporter',
+      expiresAt: new Date(Date.now() + 2 * UnitConstants.MS_IN_ONE_D),
+    });
+    await client.postWhitelist({
+      playerId: mockServer.addUser().cftoolsId,
+      comment: 'Permanent',
+      expiresAt: null,
+    });
+    await scheduler.scan();
+    await scheduler.scan();
+
+    expect(events).to.have.lengthOf(1);
+    expect(events[0].key).to.equal(user.cftoolsId);
+    expect(events[0].leadTime).to.equal(7 * UnitConstants.MS_IN_ONE_D);
+    expect(events[0].expiresIn).to.be.within(0, 2 * UnitConstants.MS_IN_ONE_D);
+  });
+
+  it('should emit expired entries, and announce renewed entries again', async function() {
+    const user = mockServer.addUser();
+    const scheduler = getScheduler();
+    const expiring: ExpiringEntryEvent[] = [];
+    const expired: ExpiredEntryEvent[] = [];
+
+    scheduler.on('expiringSoon', (event) => expiring.push(event));
+    scheduler.on('expired', (event) => expired.push(event));
+    await client.postWhitelist({
+      playerId: user.cftoolsId,
+      comment: 'Supporter',
+      expiresAt: new Date(Date.now() + 50),
+    });
+    await scheduler.scan();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await scheduler.scan();
+    await scheduler.scan();
+
+    expect(expiring).to.have.lengthOf(1);
+    expect(expired.map((event) => event.key)).to.deep.equal([user.cftoolsId]);
+
+    const expiresAt = await client.renewWhitelist({ playerId: user.cftoolsId, extendBy: UnitConstants.MS_IN_ONE_D });
+    await scheduler.scan();
+
+    expect(expiresAt?.getTime()).to.be.greaterThan(Date.now());
+    expect(expiring).to.have.lengthOf(2);
+    expect(expiring[1].expiresAt.getTime()).to.equal(expiresAt?.getTime());
+    expect(expiring[1].entry).to.have.nested.property('meta.comment', 'Supporter');
+  });
+
+  it('should survive failed scans and keep scanning', async function() {
+    const scheduler = getScheduler();
+    const errors: ExpirationScanErrorEvent[] = [];
+
+    scheduler.on('scanError', (event) => errors.push(event));
+    mockServer.failNext({ status: 500, error: 'unexpected-error', path: `/server/${server.serverApiId}/whitelist` });
+    await scheduler.scan();
+    await scheduler.scan();
+
+    expect(errors).to.have.lengthOf(1);
+    expect(errors[0].target).to.deep.equal({ type: 'whitelist', serverApiId: server.serverApiId });
+  });
+
+  it('should keep scanning when a listener throws', async function() {
+    const user = mockServer.addUser();
+    const scheduler = getScheduler(undefined, 10);
+    const errors: ExpirationScanErrorEvent[] = [];
+
+    scheduler.on('scanError', (event) => errors.push(event));
+    scheduler.once('expiringSoon', () => {
+      throw new Error('Listener failed');
+    });
+    await client.postWhitelist({
+      playerId: user.cftoolsId,
+      comment: 'Supporter',
+      expiresAt: new Date(Date.now() + 100),
+    });
+    scheduler.start();
+
+    const expired = await new Promise<ExpiredEntryEvent>((resolve) => scheduler.once('expired', resolve));
+
+    expect(errors.map((event) => (event.error as Error).message)).to.deep.equal(['Listener failed']);
+    expect(errors[0].target).to.deep.equal({ type: 'whitelist', serverApiId: server.serverApiId });
+    expect(expired.key).to.equal(user.cftoolsId);
+    expect(scheduler.running).to.be.true;
+  });
+
+  it('should renew bans and priority queue entries', async function() {
+    const user = mockServer.addUser();
+    const banList = mockServer.addBanList();
+
+    await client.createBan({
+      banListId: banList.banListId,
+      format: 'cftools_id',
+      identifier: user.cftoolsId,
+      reason: 'Cheating',
+      expires: new Date(Date.now() + UnitConstants.MS_IN_ONE_D),
+    });
+    await client.postPriorityQueue({ playerId: user.cftoolsId, comment: 'Supporter', expiresAt: null });
+
+    const [ban] = await client.listBans({ banListId: banList.banListId });
+    const renewedBan = await client.renewBan({ banListId: banList.banListId, banId: ban.id, expires: 'PERMANENT' });
+    const [renewed] = await client.listBans({ banListId: banList.banListId });
+    const expiresAt = await client.renewPriorityQueue({
+      playerId: user.cftoolsId,
+      extendBy: UnitConstants.MS_IN_ONE_D,
+    });
+
+    expect(renewedBan.id).to.not.equal(ban.id);
+    expect(renewedBan).to.deep.equal(renewed);
+    expect(renewed).to.include({ identifier: user.cftoolsId, reason: 'Cheating', expiresAt: null });
+    expect(expiresAt).to.equal(null);
+  });
+
+  it('should restore entries when the renewal fails', async function() {
+    const user = mockServer.addUser();
+    const banList = mockServer.addBanList();
+    const expiresAt = new Date(Date.now() + UnitConstants.MS_IN_ONE_D);
+
+    await client.createBan({
+      banListId: banList.banListId,
+      format: 'cftools_id',
+      identifier: user.cftoolsId,
+      reason: 'Cheating',
+      expires: expiresAt,
+    });
+    await client.postWhitelist({ playerId: user.cftoolsId, comment: 'Member', expiresAt });
+
+    const [ban] = await client.listBans({ banListId: banList.banListId });
+
+    mockServer.clearRequests();
+
+    const rejections = await Promise.all([
+      client.renewBan({ banListId: banList.banListId, banId: ban.id, expires: 'PERMANENT', reason: 'x'.repeat(129) }),
+      client.renewWhitelist({ playerId: user.cftoolsId, expiresAt: new Date(Date.now() - 1000) }),
+    ].map((promise) => promise.then(() => expect.fail('Expected the renewal to fail'), (error) => error)));
+
+    expect(rejections[0]).to.be.instanceOf(MaxLengthExceededError);
+    expect(rejections[1]).to.be.instanceOf(InvalidOptionError);
+    expect(mockServer.requests.filter((request) => request.method !== 'GET')).to.be.empty;
+
+    mockServer.failNext({ status: 500, error: 'unexpected-error', method: 'POST', path: '/whitelist' });
+
+    try {
+      await client.renewWhitelist({ playerId: user.cftoolsId, comment: 'Supporter', extendBy: 1000 });
+      expect.fail('Expected the renewal to fail');
+    } catch (error) {
+      expect(error).to.be.instanceOf(RenewalFailedError);
+      expect(error).to.include({ restored: true });
+      expect((error as RenewalFailedError).cause).to.have.property('statusCode', 500);
+    }
+
+    const [entry] = await client.getWhitelist({ playerId: user.cftoolsId });
+
+    expect(entry.meta).to.include({ comment: 'Member' });
+    expect(entry.meta.expiration?.getTime()).to.equal(expiresAt.getTime());
+  });
+});
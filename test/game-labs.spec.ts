@@ -0,0 +1,233 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CFToolsClient } from '../src/classes/client';
+import {
+  GameLabsActionError,
+  InvalidGameLabsParameterError,
+  UnknownGameLabsActionError,
+} from '../src/classes/errors';
+import { ConsoleLogger } from '../src/classes/logger';
+import { CFToolsMockServer, MockServerInstance } from '../src/classes/mock-server';
+import { generateGameLabsActionTypes } from '../src/resolvers/game-labs';
+import { Steam64Id } from '../src/resolvers/player-ids';
+import { GameLabsActionCode } from '../src/types/general';
+import type { BuildGameLabsActionOptions, ClientGameLabsActionsResponse } from '../src/types/responses';
+
+import defaultGameLabsActions from '../data/game-labs-actions.json';
+
+describe('GameLabs action builder', function() {
+  const mockServer = new CFToolsMockServer();
+  let client: CFToolsClient;
+  let server: MockServerInstance;
+
+  const expectRejection = async (options: BuildGameLabsActionOptions, errorClass: typeof GameLabsActionError) => {
+    try {
+      await client.buildGameLabsAction(options);
+      expect.fail('Expected the action to be rejected');
+    } catch (error) {
+      expect(error).to.be.instanceOf(errorClass);
+      return error as GameLabsActionError;
+    }
+  };
+
+  before(async function() {
+    await mockServer.start();
+  });
+
+  after(async function() {
+    await mockServer.stop();
+  });
+
+  beforeEach(function() {
+    server = mockServer.addServer();
+    client = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret: mockServer.applicationSecret,
+      serverApiId: server.serverApiId,
+    }, {
+      logger: new ConsoleLogger('off'),
+      cacheConfiguration: { enabled: false },
+      retryConfiguration: { enabled: false },
+      apiBaseUrls: mockServer.url,
+    });
+  });
+
+  afterEach(function() {
+    if (client.authProvider.refreshTimeout) {
+      clearInterval(client.authProvider.refreshTimeout);
+    }
+  });
+
+  it('should serialize parameters and fill in declared defaults', async function() {
+    const user = mockServer.addUser();
+
+    mockServer.addSession(server.serverApiId, user);
+
+    await client.server(server.serverApiId).performGameLabsAction({
+      actionCode: GameLabsActionCode.CFCloud_SpawnPlayerItem,
+      actionContext: 'player',
+      target: new Steam64Id(user.steam64),
+      parameters: { item: 'AKM', quantity: 2 },
+    });
+
+    expect(server.postedActions).to.deep.equal([ {
+      actionCode: GameLabsActionCode.CFCloud_SpawnPlayerItem,
+      actionContext: 'player',
+      referenceKey: user.steam64,
+      parameters: {
+        debug: { dataType: 'boolean', valueBool: false },
+        item: { dataType: 'cf_itemlist', valueString: 'AKM' },
+        quantity: { dataType: 'int', valueInt: 2 },
+        stacked: { dataType: 'boolean', valueBool: false },
+      },
+    } ]);
+
+    const worldTime = await client.buildGameLabsAction({ actionCode: GameLabsActionCode.CFCloud_WorldTime });
+
+    expect(worldTime.parameters).to.deep.equal({
+      hour: { dataType: 'int', valueInt: 12 },
+      minute: { dataType: 'int', valueInt: 0 },
+    });
+  });
+
+  it('should build modded actions from the declared parameters', async function() {
+    server.gameLabsActions.push({
+      actionCode: 'MyMod_Airdrop',
+      actionContext: 'world',
+      actionContextFilter: [],
+      actionName: 'Airdrop',
+      referenceKey: '',
+      parameters: {
+        position: {
+          type: 'vector',
+          description: 'Drop location',
+          displayName: 'Position',
+          options: {},
+        },
+        radius: {
+          type: 'float',
+          description: 'Drop radius',
+          displayName: 'Radius',
+          options: {},
+          valueFloat: 25,
+        },
+      },
+    });
+
+    const action = await client.buildGameLabsAction({
+      actionCode: 'MyMod_Airdrop',
+      parameters: { position: [ 4500, 0, 10200.5 ] },
+    });
+
+    expect(action).to.deep.equal({
+      serverApiId: server.serverApiId,
+      actionCode: 'MyMod_Airdrop',
+      actionContext: 'world',
+      referenceKey: null,
+      parameters: {
+        position: { dataType: 'vector', valueVectorX: 4500, valueVectorY: 0, valueVectorZ: 10200.5 },
+        radius: { dataType: 'float', valueFloat: 25 },
+      },
+    });
+  });
+
+  it('should reject unknown actions and actions in the wrong context', async function() {
+    const user = mockServer.addUser();
+
+    await expectRejection({ actionCode: 'MyMod_Unknown' }, UnknownGameLabsActionError);
+
+    const error = await expectRejection({
+      actionCode: GameLabsActionCode.CFCloud_HealPlayer,
+      actionContext: 'vehicle',
+      referenceKey: 'vehicle-id',
+    }, GameLabsActionError);
+
+    expect(error?.message).to.equal(
+      'GameLabs action CFCloud_HealPlayer is a player action, it can\'t be performed on a vehicle',
+    );
+
+    await expectRejection({
+      actionCode: GameLabsActionCode.CFCloud_RepairVehicle,
+      target: user.cftoolsId,
+    }, GameLabsActionError);
+    await expectRejection({ actionCode: GameLabsActionCode.CFCloud_RepairVehicle }, GameLabsActionError);
+    await expectRejection({
+      actionCode: GameLabsActionCode.CFCloud_WorldWipeAI,
+      referenceKey: 'vehicle-id',
+    }, GameLabsActionError);
+    expect(server.postedActions).to.be.empty;
+  });
+
+  it('should reject unknown parameters and invalid values', async function() {
+    const worldTime = (parameters: BuildGameLabsActionOptions['parameters']) => ({
+      actionCode: GameLabsActionCode.CFCloud_WorldTime,
+      parameters,
+    });
+
+    const error = await expectRejection(worldTime({ hour: 1.5 }), InvalidGameLabsParameterError);
+
+    expect(error).to.have.property('parameter', 'hour');
+    expect(error?.message).to.equal(
+      'Parameter "hour" of GameLabs action CFCloud_WorldTime expects an integer, received: 1.5',
+    );
+
+    await expectRejection(worldTime({ seconds: 30 }), InvalidGameLabsParameterError);
+    await expectRejection(worldTime({ minute: '30' }), InvalidGameLabsParameterError);
+    await expectRejection({
+      actionCode: GameLabsActionCode.CFCloud_SpawnItemWorld,
+      parameters: { item: 'AKM', vector: [ 1, 2 ] as never },
+    }, InvalidGameLabsParameterError);
+  });
+
+  it('should perform actions through the typed wrappers', async function() {
+    const user = mockServer.addUser();
+
+    mockServer.addSession(server.serverApiId, user);
+
+    await client.actions.CFCloud_HealPlayer({ target: user.cftoolsId });
+    await client.actions.CFCloud_WorldTime({ hour: 6 });
+
+    expect(server.postedActions.map(({ actionCode, referenceKey }) => [ actionCode, referenceKey ])).to.deep.equal([
+      [ GameLabsActionCode.CFCloud_HealPlayer, user.steam64 ],
+      [ GameLabsActionCode.CFCloud_WorldTime, null ],
+    ]);
+    expect(server.postedActions[1].parameters).to.have.deep.property('hour', { dataType: 'int', valueInt: 6 });
+    expect((client.actions as unknown as Record<string, unknown>).then).to.equal(undefined);
+  });
+
+  it('should generate types for modded actions', function() {
+    const actions = [
+      ...defaultGameLabsActions,
+      {
+        actionCode: 'MyMod_DoThing',
+        actionContext: 'player',
+        actionContextFilter: [],
+        actionName: 'Do the thing',
+        referenceKey: '',
+        parameters: {
+          foo: { dataType: 'int', description: 'The amount of foo', displayName: 'Foo', options: {} },
+        },
+      },
+    ] as unknown as ClientGameLabsActionsResponse;
+
+    const source = generateGameLabsActionTypes(actions);
+
+    expect(source).to.contain([
+      '    /** Do the thing */',
+      '    MyMod_DoThing: {',
+      '      context: \'player\';',
+      '      parameters: {',
+      '        /** Foo - The amount of foo */',
+      '        foo?: number;',
+      '      };',
+      '    };',
+    ].join('\n'));
+    expect(source).to.contain('declare module \'@md-oss/cftools.js\' {');
+    expect(source).to.contain('export const MyMod_DoThing = (');
+    expect(source).to.not.contain(GameLabsActionCode.CFCloud_TeleportPlayer);
+    expect(generateGameLabsActionTypes(actions, { includeBuiltIn: true, wrappers: false }))
+      .to.contain('vector?: GameLabsVector;')
+      .and.not.contain('export const');
+  });
+});
@@ -0,0 +1,89 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CFToolsClient } from '../src/classes/client';
+import { ConsoleLogger } from '../src/classes/logger';
+import { CFToolsMockServer, MockServerInstance } from '../src/classes/mock-server';
+import { BanListHandle, ServerHandle } from '../src/classes/handles';
+import { MissingServerApiIdError } from '../src/classes/errors';
+
+describe('Server and banlist handles', function() {
+  const mockServer = new CFToolsMockServer();
+  let client: CFToolsClient;
+  let servers: MockServerInstance[];
+
+  before(async function() {
+    await mockServer.start();
+    servers = [mockServer.addServer(), mockServer.addServer(), mockServer.addServer({ granted: false })];
+    mockServer.addBanList();
+    client = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret: mockServer.applicationSecret,
+    }, {
+      logger: new ConsoleLogger('off'),
+      retryConfiguration: { enabled: false },
+      apiBaseUrls: mockServer.url,
+    });
+  });
+
+  after(async function() {
+    if (client.authProvider.refreshTimeout) {
+      clearInterval(client.authProvider.refreshTimeout);
+    }
+    await mockServer.stop();
+  });
+
+  it('should resolve handles for granted servers and banlists', async function() {
+    const handles = await client.servers();
+    const banLists = await client.banLists();
+
+    expect(handles.every((handle) => handle instanceof ServerHandle)).to.be.true;
+    expect(handles.map((handle) => handle.serverApiId)).to.include.members([servers[0].serverApiId, servers[1].serverApiId]);
+    expect(handles.map((handle) => handle.serverApiId)).to.not.include(servers[2].serverApiId);
+    expect(handles.find((handle) => handle.serverApiId === servers[0].serverApiId)?.name).to.equal(servers[0].name);
+    expect(banLists.every((handle) => handle instanceof BanListHandle)).to.be.true;
+    expect(banLists).to.have.lengthOf(mockServer.banLists.size);
+  });
+
+  it('should call client methods with the bound server API ID', async function() {
+    const server = client.server(servers[0].serverApiId);
+    const user = mockServer.addUser();
+    const session = mockServer.addSession(servers[0].serverApiId, user);
+
+    expect(server.grant).to.be.null;
+    expect((await server.serverInfo()).gameserver.gameserverId).to.equal(servers[0].gameserverId);
+    expect((await server.gameServerDetails()).name).to.equal(servers[0].name);
+    expect((await server.playerList()).map((entry) => entry.id)).to.deep.equal([session.id]);
+
+    await server.postWhitelist({ playerId: user.cftoolsId, comment: 'Whitelisted' });
+    await server.kickPlayer({ id: session.id, reason: 'Kicked' });
+
+    expect(servers[0].whitelist).to.have.lengthOf(1);
+    expect(servers[0].kicks.map((kick) => kick.sessionId)).to.deep.equal([session.id]);
+    expect(() => client.server()).to.throw(MissingServerApiIdError);
+  });
+
+  it('should call client methods with the bound banlist ID', async function() {
+    const [banList] = await client.banLists();
+    const user = mockServer.addUser();
+
+    await banList.createBan({ format: 'cftools_id', identifier: user.cftoolsId, reason: 'Cheating', expires: 'PERMANENT' });
+    const bans = await banList.listBans();
+
+    expect(bans).to.have.lengthOf(1);
+    await banList.deleteBan({ banId: bans[0].id });
+    expect(await banList.listBans()).to.have.lengthOf(0);
+  });
+
+  it('should broadcast messages to every granted server', async function() {
+    mockServer.failNext({ status: 500, error: 'unexpected-error', path: `/server/${servers[1].serverApiId}/message-server` });
+
+    const results = await client.broadcastMessage('Restarting in 5 minutes');
+    const byServer = new Map(results.map((result) => [result.serverApiId, result.status]));
+
+    expect(byServer.get(servers[0].serverApiId)).to.equal('fulfilled');
+    expect(byServer.get(servers[1].serverApiId)).to.equal('rejected');
+    expect(servers[0].serverMessages).to.deep.equal(['Restarting in 5 minutes']);
+    expect(servers[2].serverMessages).to.have.lengthOf(0);
+  });
+});
@@ -0,0 +1,131 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CFToolsClient } from '../src/classes/client';
+import { ConsoleLogger } from '../src/classes/logger';
+import { CFToolsMockServer, MockServerInstance } from '../src/classes/mock-server';
+import {
+  fromCSV,
+  parseBans,
+  parsePlayerListEntries,
+  serializeBans,
+  serializeWhitelist,
+  toCSV,
+} from '../src/resolvers/import-export';
+
+describe('Import and export', function() {
+  const mockServer = new CFToolsMockServer();
+  let client: CFToolsClient;
+  let server: MockServerInstance;
+
+  before(async function() {
+    await mockServer.start();
+  });
+
+  after(async function() {
+    await mockServer.stop();
+  });
+
+  beforeEach(function() {
+    server = mockServer.addServer();
+    client = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret: mockServer.applicationSecret,
+      serverApiId: server.serverApiId,
+    }, {
+      logger: new ConsoleLogger('off'),
+      cacheConfiguration: { enabled: false },
+      retryConfiguration: { enabled: false },
+      apiBaseUrls: mockServer.url,
+    });
+  });
+
+  afterEach(function() {
+    if (client.authProvider.refreshTimeout) {
+      clearInterval(client.authProvider.refreshTimeout);
+    }
+  });
+
+  it('should round-trip quoted CSV fields', function() {
+    const rows = [{ a: 'plain', b: 'with, comma' }, { a: 'with "quotes"', b: 'multi\nline' }];
+    const csv = toCSV(['a', 'b'], rows);
+
+    expect(csv.split('\n')[0]).to.equal('a,b');
+    expect(fromCSV(csv)).to.deep.equal(rows);
+  });
+
+  it('should report invalid rows while parsing', function() {
+    const user = mockServer.addUser();
+    const { rows, errors } = parseBans(JSON.stringify([
+      { identifier: user.cftoolsId, reason: 'Cheating', expiresAt: null },
+      { identifier: '127.0.0.1', reason: 'Ban evasion', expiresAt: '2099-01-01T00:00:00.000Z' },
+      { identifier: 'not-an-id', reason: 'Cheating', expiresAt: null },
+      { identifier: user.steam64, reason: 'x'.repeat(129), expiresAt: null },
+      { identifier: user.steam64, reason: 'Cheating', expiresAt: 'tomorrow' },
+    ]), 'json');
+
+    expect(rows.map((row) => row.identifier)).to.deep.equal([user.cftoolsId, '127.0.0.1']);
+    expect(rows[1].expiresAt).to.be.an.instanceOf(Date);
+    expect(errors.map((error) => error.index)).to.deep.equal([2, 3, 4]);
+    expect(() => parsePlayerListEntries('{}', 'json')).to.throw(SyntaxError);
+  });
+
+  it('should export and re-import bans, skipping existing entries', async function() {
+    const source = mockServer.addBanList();
+    const target = mockServer.addBanList();
+    const [first, second] = [mockServer.addUser(), mockServer.addUser()];
+
+    await client.createBan({ banListId: source.banListId, format: 'cftools_id', identifier: first.cftoolsId, reason: 'Cheating', expires: 'PERMANENT' });
+    await client.createBan({ banListId: source.banListId, format: 'ipv4', identifier: '10.0.0.1', reason: 'Ban, evasion', expires: 'PERMANENT' });
+    await client.createBan({ banListId: target.banListId, format: 'cftools_id', identifier: first.cftoolsId, reason: 'Cheating', expires: 'PERMANENT' });
+
+    const csv = serializeBans(await client.listBans({ banListId: source.banListId }), 'csv')
+      + `${second.steam64},Griefing,,Ban.INACTIVE\n`;
+    const dryRun = await client.importBans({ banListId: target.banListId, data: csv, format: 'csv', dryRun: true });
+
+    expect(dryRun.plan.map((item) => item.action)).to.deep.equal(['skip', 'create', 'skip']);
+    expect(dryRun.plan.map((item) => item.reason)).to.deep.equal(['exists', undefined, 'inactive']);
+    expect(dryRun.results).to.be.empty;
+    expect(target.bans).to.have.lengthOf(1);
+
+    const report = await client.importBans({ banListId: target.banListId, data: csv, format: 'csv' });
+
+    expect(report.results.map((result) => result.status)).to.deep.equal(['success']);
+    expect(target.bans.map((ban) => ban.identifier)).to.deep.equal([first.cftoolsId, '10.0.0.1']);
+    expect(target.bans[1].reason).to.equal('Ban, evasion');
+  });
+
+  it('should import whitelist entries, resolving player IDs', async function() {
+    const target = mockServer.addServer();
+    const [first, second] = [mockServer.addUser(), mockServer.addUser()];
+
+    await client.postWhitelist({ playerId: first.cftoolsId, comment: 'Staff' });
+    await client.postWhitelist({ serverApiId: target.serverApiId, playerId: first.cftoolsId, comment: 'Staff' });
+
+    const data = JSON.stringify([
+      ...JSON.parse(serializeWhitelist(await client.getWhitelist({}), 'json')),
+      { playerId: second.steam64, comment: 'Supporter', expiresAt: '2099-01-01T00:00:00.000Z' },
+      { playerId: second.cftoolsId, comment: 'Duplicate', expiresAt: null },
+      { playerId: '76561190000000000', comment: 'Unknown', expiresAt: null },
+      { playerId: second.cftoolsId, comment: 'Expired', expiresAt: '2000-01-01T00:00:00.000Z' },
+      { playerId: second.cftoolsId, comment: '', expiresAt: null },
+    ]);
+    const report = await client.importWhitelist({ serverApiId: target.serverApiId, data, format: 'json' });
+
+    expect(report.errors.map((error) => error.index)).to.deep.equal([5]);
+    expect(report.plan.map((item) => item.reason ?? item.action)).to.deep.equal([
+      'exists', 'create', 'exists', 'player-not-found', 'expired',
+    ]);
+    expect(report.results.map((result) => result.status)).to.deep.equal(['success']);
+    expect(target.whitelist.map((entry) => entry.user.cftools_id)).to.deep.equal([first.cftoolsId, second.cftoolsId]);
+  });
+
+  it('should import priority queue entries into an empty queue', async function() {
+    const user = mockServer.addUser();
+    const data = `playerId,comment,expiresAt\n${user.cftoolsId},Supporter,\n`;
+    const report = await client.importPriorityQueue({ data, format: 'csv' });
+
+    expect(report.plan.map((item) => item.action)).to.deep.equal(['create']);
+    expect(server.priorityQueue).to.have.lengthOf(1);
+  });
+});
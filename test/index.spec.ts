@@ -1,56 +1,96 @@
 // tslint:disable: only-arrow-functions
 import { expect } from 'chai';
-import { beforeEach } from 'mocha';
 
-import { getClient } from './client';
+import { getClient, liveMode } from './client';
 
 import { CFTOOLS_BASE_URL, UnitConstants } from '../src/constants';
 import { ResolveServerIdOptions } from '../src/resolvers/server-id';
 import { Game, LeaderboardSort, LeaderboardStat } from '../src/types/general';
 import { LogLevel } from '../src/types/logger';
 import { BattlEyeGUID, BohemiaInteractiveUID, CFToolsId, Steam64Id } from '../src/resolvers/player-ids';
-import { CachePrefix, rootCacheKey } from '../src/classes/client';
+import { CachePrefix, CFToolsClient, rootCacheKey } from '../src/classes/client';
+import { CFToolsMockServer } from '../src/classes/mock-server';
 import { ClientGrantsResponse } from '../src/types/responses';
 import { ErrorType, HTTPRequestError, LoginRequiredError } from '../src/classes/errors';
 
 const logLevel: LogLevel = 'error';
-const client = getClient(logLevel);
-const serverApiId = `${process.env.CFTOOLS_SERVER_API_ID}`;
+const mockServer = new CFToolsMockServer();
 
-const gameServerId = process.env.SERVER_ID;
-const serverIp = process.env.SERVER_IP;
-const serverPort = process.env.SERVER_PORT;
+const fromEnv = (name: string) => {
+  const value = process.env[name];
 
-if (!gameServerId) {
-  throw new Error('No server ID provided');
-}
-if (!serverIp) {
-  throw new Error('No server IP provided');
-}
-if (!serverPort) {
-  throw new Error('No server port provided');
-}
+  if (!value) {
+    throw new Error(`${name} is not defined`);
+  }
+
+  return value;
+};
 
+const gameServerId = liveMode ? fromEnv('SERVER_ID') : 'c0d1db47b89ade22740fd3b2a5e79393dfc56c90';
 const gameServer: ResolveServerIdOptions = {
   game: Game.DayZ,
-  ipv4: serverIp,
-  port: parseInt(serverPort, 10),
+  ipv4: liveMode ? fromEnv('SERVER_IP') : '127.0.0.1',
+  port: liveMode ? parseInt(fromEnv('SERVER_PORT'), 10) : 2302,
 };
 
-const banListId = `${process.env.BANLIST_ID}`;
-const ip = `${process.env.TEST_IP}`;
-const cftoolsId = `${process.env.TEST_CFTOOLS_ID}`;
-const steamId = `${process.env.TEST_STEAM_ID}`;
-const battleEyeGUID = `${process.env.TEST_BATTLEYE_GUID}`;
-const bohemiaInteractiveUID = `${process.env.TEST_BOHEMIA_INTERACTIVE_UID}`;
+const ip = liveMode ? fromEnv('TEST_IP') : '10.0.0.1';
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
-beforeEach(async function() {
-  await sleep(UnitConstants.MS_IN_ONE_S * 0.125);
-});
+// Note: After creating a ban on the live API, there's a delay of around 50ms for replication
+// Source (philipp, CFTools): > That throws an internal 404 as the ban id was not found. If you create, update,
+// > delete and then re-check the ban there is a delay of around 50ms for replication
+const replicationDelay = liveMode ? UnitConstants.MS_IN_ONE_S * 0.25 : 0;
+
+let client: CFToolsClient;
+let serverApiId: string;
+let banListId: string;
+let cftoolsId: string;
+let steamId: string;
+let battleEyeGUID: string;
+let bohemiaInteractiveUID: string;
+
+if (liveMode) {
+  beforeEach(async function() {
+    await sleep(UnitConstants.MS_IN_ONE_S * 0.125);
+  });
+}
 
 describe('Client module', function() {
+  before(async function() {
+    if (liveMode) {
+      serverApiId = fromEnv('CFTOOLS_SERVER_API_ID');
+      banListId = fromEnv('BANLIST_ID');
+      cftoolsId = fromEnv('TEST_CFTOOLS_ID');
+      steamId = fromEnv('TEST_STEAM_ID');
+      battleEyeGUID = fromEnv('TEST_BATTLEYE_GUID');
+      bohemiaInteractiveUID = fromEnv('TEST_BOHEMIA_INTERACTIVE_UID');
+    }
+    else {
+      await mockServer.start();
+
+      ({ serverApiId } = mockServer.addServer({ gameserverId: gameServerId }));
+      ({ banListId } = mockServer.addBanList());
+      ({
+        cftoolsId,
+        steam64: steamId,
+        battleyeGuid: battleEyeGUID,
+        bohemiaUid: bohemiaInteractiveUID,
+      } = mockServer.addUser());
+    }
+
+    client = getClient(mockServer, logLevel, serverApiId);
+  });
+
+  after(async function() {
+    if (client.authProvider.refreshTimeout) {
+      clearInterval(client.authProvider.refreshTimeout);
+    }
+    if (!liveMode) {
+      await mockServer.stop();
+    }
+  });
+
   describe('Fundamentals', function() {
     it('should be defined', function() {
       expect(client).to.not.be.undefined;
@@ -178,7 +218,6 @@ describe('Client module', function() {
     it('should resolve the server API ID from the client', function() {
       expect(client.authProvider.resolveServerApiId()).to.equal(client.authProvider.serverApiId);
     });
-    const serverApiId = client.authProvider.serverApiId;
     it('should throw when resolving the server API ID', function() {
       delete client.authProvider.serverApiId;
       expect(() => client.authProvider.resolveServerApiId(undefined, true))
@@ -267,9 +306,6 @@ describe('Client module', function() {
       expect(bans).to.be.an('array');
       await Promise.all(bans.map((ban) => client.deleteBan({ banListId, banId: ban.id })));
     });
-    // Note: After creating a ban, there's a delay of around 50ms for replication
-    // Source (philipp, CFTools): > That throws an internal 404 as the ban id was not found. If you create, update,
-    // > delete and then re-check the ban there is a delay of around 50ms for replication
     it('should manage bans by IP', async function() {
       await client.createBan({
         banListId,
@@ -278,7 +314,7 @@ describe('Client module', function() {
         reason: 'Test ban',
         expires: new Date(Date.now() + UnitConstants.MS_IN_ONE_D),
       });
-      await sleep(UnitConstants.MS_IN_ONE_S * 0.25);
+      await sleep(replicationDelay);
       const bans = await client.listBans({ banListId, filter: ip });
       expect(bans).to.be.an('array');
       await client.deleteBan({ banListId, banId: bans[0].id });
@@ -292,7 +328,7 @@ describe('Client module', function() {
         reason: 'Test ban',
         expires: new Date(Date.now() + UnitConstants.MS_IN_ONE_D),
       });
-      await sleep(UnitConstants.MS_IN_ONE_S * 0.25);
+      await sleep(replicationDelay);
       const bans = await client.listBans({ banListId, filter: cftoolsId });
       expect(bans).to.be.an('array');
       await client.deleteBan({ banListId, banId: bans[0].id });
@@ -305,7 +341,7 @@ describe('Client module', function() {
         reason: 'Test ban',
         expires: new Date(Date.now() + UnitConstants.MS_IN_ONE_D),
       });
-      await sleep(UnitConstants.MS_IN_ONE_S * 0.25);
+      await sleep(replicationDelay);
       const bans = await client.listBans({ banListId, filter: cftoolsId });
       expect(bans).to.be.an('array');
       await client.deleteBan({ banListId, banId: bans[0].id });
@@ -318,7 +354,7 @@ describe('Client module', function() {
         reason: 'Test ban',
         expires: new Date(Date.now() + UnitConstants.MS_IN_ONE_D),
       });
-      await sleep(UnitConstants.MS_IN_ONE_S * 0.25);
+      await sleep(replicationDelay);
       const bans = await client.listBans({ banListId, filter: steamId });
       expect(bans).to.be.an('array');
       await client.deleteBan({ banListId, banId: bans[0].id });
@@ -331,7 +367,7 @@ describe('Client module', function() {
         reason: 'Test ban',
         expires: new Date(Date.now() + UnitConstants.MS_IN_ONE_D),
       });
-      await sleep(UnitConstants.MS_IN_ONE_S * 0.25);
+      await sleep(replicationDelay);
       const bans = await client.listBans({ banListId, filter: steamId });
       expect(bans).to.be.an('array');
       await client.deleteBan({ banListId, banId: bans[0].id });
@@ -344,7 +380,7 @@ describe('Client module', function() {
         reason: 'Test ban',
         expires: new Date(Date.now() + UnitConstants.MS_IN_ONE_D),
       });
-      await sleep(UnitConstants.MS_IN_ONE_S * 0.25);
+      await sleep(replicationDelay);
       const bans = await client.listBans({ banListId, filter: battleEyeGUID });
       expect(bans).to.be.an('array');
       await client.deleteBan({ banListId, banId: bans[0].id });
@@ -357,7 +393,7 @@ describe('Client module', function() {
         reason: 'Test ban',
         expires: new Date(Date.now() + UnitConstants.MS_IN_ONE_D),
       });
-      await sleep(UnitConstants.MS_IN_ONE_S * 0.25);
+      await sleep(replicationDelay);
       const bans = await client.listBans({ banListId, filter: battleEyeGUID });
       expect(bans).to.be.an('array');
       await client.deleteBan({ banListId, banId: bans[0].id });
@@ -370,7 +406,7 @@ describe('Client module', function() {
         reason: 'Test ban',
         expires: new Date(Date.now() + UnitConstants.MS_IN_ONE_D),
       });
-      await sleep(UnitConstants.MS_IN_ONE_S * 0.25);
+      await sleep(replicationDelay);
       const bans = await client.listBans({ banListId, filter: bohemiaInteractiveUID });
       expect(bans).to.be.an('array');
       await client.deleteBan({ banListId, banId: bans[0].id });
@@ -383,7 +419,7 @@ describe('Client module', function() {
         reason: 'Test ban',
         expires: new Date(Date.now() + UnitConstants.MS_IN_ONE_D),
       });
-      await sleep(UnitConstants.MS_IN_ONE_S * 0.25);
+      await sleep(replicationDelay);
       const bans = await client.listBans({ banListId, filter: bohemiaInteractiveUID });
       expect(bans).to.be.an('array');
       await client.deleteBan({ banListId, banId: bans[0].id });
@@ -397,7 +433,7 @@ describe('Client module', function() {
           reason: 'Test ban',
           expires: new Date(Date.now() + UnitConstants.MS_IN_ONE_D),
         });
-        await sleep(UnitConstants.MS_IN_ONE_S * 0.25);
+        await sleep(replicationDelay);
       } catch (error) {
         expect(error).to.not.be.undefined;
       }
@@ -447,13 +483,41 @@ describe('Client module', function() {
   });
 
   describe('Kick', function() {
-    // Note: Can't be tested automatically, as it would require a player to be online
-    expect(true).to.equal(true);
+    before(function() {
+      // Note: Can't be tested against the live API, as it would require a player to be online
+      if (liveMode) {
+        this.skip();
+      }
+    });
+    it('should kick a player', async function() {
+      const session = mockServer.addSession(serverApiId, mockServer.addUser());
+      await client.kickPlayer({
+        id: session.id,
+        reason: 'Test kick',
+        serverApiId,
+      });
+      expect(mockServer.servers.get(serverApiId)?.kicks).to.deep.equal([{ sessionId: session.id, reason: 'Test kick' }]);
+    });
   });
 
   describe('Message Private', function() {
-    // Note: Can't be tested automatically, as it would require a player to be online
-    expect(true).to.equal(true);
+    before(function() {
+      // Note: Can't be tested against the live API, as it would require a player to be online
+      if (liveMode) {
+        this.skip();
+      }
+    });
+    it('should send a private message', async function() {
+      const session = mockServer.addSession(serverApiId, mockServer.addUser());
+      await client.messagePrivate({
+        id: session.id,
+        content: 'Test message',
+        serverApiId,
+      });
+      expect(mockServer.servers.get(serverApiId)?.privateMessages).to.deep.equal([
+        { sessionId: session.id, content: 'Test message' },
+      ]);
+    });
   });
 
   describe('Message Global', function() {
@@ -558,6 +622,17 @@ describe('Client module', function() {
   });
 
   describe('Priority Queue', function() {
+    before(async function() {
+      // The live API is expected to have an entry for the test player already
+      if (!liveMode) {
+        await client.postPriorityQueue({
+          playerId: cftoolsId,
+          serverApiId,
+          comment: 'Priority queue for testing',
+          expiresAt: null,
+        });
+      }
+    });
     describe('Fetch', function() {
       it('should fetch priority queue by CFTools ID string', async function() {
         const priorityQueue = await client.getPriorityQueue({
@@ -659,6 +734,16 @@ describe('Client module', function() {
   });
 
   describe('Whitelist', function() {
+    before(async function() {
+      // The live API is expected to have an entry for the test player already
+      if (!liveMode) {
+        await client.postWhitelist({
+          playerId: cftoolsId,
+          serverApiId,
+          comment: 'Whitelist for testing',
+        });
+      }
+    });
     describe('Fetch', function() {
       it('should fetch whitelist by CFTools ID string', async function() {
         const whitelist = await client.getWhitelist({
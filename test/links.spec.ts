@@ -0,0 +1,91 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CFToolsClient } from '../src/classes/client';
+import { UnresolvedVanityUrlError } from '../src/classes/errors';
+import { ConsoleLogger } from '../src/classes/logger';
+import { CFToolsMockServer, MockServerInstance } from '../src/classes/mock-server';
+import { cftoolsProfileUrl, playerSessionLinks, steamProfileUrl } from '../src/resolvers/links';
+import { CFToolsId, parseCFToolsProfileUrl, PlayerId } from '../src/resolvers/player-ids';
+
+describe('Profile links', function() {
+  const mockServer = new CFToolsMockServer();
+  let client: CFToolsClient;
+  let server: MockServerInstance;
+
+  before(async function() {
+    await mockServer.start();
+  });
+
+  after(async function() {
+    await mockServer.stop();
+  });
+
+  beforeEach(function() {
+    server = mockServer.addServer();
+    client = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret: mockServer.applicationSecret,
+      serverApiId: server.serverApiId,
+    }, {
+      logger: new ConsoleLogger('off'),
+      cacheConfiguration: { enabled: false },
+      retryConfiguration: { enabled: false },
+      apiBaseUrls: mockServer.url,
+    });
+  });
+
+  afterEach(function() {
+    if (client.authProvider.refreshTimeout) {
+      clearInterval(client.authProvider.refreshTimeout);
+    }
+  });
+
+  it('should parse CFTools profile URLs', function() {
+    const cftoolsId = '5fc7f9a050ae5adf01dfb7c4';
+
+    expect(parseCFToolsProfileUrl(`https://app.cftools.cloud/profile/${cftoolsId}/bans`)).to.equal(cftoolsId);
+    expect(parseCFToolsProfileUrl(`app.cftools.cloud/profile/${cftoolsId}`)).to.equal(cftoolsId);
+    expect(parseCFToolsProfileUrl(`https://example.com/profile/${cftoolsId}`)).to.equal(null);
+    expect(PlayerId.parse(cftoolsProfileUrl(cftoolsId))).to.be.instanceOf(CFToolsId);
+  });
+
+  it('should resolve pasted profile URLs to CFTools IDs', async function() {
+    const user = mockServer.addUser();
+
+    expect(await client.lookupUser(steamProfileUrl(user.steam64))).to.include({ cftoolsId: user.cftoolsId });
+    expect(await client.resolveDynamicPlayerId({ playerId: ` ${cftoolsProfileUrl(user.cftoolsId)} ` }))
+      .to.equal(user.cftoolsId);
+    expect(mockServer.requests.filter((request) => request.path.endsWith('/users/lookup'))).to.have.lengthOf(1);
+    expect(await client.resolveIdentities(`${steamProfileUrl(user.steam64)}/`)).to.deep.equal({
+      cftoolsId: user.cftoolsId,
+      steam64: user.steam64,
+      battleyeGuid: user.battleyeGuid,
+      bohemiaUid: user.bohemiaUid,
+    });
+
+    try {
+      await client.lookupUser('https://steamcommunity.com/id/survivor');
+      expect.fail('Expected lookup to throw');
+    } catch (error) {
+      expect(error).to.be.instanceOf(UnresolvedVanityUrlError);
+    }
+  });
+
+  it('should generate links from sessions and IDs', async function() {
+    const user = mockServer.addUser();
+
+    mockServer.addSession(server.serverApiId, user);
+
+    const session = await client.getSessionByPlayerId({ playerId: user.cftoolsId });
+
+    expect(session).to.not.equal(null);
+    expect(steamProfileUrl(user.steam64)).to.equal(`https://steamcommunity.com/profiles/${user.steam64}`);
+    expect(() => steamProfileUrl(user.cftoolsId)).to.throw();
+    expect(playerSessionLinks(server.serverApiId, session!)).to.deep.equal({
+      cftoolsProfile: cftoolsProfileUrl(user.cftoolsId),
+      steamProfile: steamProfileUrl(user.steam64),
+      session: `https://app.cftools.cloud/dashboard/${server.serverApiId}/players/${session!.id}`,
+    });
+  });
+});
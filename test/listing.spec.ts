@@ -0,0 +1,97 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CFToolsClient } from '../src/classes/client';
+import { ConsoleLogger } from '../src/classes/logger';
+import { CFToolsMockServer, MockServerInstance } from '../src/classes/mock-server';
+import { matchesExpiryWindow } from '../src/resolvers/listing';
+
+describe('Listing helpers', function() {
+  const mockServer = new CFToolsMockServer();
+  let client: CFToolsClient;
+  let server: MockServerInstance;
+
+  const collect = async <T>(iterator: AsyncIterable<T>): Promise<T[]> => {
+    const items: T[] = [];
+    for await (const item of iterator) {
+      items.push(item);
+    }
+    return items;
+  };
+
+  before(async function() {
+    await mockServer.start();
+  });
+
+  after(async function() {
+    await mockServer.stop();
+  });
+
+  beforeEach(function() {
+    server = mockServer.addServer();
+    client = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret: mockServer.applicationSecret,
+      serverApiId: server.serverApiId,
+    }, {
+      logger: new ConsoleLogger('off'),
+      cacheConfiguration: { enabled: false },
+      retryConfiguration: { enabled: false },
+      apiBaseUrls: mockServer.url,
+    });
+  });
+
+  afterEach(function() {
+    if (client.authProvider.refreshTimeout) {
+      clearInterval(client.authProvider.refreshTimeout);
+    }
+  });
+
+  it('should match expiry windows, treating permanent entries as never expiring', function() {
+    const window = { after: new Date('2030-01-01'), before: new Date('2040-01-01') };
+
+    expect(matchesExpiryWindow(new Date('2035-01-01'), window)).to.equal(true);
+    expect(matchesExpiryWindow(new Date('2045-01-01'), window)).to.equal(false);
+    expect(matchesExpiryWindow(null, window)).to.equal(false);
+    expect(matchesExpiryWindow(null, { after: window.after })).to.equal(true);
+  });
+
+  it('should filter bans by status, expiry and reason', async function() {
+    const banList = mockServer.addBanList();
+    const expires = new Date('2099-01-01T00:00:00.000Z');
+
+    await client.createBan({ banListId: banList.banListId, format: 'ipv4', identifier: '10.0.0.1', reason: 'Cheating', expires: 'PERMANENT' });
+    await client.createBan({ banListId: banList.banListId, format: 'ipv4', identifier: '10.0.0.2', reason: 'Cheating (alt)', expires });
+    await client.createBan({ banListId: banList.banListId, format: 'ipv4', identifier: '10.0.0.3', reason: 'Toxicity', expires });
+    banList.bans[1].status = 'Ban.EXPIRED';
+
+    const active = await collect(client.iterateBans({ banListId: banList.banListId, status: 'Ban.ACTIVE' }));
+    const cheating = await collect(client.banList(banList.banListId).iterateBans({
+      reason: /^cheating/i,
+      expires: { before: new Date('2100-01-01T00:00:00.000Z') },
+    }));
+
+    expect(active.map((ban) => ban.identifier)).to.deep.equal(['10.0.0.1', '10.0.0.3']);
+    expect(cheating.map((ban) => ban.identifier)).to.deep.equal(['10.0.0.2']);
+
+    const global = await collect(client.iterateBans({ banListId: banList.banListId, reason: /i/g }));
+
+    expect(global.map((ban) => ban.identifier)).to.deep.equal(['10.0.0.1', '10.0.0.2', '10.0.0.3']);
+  });
+
+  it('should filter whitelist and priority queue entries by creator and comment', async function() {
+    const [first, second] = [mockServer.addUser(), mockServer.addUser()];
+
+    await client.postWhitelist({ playerId: first.cftoolsId, comment: 'Patreon: Gold' });
+    await client.postWhitelist({ playerId: second.cftoolsId, comment: 'Staff' });
+    server.whitelist[1].creator.cftools_id = first.cftoolsId;
+
+    const supporters = await collect(client.iterateWhitelist({ commentPattern: /^Patreon/ }));
+    const byCreator = await collect(client.server().iterateWhitelist({ creator: first.cftoolsId }));
+
+    expect(supporters.map((entry) => entry.user.cftoolsId)).to.deep.equal([first.cftoolsId]);
+    expect(byCreator.map((entry) => entry.user.cftoolsId)).to.deep.equal([second.cftoolsId]);
+    expect(await collect(client.iterateWhitelist({ commentPattern: /t/g }))).to.have.lengthOf(2);
+    expect(await collect(client.iteratePriorityQueue())).to.deep.equal([]);
+  });
+});
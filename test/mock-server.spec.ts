@@ -0,0 +1,219 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CFToolsClient } from '../src/classes/client';
+import { ConsoleLogger } from '../src/classes/logger';
+import {
+  BadSecretError,
+  DuplicateEntryError,
+  ExpiredTokenError,
+  MaxLengthExceededError,
+  NoGrantError,
+  NotFoundError,
+  RateLimitError,
+} from '../src/classes/errors';
+import { CFToolsMockServer, MockServerInstance, MockUser } from '../src/classes/mock-server';
+
+describe('Mock server', function() {
+  const mockServer = new CFToolsMockServer();
+  const clients: CFToolsClient[] = [];
+  let server: MockServerInstance;
+  let user: MockUser;
+
+  const getMockClient = (applicationSecret = mockServer.applicationSecret) => {
+    const client = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret,
+      serverApiId: server.serverApiId,
+    }, {
+      logger: new ConsoleLogger('off'),
+      cacheConfiguration: { enabled: false },
+      retryConfiguration: { enabled: false },
+      apiBaseUrls: mockServer.url,
+    });
+
+    clients.push(client);
+
+    return client;
+  };
+
+  before(async function() {
+    await mockServer.start();
+  });
+
+  after(async function() {
+    await mockServer.stop();
+  });
+
+  beforeEach(function() {
+    server = mockServer.addServer();
+    user = mockServer.addUser();
+  });
+
+  afterEach(function() {
+    for (const client of clients.splice(0)) {
+      if (client.authProvider.refreshTimeout) {
+        clearInterval(client.authProvider.refreshTimeout);
+      }
+    }
+  });
+
+  it('should authenticate and resolve grants', async function() {
+    const client = getMockClient();
+    const { banListId } = mockServer.addBanList();
+
+    const grants = await client.getAppGrants();
+    expect(grants.server.map((grant) => grant.resource.id)).to.include(server.serverApiId);
+    expect(grants.banlist.map((grant) => grant.resource.id)).to.include(banListId);
+  });
+
+  it('should reject invalid application secrets', async function() {
+    const client = getMockClient('invalid-secret');
+
+    try {
+      await client.authenticate();
+      expect.fail('Expected a BadSecretError');
+    } catch (error) {
+      expect(error).to.be.instanceOf(BadSecretError);
+    }
+  });
+
+  it('should look up users by any of their identifiers', async function() {
+    const client = getMockClient();
+
+    expect((await client.lookupUser(user.steam64)).cftoolsId).to.equal(user.cftoolsId);
+    expect((await client.lookupUser(user.battleyeGuid)).cftoolsId).to.equal(user.cftoolsId);
+  });
+
+  it('should list connected players and messages', async function() {
+    const client = getMockClient();
+    const session = mockServer.addSession(server.serverApiId, user);
+
+    const players = await client.playerList(server.serverApiId);
+    expect(players).to.have.lengthOf(1);
+    expect(players[0].cftoolsId).to.equal(user.cftoolsId);
+
+    await client.messagePrivate({ serverApiId: server.serverApiId, id: session.id, content: 'Hello' });
+    await client.kickPlayer({ serverApiId: server.serverApiId, id: session.id, reason: 'Goodbye' });
+
+    expect(server.privateMessages).to.deep.equal([{ sessionId: session.id, content: 'Hello' }]);
+    expect(server.kicks).to.deep.equal([{ sessionId: session.id, reason: 'Goodbye' }]);
+    expect(server.sessions).to.have.lengthOf(0);
+  });
+
+  it('should create, list and delete bans', async function() {
+    const client = getMockClient();
+    const { banListId } = mockServer.addBanList();
+
+    await client.createBan({
+      banListId, format: 'cftools_id', identifier: user.cftoolsId, reason: 'Cheating', expires: 'PERMANENT',
+    });
+
+    try {
+      await client.createBan({
+        banListId, format: 'cftools_id', identifier: user.cftoolsId, reason: 'Cheating', expires: 'PERMANENT',
+      });
+      expect.fail('Expected a DuplicateEntryError');
+    } catch (error) {
+      expect(error).to.be.instanceOf(DuplicateEntryError);
+    }
+
+    const bans = await client.listBans({ banListId });
+    expect(bans).to.have.lengthOf(1);
+
+    await client.deleteBan({ banListId, banId: bans[0].id });
+    expect(await client.listBans({ banListId })).to.have.lengthOf(0);
+  });
+
+  it('should manage whitelist and priority queue entries', async function() {
+    const client = getMockClient();
+    const options = { serverApiId: server.serverApiId, playerId: user.cftoolsId };
+
+    await client.postWhitelist({ ...options, comment: 'Whitelisted' });
+    await client.postPriorityQueue({ ...options, comment: 'Supporter', expiresAt: new Date(Date.now() + 60000) });
+
+    try {
+      await client.postWhitelist({ ...options, comment: 'Whitelisted' });
+      expect.fail('Expected a DuplicateEntryError');
+    } catch (error) {
+      expect(error).to.be.instanceOf(DuplicateEntryError);
+    }
+
+    expect(await client.getWhitelist(options)).to.have.lengthOf(1);
+    expect((await client.getPriorityQueue(options))[0].meta.comment).to.equal('Supporter');
+
+    await client.deletePriorityQueue(options);
+
+    try {
+      await client.getPriorityQueue(options);
+      expect.fail('Expected a NotFoundError');
+    } catch (error) {
+      expect(error).to.be.instanceOf(NotFoundError);
+    }
+  });
+
+  it('should record posted GameLabs actions', async function() {
+    const client = getMockClient();
+    const actions = await client.gameLabsActions(server.serverApiId);
+
+    expect(actions.length).to.be.greaterThan(0);
+
+    await client.postGameLabsAction({
+      actionCode: 'CFCloud_WorldTime',
+      actionContext: 'world',
+      referenceKey: null,
+      parameters: { hour: { valueInt: 12 }, minute: { valueInt: 0 } },
+    });
+
+    expect(server.postedActions).to.have.lengthOf(1);
+    expect(server.postedActions[0].actionCode).to.equal('CFCloud_WorldTime');
+  });
+
+  it('should map error responses to typed errors', async function() {
+    const client = getMockClient();
+
+    mockServer.addServer({ serverApiId: 'revoked', granted: false });
+    try {
+      await client.serverInfo('revoked');
+      expect.fail('Expected a NoGrantError');
+    } catch (error) {
+      expect(error).to.be.instanceOf(NoGrantError);
+    }
+
+    try {
+      await client.messageServer({ serverApiId: server.serverApiId, content: 'a'.repeat(257) });
+      expect.fail('Expected a MaxLengthExceededError');
+    } catch (error) {
+      expect(error).to.be.instanceOf(MaxLengthExceededError);
+    }
+  });
+
+  it('should inject failures', async function() {
+    const client = getMockClient();
+
+    mockServer.failNext({ status: 429, error: 'rate-limited', path: '/info', headers: { 'Retry-After': '1' } });
+    try {
+      await client.serverInfo(server.serverApiId);
+      expect.fail('Expected a RateLimitError');
+    } catch (error) {
+      expect(error).to.be.instanceOf(RateLimitError);
+    }
+
+    expect((await client.serverInfo(server.serverApiId)).gameserver.gameserverId)
+      .to.equal(server.gameserverId);
+  });
+
+  it('should expire tokens', async function() {
+    const client = getMockClient();
+
+    await client.serverInfo(server.serverApiId);
+    mockServer.expireTokens();
+
+    try {
+      await client.serverInfo(server.serverApiId);
+      expect.fail('Expected an ExpiredTokenError');
+    } catch (error) {
+      expect(error).to.be.instanceOf(ExpiredTokenError);
+    }
+  });
+});
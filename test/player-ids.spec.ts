@@ -0,0 +1,98 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CacheManager } from '../src/classes/cache';
+import { InvalidPlayerIdError, UnresolvedVanityUrlError } from '../src/classes/errors';
+import {
+  BattlEyeGUID,
+  BohemiaInteractiveUID,
+  CFToolsId,
+  isBattlEyeGUID,
+  isBohemiaInteractiveUID,
+  PlayerId,
+  PlayerIdIndex,
+  Steam64Id,
+} from '../src/resolvers/player-ids';
+
+describe('Player IDs', function() {
+  const steam64 = '76561198000000000';
+
+  it('should derive the BattlEye GUID and Bohemia Interactive UID from a Steam64 ID', function() {
+    const guid = new Steam64Id(steam64).toBattlEyeGUID();
+    const uid = new Steam64Id(steam64).toBohemiaUID();
+
+    expect(guid).to.be.instanceOf(BattlEyeGUID);
+    expect(guid.getRawId()).to.equal('edc48a4a45cdc3e925dc160020c42595');
+    expect(uid.getRawId()).to.equal('mF_Wg3Kb36jaNjTWf9B_iQQzAsqyHEXsppQOVEXBBWE=');
+    expect(isBattlEyeGUID(guid.getRawId())).to.equal(true);
+    expect(isBohemiaInteractiveUID(uid.getRawId())).to.equal(true);
+  });
+
+  it('should resolve indexed GUIDs and UIDs back to their Steam64 ID', function() {
+    const index = new PlayerIdIndex().add(steam64, new Steam64Id('76561198000000001'), steam64);
+    const id = new Steam64Id(steam64);
+
+    expect(index.size).to.equal(2);
+    expect(index.resolve(id.toBattlEyeGUID())?.getRawId()).to.equal(steam64);
+    expect(index.resolve(id.toBohemiaUID().getRawId())?.getRawId()).to.equal(steam64);
+    expect(index.resolve(new Steam64Id('76561198000000002').toBattlEyeGUID())).to.equal(null);
+
+    index.clear();
+
+    expect(index.resolve(id.toBattlEyeGUID())).to.equal(null);
+  });
+
+  it('should validate player IDs when they are created', function() {
+    expect(() => new Steam64Id('abc')).to.throw(InvalidPlayerIdError, 'Invalid Steam64Id: abc');
+    expect(() => new CFToolsId(steam64)).to.throw(InvalidPlayerIdError);
+    expect(() => new BohemiaInteractiveUID('')).to.throw(InvalidPlayerIdError);
+    expect(new CFToolsId('5fc7f9a050ae5adf01dfb7c4').type).to.equal('cftoolsid');
+  });
+
+  it('should parse player IDs from user input', function() {
+    const guid = new Steam64Id(steam64).toBattlEyeGUID();
+
+    expect(PlayerId.parse(` ${steam64} `)).to.be.instanceOf(Steam64Id);
+    expect(PlayerId.parse(guid.getRawId().toUpperCase()).equals(guid)).to.equal(true);
+    expect(PlayerId.parse('5FC7F9A050AE5ADF01DFB7C4')).to.be.instanceOf(CFToolsId);
+    expect(PlayerId.parse(`https://steamcommunity.com/profiles/${steam64}/`).getRawId()).to.equal(steam64);
+    expect(PlayerId.parse('STEAM_0:0:19867136').getRawId()).to.equal(steam64);
+    expect(PlayerId.parse('[U:1:39734272]').getRawId()).to.equal(steam64);
+    expect(() => PlayerId.parse('https://steamcommunity.com/id/gabelogannewell'))
+      .to.throw(UnresolvedVanityUrlError).with.property('vanityName', 'gabelogannewell');
+    expect(() => PlayerId.parse('not an id')).to.throw(InvalidPlayerIdError);
+    expect(PlayerId.tryParse('not an id')).to.equal(null);
+  });
+
+  it('should compare player IDs by type and ID', function() {
+    const id = new Steam64Id(steam64);
+
+    expect(id.equals(new Steam64Id(steam64))).to.equal(true);
+    expect(id.equals(steam64)).to.equal(true);
+    expect(id.equals(new Steam64Id('76561198000000001'))).to.equal(false);
+    expect(id.equals(null)).to.equal(false);
+  });
+
+  it('should survive serialization round-trips', async function() {
+    const id = new Steam64Id(steam64);
+    const cacheManager = new CacheManager();
+
+    expect(PlayerId.fromJSON(JSON.stringify(id)).equals(id)).to.equal(true);
+    expect(JSON.parse(JSON.stringify(id))).to.deep.equal({ __playerId: true, type: 'steam64', id: steam64 });
+    expect(() => PlayerId.fromJSON({ __playerId: true, type: 'steam64', id: 'abc' })).to.throw(InvalidPlayerIdError);
+    expect(() => PlayerId.fromJSON(JSON.stringify({ type: 'steam64', id: steam64 }))).to.throw(InvalidPlayerIdError);
+
+    await cacheManager.set('player', { playerId: id, ids: [id.toBattlEyeGUID()] }, 1000);
+    const entry = await cacheManager.getEntry<{ playerId: Steam64Id; ids: BattlEyeGUID[] }>('player');
+
+    expect(entry?.value.playerId).to.be.instanceOf(Steam64Id);
+    expect(entry?.value.playerId.equals(id)).to.equal(true);
+    expect(entry?.value.ids[0].equals(id.toBattlEyeGUID())).to.equal(true);
+
+    // Objects that only look like a player id are left alone
+    await cacheManager.set('payload', { owner: { type: 'steam64', id: steam64 } }, 1000);
+    const payload = await cacheManager.getEntry<{ owner: unknown }>('payload');
+
+    expect(payload?.value.owner).to.deep.equal({ type: 'steam64', id: steam64 });
+  });
+});
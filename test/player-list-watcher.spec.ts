@@ -0,0 +1,189 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CFToolsClient, ClientOptions } from '../src/classes/client';
+import { ConsoleLogger } from '../src/classes/logger';
+import { CFToolsMockServer, MockServerInstance } from '../src/classes/mock-server';
+import { PlayerListWatcher } from '../src/classes/player-list-watcher';
+import {
+  PlayerListPollErrorEvent,
+  PlayerSessionEvent,
+  PlayerUpdateEvent,
+  RadarFlaggedEvent,
+} from '../src/types/events';
+
+describe('Player list watcher', function() {
+  const mockServer = new CFToolsMockServer();
+  const clients: CFToolsClient[] = [];
+  const watchers: PlayerListWatcher[] = [];
+  let server: MockServerInstance;
+
+  const getMockClient = (options: ClientOptions = {}) => {
+    const client = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret: mockServer.applicationSecret,
+      serverApiId: server.serverApiId,
+    }, {
+      logger: new ConsoleLogger('off'),
+      cacheConfiguration: { enabled: false },
+      retryConfiguration: { enabled: false },
+      apiBaseUrls: mockServer.url,
+      ...options,
+    });
+
+    clients.push(client);
+
+    return client;
+  };
+
+  const getWatcher = (client: CFToolsClient, serverApiIds = [server.serverApiId], interval?: number) => {
+    const watcher = new PlayerListWatcher(client, serverApiIds, interval);
+
+    watchers.push(watcher);
+
+    return watcher;
+  };
+
+  before(async function() {
+    await mockServer.start();
+  });
+
+  after(async function() {
+    await mockServer.stop();
+  });
+
+  beforeEach(function() {
+    server = mockServer.addServer();
+  });
+
+  afterEach(function() {
+    for (const watcher of watchers.splice(0)) {
+      watcher.stop();
+    }
+    for (const client of clients.splice(0)) {
+      if (client.authProvider.refreshTimeout) {
+        clearInterval(client.authProvider.refreshTimeout);
+      }
+    }
+  });
+
+  it('should emit join and leave events after the initial poll', async function() {
+    const watcher = getWatcher(getMockClient());
+    const existing = mockServer.addSession(server.serverApiId, mockServer.addUser());
+    const joins: PlayerSessionEvent[] = [];
+    const leaves: PlayerSessionEvent[] = [];
+
+    watcher.on('playerJoin', (event) => joins.push(event));
+    watcher.on('playerLeave', (event) => leaves.push(event));
+
+    await watcher.poll();
+    expect(joins).to.have.lengthOf(0);
+    expect(watcher.players(server.serverApiId)).to.have.lengthOf(1);
+
+    const user = mockServer.addUser();
+    const session = mockServer.addSession(server.serverApiId, user);
+    server.sessions = server.sessions.filter((entry) => entry !== existing);
+    await watcher.poll();
+
+    expect(joins.map((event) => [event.id, event.cftoolsId])).to.deep.equal([[session.id, user.cftoolsId]]);
+    expect(leaves.map((event) => event.id)).to.deep.equal([existing.id]);
+    expect(leaves[0].serverApiId).to.equal(server.serverApiId);
+  });
+
+  it('should emit update and radar events', async function() {
+    const watcher = getWatcher(getMockClient());
+    const session = mockServer.addSession(server.serverApiId, mockServer.addUser());
+    const updates: PlayerUpdateEvent[] = [];
+    const flagged: RadarFlaggedEvent[] = [];
+
+    watcher.on('playerUpdate', (event) => updates.push(event));
+    watcher.on('radarFlagged', (event) => flagged.push(event));
+
+    await watcher.poll();
+    session.live.ping.actual = 120;
+    session.stats = { kills: 1 };
+    session.info.radar = {
+      evaluated: true,
+      flags: ['vpn'],
+      indicators: {
+        ar: 0, bcpt: 0, czr: 0, ipss: 0, kdr: 0, logdip: 0, lsd: 0, nopb: 0, novb: 0,
+        player_age: 0, playtime_days: 0, playtime_per_session: 0, playtime_total: 0, ucoun: 0,
+      },
+      results: { score: 1 },
+      score: 1,
+    };
+    await watcher.poll();
+    await watcher.poll();
+
+    expect(updates).to.have.lengthOf(1);
+    expect(updates[0].changes).to.deep.equal(['ping', 'stats']);
+    expect(updates[0].previous.live.ping.actual).to.equal(50);
+    expect(flagged.map((event) => event.flags)).to.deep.equal([['vpn']]);
+  });
+
+  it('should survive transient errors and watch multiple servers', async function() {
+    const other = mockServer.addServer();
+    const watcher = getWatcher(getMockClient(), [server.serverApiId, other.serverApiId]);
+    const errors: PlayerListPollErrorEvent[] = [];
+    const events: PlayerSessionEvent[] = [];
+
+    mockServer.addSession(server.serverApiId, mockServer.addUser());
+    watcher.on('pollError', (event) => errors.push(event));
+    watcher.on('playerJoin', (event) => events.push(event));
+    watcher.on('playerLeave', (event) => events.push(event));
+
+    await watcher.poll();
+    mockServer.failNext({ status: 500, error: 'unexpected-error', path: `/server/${server.serverApiId}/GSM/list` });
+    const session = mockServer.addSession(other.serverApiId, mockServer.addUser());
+    await watcher.poll();
+
+    expect(errors.map((event) => event.serverApiId)).to.deep.equal([server.serverApiId]);
+    expect(events.map((event) => [event.serverApiId, event.id])).to.deep.equal([[other.serverApiId, session.id]]);
+    expect(watcher.players(server.serverApiId)).to.have.lengthOf(1);
+  });
+
+  it('should respect the player list cache TTL', function() {
+    const client = getMockClient({ cacheConfiguration: { playerList: [30, 100] } });
+
+    expect(getWatcher(client, [server.serverApiId], 1000).interval).to.equal(30000);
+    expect(getWatcher(client, [server.serverApiId], 60000).interval).to.equal(60000);
+    expect(getWatcher(getMockClient(), [server.serverApiId], 1000).interval).to.equal(1000);
+  });
+
+  it('should poll on a schedule', async function() {
+    const client = getMockClient();
+    const watcher = client.watchPlayers(server.serverApiId, 10);
+    watchers.push(watcher);
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    mockServer.addSession(server.serverApiId, mockServer.addUser());
+    const join = await new Promise<PlayerSessionEvent>((resolve) => watcher.once('playerJoin', resolve));
+
+    expect(join.serverApiId).to.equal(server.serverApiId);
+    watcher.stop();
+    expect(watcher.running).to.be.false;
+  });
+
+  it('should keep polling when a listener throws', async function() {
+    const client = getMockClient();
+    const watcher = client.watchPlayers(server.serverApiId, 10);
+    const errors: PlayerListPollErrorEvent[] = [];
+    watchers.push(watcher);
+
+    watcher.on('pollError', (event) => errors.push(event));
+    watcher.once('playerJoin', () => {
+      throw new Error('Listener failed');
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const session = mockServer.addSession(server.serverApiId, mockServer.addUser());
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    server.sessions = server.sessions.filter((entry) => entry !== session);
+    const leave = await new Promise<PlayerSessionEvent>((resolve) => watcher.once('playerLeave', resolve));
+
+    expect(errors.map((event) => [event.serverApiId, (event.error as Error).message]))
+      .to.deep.equal([[server.serverApiId, 'Listener failed']]);
+    expect(leave.id).to.equal(session.id);
+    expect(watcher.running).to.be.true;
+  });
+});
@@ -0,0 +1,45 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { ConsoleLogger } from '../src/classes/logger';
+import { Poller } from '../src/classes/poller';
+
+describe('Poller', function() {
+  const logger = new ConsoleLogger('off');
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  it('should keep running when the task throws', async function() {
+    let runs = 0;
+    const poller = new Poller(logger, 10, async () => {
+      runs++;
+      throw new Error('Task failed');
+    });
+
+    poller.start();
+    await wait(50);
+    poller.stop();
+
+    expect(runs).to.be.greaterThan(1);
+    expect(poller.running).to.be.false;
+  });
+
+  it('should not overlap runs when restarted while running', async function() {
+    let active = 0;
+    let overlapped = false;
+    const poller = new Poller(logger, 10, async () => {
+      overlapped ||= active > 0;
+      active++;
+      await wait(20);
+      active--;
+    });
+
+    poller.start();
+    await wait(5);
+    poller.stop();
+    poller.start();
+    await wait(100);
+    poller.stop();
+
+    expect(overlapped).to.be.false;
+  });
+});
@@ -0,0 +1,182 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CFToolsClient } from '../src/classes/client';
+import { ConsoleLogger } from '../src/classes/logger';
+import { CFToolsMockServer, MockServerInstance } from '../src/classes/mock-server';
+import { BattlEyeGUID, Steam64Id } from '../src/resolvers/player-ids';
+
+describe('Player profiles and identities', function() {
+  const mockServer = new CFToolsMockServer();
+  let client: CFToolsClient;
+  let server: MockServerInstance;
+
+  before(async function() {
+    await mockServer.start();
+  });
+
+  after(async function() {
+    await mockServer.stop();
+  });
+
+  beforeEach(function() {
+    server = mockServer.addServer();
+    client = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret: mockServer.applicationSecret,
+      serverApiId: server.serverApiId,
+    }, {
+      logger: new ConsoleLogger('off'),
+      cacheConfiguration: { enabled: false },
+      retryConfiguration: { enabled: false },
+      apiBaseUrls: mockServer.url,
+    });
+  });
+
+  afterEach(function() {
+    if (client.authProvider.refreshTimeout) {
+      clearInterval(client.authProvider.refreshTimeout);
+    }
+  });
+
+  it('should combine sessions, statistics, bans and queue status', async function() {
+    const user = mockServer.addUser();
+    const other = mockServer.addServer();
+    const banList = mockServer.addBanList();
+
+    mockServer.addSession(server.serverApiId, user);
+    await client.postPriorityQueue({ playerId: user.cftoolsId, comment: 'Supporter', expiresAt: null });
+    await client.createBan({
+      banListId: banList.banListId,
+      format: 'cftools_id',
+      identifier: user.cftoolsId,
+      reason: 'Cheating',
+      expires: 'PERMANENT',
+    });
+
+    const profile = await client.getPlayerProfile(new Steam64Id(user.steam64), {
+      servers: [server.serverApiId, other.serverApiId],
+      banLists: [banList.banListId],
+    });
+
+    expect(profile.cftoolsId).to.equal(user.cftoolsId);
+    expect(profile.identities).to.deep.equal({
+      cftoolsId: user.cftoolsId,
+      steam64: user.steam64,
+      battleyeGuid: user.battleyeGuid,
+      bohemiaUid: user.bohemiaUid,
+    });
+    expect(profile.servers.map(({ serverApiId }) => serverApiId)).to.deep.equal([
+      server.serverApiId, other.serverApiId,
+    ]);
+    expect(profile.servers[0].session).to.have.nested.property('value.cftoolsId', user.cftoolsId);
+    expect(profile.servers[0].whitelist).to.deep.equal({ status: 'fulfilled', value: null });
+    expect(profile.servers[0].priorityQueue).to.have.nested.property('value.meta.comment', 'Supporter');
+    expect(profile.servers[1].session).to.deep.equal({ status: 'fulfilled', value: null });
+    expect(profile.servers[1].priorityQueue).to.deep.equal({ status: 'fulfilled', value: null });
+    expect(profile.banLists[0].bans).to.have.nested.property('value[0].reason', 'Cheating');
+    expect(profile.banned).to.equal(true);
+  });
+
+  it('should tolerate failures in individual sections', async function() {
+    const user = mockServer.addUser();
+
+    mockServer.failNext({ status: 500, error: 'unexpected-error', path: `/server/${server.serverApiId}/player` });
+
+    const profile = await client.getPlayerProfile(user.cftoolsId);
+
+    expect(profile.servers).to.have.lengthOf(1);
+    expect(profile.servers[0].stats.status).to.equal('rejected');
+    expect(profile.servers[0].session).to.deep.equal({ status: 'fulfilled', value: null });
+    expect(profile.identities).to.deep.equal({
+      cftoolsId: user.cftoolsId,
+      steam64: null,
+      battleyeGuid: null,
+      bohemiaUid: null,
+    });
+    expect(profile.banLists).to.be.empty;
+    expect(profile.banned).to.equal(false);
+  });
+
+  it('should seed the identities from the ID the profile is requested with', async function() {
+    const user = mockServer.addUser();
+
+    mockServer.failNext({ status: 404, error: 'not-found', path: `/server/${server.serverApiId}/player` });
+
+    const profile = await client.getPlayerProfile(user.steam64);
+
+    expect(profile.servers[0].stats).to.deep.equal({ status: 'fulfilled', value: null });
+    expect(profile.servers[0].session).to.deep.equal({ status: 'fulfilled', value: null });
+    expect(profile.identities).to.deep.equal({
+      cftoolsId: user.cftoolsId,
+      steam64: user.steam64,
+      battleyeGuid: user.battleyeGuid,
+      bohemiaUid: user.bohemiaUid,
+    });
+  });
+
+  it('should resolve all known identities of a player', async function() {
+    const user = mockServer.addUser();
+    const identities = await client.resolveIdentities(new BattlEyeGUID(user.battleyeGuid));
+
+    expect(identities).to.deep.equal({
+      cftoolsId: user.cftoolsId,
+      steam64: user.steam64,
+      battleyeGuid: user.battleyeGuid,
+      bohemiaUid: user.bohemiaUid,
+    });
+  });
+
+  it('should cache identities for every ID form', async function() {
+    const user = mockServer.addUser();
+    const cachingClient = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret: mockServer.applicationSecret,
+      serverApiId: server.serverApiId,
+    }, {
+      logger: new ConsoleLogger('off'),
+      retryConfiguration: { enabled: false },
+      apiBaseUrls: mockServer.url,
+    });
+
+    try {
+      const identities = await cachingClient.resolveIdentities(user.steam64);
+
+      mockServer.clearRequests();
+
+      expect(await cachingClient.resolveIdentities(user.bohemiaUid)).to.deep.equal(identities);
+      expect(await cachingClient.resolveIdentities(user.cftoolsId)).to.deep.equal(identities);
+      expect(await cachingClient.lookupUser(new BattlEyeGUID(user.battleyeGuid))).to.deep.equal({
+        cftoolsId: user.cftoolsId,
+      });
+      expect(mockServer.requests).to.have.lengthOf(0);
+
+      // Partial identities, from a server without statistics, are not served for other servers
+      const other = mockServer.addServer();
+      const partialUser = mockServer.addUser();
+
+      mockServer.failNext({ status: 404, error: 'not-found', path: `/server/${server.serverApiId}/player` });
+
+      expect(await cachingClient.resolveIdentities(partialUser.cftoolsId)).to.have.property('steam64', null);
+      expect(await cachingClient.resolveIdentities(partialUser.cftoolsId, other.serverApiId))
+        .to.have.property('steam64', partialUser.steam64);
+    } finally {
+      if (cachingClient.authProvider.refreshTimeout) {
+        clearInterval(cachingClient.authProvider.refreshTimeout);
+      }
+    }
+  });
+
+  it('should derive the identities from the Steam64 ID without statistics', async function() {
+    const user = mockServer.addUser();
+
+    mockServer.failNext({ status: 404, error: 'not-found', path: `/server/${server.serverApiId}/player` });
+
+    expect(await client.resolveIdentities(new Steam64Id(user.steam64))).to.deep.equal({
+      cftoolsId: user.cftoolsId,
+      steam64: user.steam64,
+      battleyeGuid: user.battleyeGuid,
+      bohemiaUid: user.bohemiaUid,
+    });
+  });
+});
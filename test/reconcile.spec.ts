@@ -0,0 +1,158 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CFToolsClient } from '../src/classes/client';
+import { ConsoleLogger } from '../src/classes/logger';
+import { CFToolsMockServer, MockServerInstance } from '../src/classes/mock-server';
+import { Steam64Id } from '../src/resolvers/player-ids';
+
+describe('Reconciliation', function() {
+  const mockServer = new CFToolsMockServer();
+  const expiresAt = new Date('2099-01-01T00:00:00.000Z');
+  let client: CFToolsClient;
+  let server: MockServerInstance;
+
+  before(async function() {
+    await mockServer.start();
+  });
+
+  after(async function() {
+    await mockServer.stop();
+  });
+
+  beforeEach(function() {
+    server = mockServer.addServer();
+    client = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret: mockServer.applicationSecret,
+      serverApiId: server.serverApiId,
+    }, {
+      logger: new ConsoleLogger('off'),
+      cacheConfiguration: { enabled: false },
+      retryConfiguration: { enabled: false },
+      apiBaseUrls: mockServer.url,
+    });
+  });
+
+  afterEach(function() {
+    if (client.authProvider.refreshTimeout) {
+      clearInterval(client.authProvider.refreshTimeout);
+    }
+  });
+
+  it('should plan the minimal changes in dry-run mode', async function() {
+    const [kept, updated, removed, added] = [0, 1, 2, 3].map(() => mockServer.addUser());
+
+    await client.postWhitelist({ playerId: kept.cftoolsId, comment: 'Staff' });
+    await client.postWhitelist({ playerId: updated.cftoolsId, comment: 'Supporter' });
+    await client.postWhitelist({ playerId: removed.cftoolsId, comment: 'Former supporter' });
+
+    const report = await client.reconcileWhitelist({
+      dryRun: true,
+      entries: [
+        { playerId: kept.cftoolsId, comment: 'Staff' },
+        { playerId: updated.cftoolsId, comment: 'Supporter', expiresAt },
+        { playerId: new Steam64Id(added.steam64), comment: 'Supporter' },
+        { playerId: '76561190000000000', comment: 'Unknown' },
+        { playerId: removed.cftoolsId, comment: 'Expired', expiresAt: new Date(Date.now() - 1000) },
+      ],
+    });
+
+    expect(report.plan.map((item) => [item.action, item.cftoolsId])).to.deep.equal([
+      ['skip', null],
+      ['keep', kept.cftoolsId],
+      ['update', updated.cftoolsId],
+      ['add', added.cftoolsId],
+      ['remove', removed.cftoolsId],
+    ]);
+    expect(report.plan[0].reason).to.equal('player-not-found');
+    expect(report.plan[2].changes).to.deep.equal(['expiresAt']);
+    expect(report.results).to.be.empty;
+    expect(server.whitelist).to.have.lengthOf(3);
+  });
+
+  it('should apply the plan', async function() {
+    const [kept, updated, removed, added] = [0, 1, 2, 3].map(() => mockServer.addUser());
+
+    await client.postPriorityQueue({ playerId: kept.cftoolsId, comment: 'Staff' });
+    await client.postPriorityQueue({ playerId: updated.cftoolsId, comment: 'Supporter' });
+    await client.postPriorityQueue({ playerId: removed.cftoolsId, comment: 'Former supporter' });
+
+    const report = await client.reconcilePriorityQueue({
+      entries: [
+        { playerId: kept.cftoolsId, comment: 'Staff' },
+        { playerId: updated.cftoolsId, comment: 'Patreon', expiresAt },
+        { playerId: added.cftoolsId, comment: 'Patreon' },
+      ],
+    });
+
+    expect(report.results.map((result) => result.status)).to.deep.equal(['success', 'success', 'success']);
+    expect(server.priorityQueue.map((entry) => [entry.user.cftools_id, entry.meta.comment])).to.have.deep.members([
+      [kept.cftoolsId, 'Staff'],
+      [updated.cftoolsId, 'Patreon'],
+      [added.cftoolsId, 'Patreon'],
+    ]);
+    expect(server.priorityQueue.find((entry) => entry.user.cftools_id === updated.cftoolsId)?.meta.expiration)
+      .to.equal(expiresAt.toISOString());
+  });
+
+  it('should leave manual entries untouched unless told to', async function() {
+    const [manual, other] = [mockServer.addUser(), mockServer.addUser()];
+
+    await client.postWhitelist({ playerId: manual.cftoolsId, comment: 'Dashboard' });
+    await client.postWhitelist({ playerId: other.cftoolsId, comment: 'Dashboard' });
+    server.whitelist.forEach((entry) => entry.meta.from_api = false);
+
+    const report = await client.reconcileWhitelist({
+      entries: [{ playerId: manual.cftoolsId, comment: 'Staff' }],
+    });
+
+    expect(report.plan.map((item) => [item.action, item.reason])).to.deep.equal([
+      ['skip', 'manual-entry'],
+      ['skip', 'manual-entry'],
+    ]);
+    expect(server.whitelist).to.have.lengthOf(2);
+
+    await client.reconcileWhitelist({
+      entries: [{ playerId: manual.cftoolsId, comment: 'Staff' }],
+      includeManualEntries: true,
+    });
+
+    expect(server.whitelist.map((entry) => [entry.user.cftools_id, entry.meta.comment])).to.deep.equal([
+      [manual.cftoolsId, 'Staff'],
+    ]);
+  });
+
+  it('should restore updated entries that could not be re-posted', async function() {
+    const user = mockServer.addUser();
+
+    await client.postWhitelist({ playerId: user.cftoolsId, comment: 'Supporter' });
+    mockServer.failNext({ status: 500, error: 'unexpected-error', method: 'POST', path: '/whitelist' });
+
+    const report = await client.reconcileWhitelist({
+      entries: [{ playerId: user.cftoolsId, comment: 'Patreon', expiresAt }],
+    });
+
+    expect(report.results).to.have.lengthOf(1);
+    expect(report.results[0]).to.include({ status: 'error', partial: 'restored' });
+    expect(server.whitelist.map((entry) => [entry.user.cftools_id, entry.meta.comment, entry.meta.expiration]))
+      .to.deep.equal([[user.cftoolsId, 'Supporter', null]]);
+  });
+
+  it('should skip duplicate desired entries', async function() {
+    const user = mockServer.addUser();
+
+    const report = await client.reconcileWhitelist({
+      entries: [
+        { playerId: user.cftoolsId, comment: 'Staff' },
+        { playerId: new Steam64Id(user.steam64), comment: 'Supporter' },
+      ],
+    });
+
+    expect(report.plan.map((item) => [item.action, item.reason, item.desired?.comment])).to.deep.equal([
+      ['skip', 'duplicate', 'Supporter'],
+      ['add', undefined, 'Staff'],
+    ]);
+    expect(server.whitelist.map((entry) => entry.meta.comment)).to.deep.equal(['Staff']);
+  });
+});
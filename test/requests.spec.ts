@@ -0,0 +1,305 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+import sinon from 'sinon';
+
+import { CFToolsClient, ClientOptions } from '../src/classes/client';
+import { ConsoleLogger } from '../src/classes/logger';
+import { HTTPRequestError, InvalidOptionError, RateLimitError, NotFoundError } from '../src/classes/errors';
+import { RateLimiter, resolveRateLimitBucket } from '../src/classes/rate-limiter';
+import { API_VERSION, UnitConstants, V1_API_BASE_URL, V2_API_BASE_URL } from '../src/constants';
+import { LogLevel } from '../src/types/logger';
+
+const logLevel: LogLevel = 'off';
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+const getOfflineClient = (retryConfiguration = {}, options: ClientOptions = {}) => {
+  const client = new CFToolsClient({
+    applicationId: 'test-application-id',
+    applicationSecret: 'test-application-secret',
+    serverApiId: 'test-server-api-id',
+  }, {
+    logger: new ConsoleLogger(logLevel),
+    cacheConfiguration: { enabled: false },
+    retryConfiguration: { baseDelay: 1, jitter: false, ...retryConfiguration },
+    ...options,
+  });
+
+  client.authProvider.authenticated = true;
+  client.authProvider.authenticationToken = 'test-token';
+  client.authProvider.issuedAt = new Date();
+  client.authProvider.expiresAt = new Date(Date.now() + UnitConstants.MS_IN_ONE_D);
+
+  return client;
+};
+
+describe('Request client', function() {
+  let fetchStub: sinon.SinonStub;
+
+  beforeEach(function() {
+    fetchStub = sinon.stub(globalThis, 'fetch');
+  });
+
+  afterEach(function() {
+    fetchStub.restore();
+  });
+
+  describe('Retrying', function() {
+    it('should retry GET requests after rate-limiting', async function() {
+      const client = getOfflineClient();
+      fetchStub.onFirstCall().resolves(jsonResponse(429, { status: false, error: 'rate-limited' }));
+      fetchStub.onSecondCall().resolves(jsonResponse(200, { status: true }));
+
+      const response = await client.requestClient.get(client.requestClient.apiUrl(API_VERSION.V1, '/test'));
+      expect(response).to.deep.equal({ status: true });
+      expect(fetchStub.callCount).to.equal(2);
+    });
+    it('should retry transient server errors', async function() {
+      const client = getOfflineClient();
+      fetchStub.onFirstCall().resolves(jsonResponse(500, { status: false, error: 'system-unavailable' }));
+      fetchStub.onSecondCall().resolves(jsonResponse(502, {}));
+      fetchStub.onThirdCall().resolves(jsonResponse(200, { status: true }));
+
+      await client.requestClient.get(client.requestClient.apiUrl(API_VERSION.V1, '/test'));
+      expect(fetchStub.callCount).to.equal(3);
+    });
+    it('should throw after the maximum amount of attempts', async function() {
+      const client = getOfflineClient({ maxAttempts: 2 });
+      fetchStub.callsFake(async () => jsonResponse(429, { status: false }));
+
+      try {
+        await client.requestClient.get(client.requestClient.apiUrl(API_VERSION.V1, '/test'));
+        expect.fail('Expected a RateLimitError');
+      } catch (error) {
+        expect(error).to.be.instanceOf(RateLimitError);
+      }
+      expect(fetchStub.callCount).to.equal(2);
+    });
+    it('should not retry non-transient errors', async function() {
+      const client = getOfflineClient();
+      fetchStub.resolves(jsonResponse(404, { status: false, error: 'not-found' }));
+
+      try {
+        await client.requestClient.get(client.requestClient.apiUrl(API_VERSION.V1, '/test'));
+        expect.fail('Expected a NotFoundError');
+      } catch (error) {
+        expect(error).to.be.instanceOf(NotFoundError);
+      }
+      expect(fetchStub.callCount).to.equal(1);
+    });
+    it('should not retry POST requests by default', async function() {
+      const client = getOfflineClient();
+      fetchStub.resolves(jsonResponse(429, { status: false }));
+
+      try {
+        await client.requestClient.post(client.requestClient.apiUrl(API_VERSION.V1, '/test'), {});
+        expect.fail('Expected a RateLimitError');
+      } catch (error) {
+        expect(error).to.be.instanceOf(RateLimitError);
+      }
+      expect(fetchStub.callCount).to.equal(1);
+    });
+    it('should retry POST requests when opted-in', async function() {
+      const client = getOfflineClient({ methods: ['GET', 'POST'] });
+      fetchStub.onFirstCall().resolves(jsonResponse(429, { status: false }));
+      fetchStub.onSecondCall().resolves(jsonResponse(200, { status: true }));
+
+      await client.requestClient.post(client.requestClient.apiUrl(API_VERSION.V1, '/test'), {});
+      expect(fetchStub.callCount).to.equal(2);
+    });
+    it('should retry network failures of idempotent requests', async function() {
+      const client = getOfflineClient({ methods: ['GET', 'POST', 'DELETE'] });
+      fetchStub.onFirstCall().rejects(new TypeError('fetch failed'));
+      fetchStub.onSecondCall().resolves(jsonResponse(200, { status: true }));
+      fetchStub.onThirdCall().rejects(new TypeError('fetch failed'));
+
+      const response = await client.requestClient.get(client.requestClient.apiUrl(API_VERSION.V1, '/test'));
+      expect(response).to.deep.equal({ status: true });
+
+      try {
+        await client.requestClient.post(client.requestClient.apiUrl(API_VERSION.V1, '/test'), {});
+        expect.fail('Expected an HTTPRequestError');
+      } catch (error) {
+        expect(error).to.be.instanceOf(HTTPRequestError).and.have.property('statusCode', 0);
+      }
+      expect(fetchStub.callCount).to.equal(3);
+      expect(client.requestClient.retryDelay(new HTTPRequestError(0, 'Request failed', {}), 1, 'DELETE')).to.equal(1);
+    });
+    it('should honour the Retry-After header', function() {
+      const client = getOfflineClient();
+      const error = new RateLimitError({ headers: new Headers({ 'Retry-After': '2' }) });
+      expect(client.requestClient.retryDelay(error, 1)).to.equal(2 * UnitConstants.MS_IN_ONE_S);
+    });
+    it('should not retry when Retry-After exceeds the maximum delay', function() {
+      const client = getOfflineClient({ maxDelay: 1000 });
+      const error = new RateLimitError({ headers: new Headers({ 'Retry-After': '60' }) });
+      expect(client.requestClient.retryDelay(error, 1)).to.be.null;
+    });
+  });
+
+  describe('Rate limiting', function() {
+    const logger = new ConsoleLogger(logLevel);
+
+    it('should resolve request buckets', function() {
+      expect(resolveRateLimitBucket('POST', `${V1_API_BASE_URL}/server/id/GameLabs/action`)).to.equal('gameLabsActions');
+      expect(resolveRateLimitBucket('POST', `${V1_API_BASE_URL}/server/id/message-server`)).to.equal('gsmMessaging');
+      expect(resolveRateLimitBucket('DELETE', `${V1_API_BASE_URL}/banlist/id/bans?ban_id=1`)).to.equal('banListWrites');
+      expect(resolveRateLimitBucket('GET', `${V1_API_BASE_URL}/banlist/id/bans`)).to.equal('default');
+    });
+    it('should pace requests that exceed the bucket', async function() {
+      const rateLimiter = new RateLimiter(logger, { buckets: { default: [2, 0.1] } });
+      const start = Date.now();
+
+      await Promise.all(Array.from({ length: 4 }, () => rateLimiter.schedule('default', async () => void 0)));
+
+      expect(Date.now() - start).to.be.at.least(90);
+      expect(rateLimiter.stats().processed).to.equal(4);
+      expect(rateLimiter.stats().maxWaitTime).to.be.at.least(40);
+    });
+    it('should not block other buckets', async function() {
+      const rateLimiter = new RateLimiter(logger, { buckets: { default: [1, 0.1] } });
+
+      await rateLimiter.schedule('default', async () => void 0);
+      const blocked = rateLimiter.schedule('default', async () => void 0);
+      await rateLimiter.schedule('gsmMessaging', async () => void 0);
+
+      expect(rateLimiter.stats().queued).to.equal(1);
+      expect(rateLimiter.stats().buckets.default.queued).to.equal(1);
+
+      await blocked;
+      expect(rateLimiter.stats().queued).to.equal(0);
+    });
+    it('should respect the concurrency limit', async function() {
+      const rateLimiter = new RateLimiter(logger, { concurrency: 2 });
+      let active = 0;
+      let maxActive = 0;
+
+      await Promise.all(Array.from({ length: 6 }, () => rateLimiter.schedule('default', async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+      })));
+
+      expect(maxActive).to.equal(2);
+    });
+    it('should reject configurations that never release requests', function() {
+      expect(() => new RateLimiter(logger, { concurrency: 0 })).to.throw(InvalidOptionError);
+      expect(() => new RateLimiter(logger, { concurrency: Infinity })).to.throw(InvalidOptionError);
+      expect(() => new RateLimiter(logger, { concurrency: 0.5 })).to.throw(InvalidOptionError);
+      expect(() => new RateLimiter(logger, { buckets: { default: [0, 60] } })).to.throw(InvalidOptionError);
+      expect(() => new RateLimiter(logger, { buckets: { default: [0.5, 60] } })).to.throw(InvalidOptionError);
+      expect(() => new RateLimiter(logger, { buckets: { gsmMessaging: [30, 0] } })).to.throw(InvalidOptionError);
+      expect(() => new RateLimiter(logger, { buckets: { banListWrites: [NaN, 60] } })).to.throw(InvalidOptionError);
+    });
+    it('should not queue when disabled', async function() {
+      const rateLimiter = new RateLimiter(logger, { enabled: false, buckets: { default: [0, 60] } });
+      expect(await rateLimiter.schedule('default', async () => 'done')).to.equal('done');
+    });
+  });
+
+  describe('Transport', function() {
+    it('should use the default base URLs', function() {
+      const client = getOfflineClient();
+      expect(client.requestClient.apiUrl(API_VERSION.V2, '/test')).to.equal(`${V2_API_BASE_URL}/test`);
+    });
+    it('should resolve URLs from a base URL override', function() {
+      const client = getOfflineClient({}, { apiBaseUrls: 'http://localhost:3000/' });
+      expect(client.requestClient.apiUrl(API_VERSION.V1, '/test', { a: 'b' }))
+        .to.equal('http://localhost:3000/v1/test?a=b');
+    });
+    it('should resolve URLs from individual base URL overrides', function() {
+      const client = getOfflineClient({}, { apiBaseUrls: { v2: 'http://localhost:3000/v2' } });
+      expect(client.requestClient.apiUrl(API_VERSION.V1, '/test')).to.equal(`${V1_API_BASE_URL}/test`);
+      expect(client.requestClient.apiUrl(API_VERSION.V2, '/test')).to.equal('http://localhost:3000/v2/test');
+    });
+    it('should perform requests with a custom fetch implementation', async function() {
+      const requests: [string, RequestInit][] = [];
+      const client = getOfflineClient({}, {
+        apiBaseUrls: 'http://localhost:3000',
+        fetch: async (input, init) => {
+          requests.push([input, init]);
+          return jsonResponse(200, { status: true });
+        },
+      });
+
+      await client.requestClient.get(client.requestClient.apiUrl(API_VERSION.V1, '/test'));
+      expect(fetchStub.callCount).to.equal(0);
+      expect(requests).to.have.lengthOf(1);
+      expect(requests[0][0]).to.equal('http://localhost:3000/v1/test');
+      expect(requests[0][1].method).to.equal('GET');
+    });
+  });
+
+  describe('Interceptors', function() {
+    it('should modify requests before they are performed', async function() {
+      const client = getOfflineClient({}, {
+        interceptors: {
+          beforeRequest: [({ init, version }) => ({
+            ...init,
+            headers: { ...init.headers, 'X-Trace-Id': `trace-${version}` },
+          })],
+        },
+      });
+      fetchStub.resolves(jsonResponse(200, { status: true }));
+
+      await client.requestClient.get(client.requestClient.apiUrl(API_VERSION.V2, '/test'));
+      const headers = fetchStub.firstCall.args[1].headers;
+      expect(headers['X-Trace-Id']).to.equal('trace-v2');
+      expect(headers['Authorization']).to.equal('Bearer test-token');
+    });
+    it('should short-circuit requests', async function() {
+      const client = getOfflineClient({}, {
+        interceptors: { beforeRequest: [() => jsonResponse(200, { status: true, mocked: true })] },
+      });
+
+      const response = await client.requestClient.get(client.requestClient.apiUrl(API_VERSION.V1, '/test'));
+      expect(response).to.deep.equal({ status: true, mocked: true });
+      expect(fetchStub.callCount).to.equal(0);
+    });
+    it('should observe and replace response bodies', async function() {
+      const statuses: number[] = [];
+      const client = getOfflineClient({}, {
+        interceptors: {
+          afterResponse: [
+            ({ status }) => void statuses.push(status),
+            ({ body }) => ({ ...body as object, intercepted: true }),
+          ],
+        },
+      });
+      fetchStub.onFirstCall().resolves(jsonResponse(502, {}));
+      fetchStub.onSecondCall().resolves(jsonResponse(200, { status: true }));
+
+      const response = await client.requestClient.get(client.requestClient.apiUrl(API_VERSION.V1, '/test'));
+      expect(response).to.deep.equal({ status: true, intercepted: true });
+      expect(statuses).to.deep.equal([502, 200]);
+    });
+    it('should pass mapped errors to error interceptors', async function() {
+      const errors: unknown[] = [];
+      const client = getOfflineClient({}, {
+        interceptors: {
+          onError: [
+            ({ error }) => void errors.push(error),
+            () => {
+              throw new Error('Replaced');
+            },
+          ],
+        },
+      });
+      fetchStub.resolves(jsonResponse(404, { status: false, error: 'not-found' }));
+
+      try {
+        await client.requestClient.get(client.requestClient.apiUrl(API_VERSION.V1, '/test'));
+        expect.fail('Expected the replaced error');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Replaced');
+      }
+      expect(errors).to.have.lengthOf(1);
+      expect(errors[0]).to.be.instanceOf(NotFoundError);
+    });
+  });
+});
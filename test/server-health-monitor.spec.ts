@@ -0,0 +1,183 @@
+// tslint:disable: only-arrow-functions
+import { expect } from 'chai';
+
+import { CFToolsClient, ClientOptions } from '../src/classes/client';
+import { ConsoleLogger } from '../src/classes/logger';
+import { CFToolsMockServer, MockServerInstance } from '../src/classes/mock-server';
+import { ServerHealthMonitor } from '../src/classes/server-health-monitor';
+import { GameServerQueryError } from '../src/types/general';
+import {
+  RestartImminentEvent,
+  ServerHealthCheckErrorEvent,
+  ServerHealthEvent,
+} from '../src/types/events';
+
+describe('Server health monitor', function() {
+  const mockServer = new CFToolsMockServer();
+  const clients: CFToolsClient[] = [];
+  const monitors: ServerHealthMonitor[] = [];
+  let server: MockServerInstance;
+
+  const getMockClient = (options: ClientOptions = {}) => {
+    const client = new CFToolsClient({
+      applicationId: mockServer.applicationId,
+      applicationSecret: mockServer.applicationSecret,
+      serverApiId: server.serverApiId,
+    }, {
+      logger: new ConsoleLogger('off'),
+      cacheConfiguration: { enabled: false },
+      retryConfiguration: { enabled: false },
+      apiBaseUrls: mockServer.url,
+      ...options,
+    });
+
+    clients.push(client);
+
+    return client;
+  };
+
+  const getMonitor = (serverApiIds = [server.serverApiId], restartLeadTime?: number, interval?: number) => {
+    const monitor = new ServerHealthMonitor(getMockClient(), serverApiIds, interval, restartLeadTime);
+
+    monitors.push(monitor);
+
+    return monitor;
+  };
+
+  before(async function() {
+    await mockServer.start();
+  });
+
+  after(async function() {
+    await mockServer.stop();
+  });
+
+  beforeEach(function() {
+    server = mockServer.addServer();
+  });
+
+  afterEach(function() {
+    for (const monitor of monitors.splice(0)) {
+      monitor.stop();
+    }
+    for (const client of clients.splice(0)) {
+      if (client.authProvider.refreshTimeout) {
+        clearInterval(client.authProvider.refreshTimeout);
+      }
+    }
+  });
+
+  it('should record the initial health without emitting transitions', async function() {
+    const monitor = getMonitor();
+    const events: ServerHealthEvent[] = [];
+
+    monitor.on('serverOffline', (event) => events.push(event));
+    server.workerState = 'WorkerState.DISCONNECTED';
+    await monitor.check();
+
+    expect(events).to.have.lengthOf(0);
+    expect(monitor.health(server.serverApiId)).to.include({
+      gameserverId: server.gameserverId,
+      online: false,
+      gameIntegrationStatus: true,
+      queryError: GameServerQueryError.NONE,
+      nextRestart: null,
+    });
+  });
+
+  it('should emit offline, online and worker state transitions', async function() {
+    const monitor = getMonitor();
+    const events: [string, ServerHealthEvent][] = [];
+
+    monitor.on('serverOffline', (event) => events.push(['serverOffline', event]));
+    monitor.on('serverOnline', (event) => events.push(['serverOnline', event]));
+    monitor.on('workerStateChanged', (event) => events.push(['workerStateChanged', event]));
+
+    await monitor.check();
+    server.workerState = 'WorkerState.DISCONNECTED';
+    await monitor.check();
+    server.workerState = 'WorkerState.CONNECTED';
+    await monitor.check();
+
+    expect(events.map(([name]) => name)).to.deep.equal([
+      'serverOffline', 'workerStateChanged', 'serverOnline', 'workerStateChanged',
+    ]);
+    expect(events[1][1].previous.workerState).to.equal('WorkerState.CONNECTED');
+    expect(events[1][1].health.workerState).to.equal('WorkerState.DISCONNECTED');
+  });
+
+  it('should emit GameLabs and query error transitions', async function() {
+    const monitor = getMonitor();
+    const events: string[] = [];
+
+    monitor.on('gameLabsDisconnected', () => events.push('gameLabsDisconnected'));
+    monitor.on('gameLabsConnected', () => events.push('gameLabsConnected'));
+    monitor.on('queryError', ({ health }) => events.push(health.queryError));
+
+    await monitor.check();
+    server.gameIntegrationStatus = false;
+    server.queryError = GameServerQueryError.TIMEOUT;
+    await monitor.check();
+    await monitor.check();
+    server.gameIntegrationStatus = true;
+    server.queryError = GameServerQueryError.NONE;
+    await monitor.check();
+
+    expect(events).to.deep.equal(['gameLabsDisconnected', GameServerQueryError.TIMEOUT, 'gameLabsConnected']);
+  });
+
+  it('should emit imminent restarts once', async function() {
+    const monitor = getMonitor([server.serverApiId], 60000);
+    const events: RestartImminentEvent[] = [];
+
+    monitor.on('restartImminent', (event) => events.push(event));
+    server.nextRestart = new Date(Date.now() + 120000);
+    await monitor.check();
+    server.nextRestart = new Date(Date.now() + 30000);
+    await monitor.check();
+    await monitor.check();
+
+    expect(events).to.have.lengthOf(1);
+    expect(events[0].restartAt.getTime()).to.equal(server.nextRestart.getTime());
+    expect(events[0].restartIn).to.be.within(0, 30000);
+  });
+
+  it('should survive failed checks and keep the last known health', async function() {
+    const other = mockServer.addServer();
+    const monitor = getMonitor([server.serverApiId, other.serverApiId]);
+    const errors: ServerHealthCheckErrorEvent[] = [];
+
+    monitor.on('checkError', (event) => errors.push(event));
+
+    await monitor.check();
+    const health = monitor.health(server.serverApiId);
+    mockServer.failNext({ status: 500, error: 'unexpected-error', path: `/server/${server.serverApiId}/info` });
+    await monitor.check();
+
+    expect(errors.map((event) => event.serverApiId)).to.deep.equal([server.serverApiId]);
+    expect(monitor.health(server.serverApiId)).to.equal(health);
+    expect(monitor.health(other.serverApiId)?.checkedAt.getTime()).to.be.greaterThan(0);
+  });
+
+  it('should keep checking when a listener throws', async function() {
+    const monitor = getMonitor([server.serverApiId], undefined, 10);
+    const errors: ServerHealthCheckErrorEvent[] = [];
+
+    monitor.on('checkError', (event) => errors.push(event));
+    monitor.once('serverOffline', () => {
+      throw new Error('Listener failed');
+    });
+    monitor.start();
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    server.workerState = 'WorkerState.DISCONNECTED';
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    server.workerState = 'WorkerState.CONNECTED';
+    const online = await new Promise<ServerHealthEvent>((resolve) => monitor.once('serverOnline', resolve));
+
+    expect(errors.map((event) => [event.serverApiId, (event.error as Error).message]))
+      .to.deep.equal([[server.serverApiId, 'Listener failed']]);
+    expect(online.health.online).to.be.true;
+    expect(monitor.running).to.be.true;
+  });
+});
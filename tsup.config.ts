@@ -1,7 +1,7 @@
 import { defineConfig, type Options } from 'tsup';
 
 export default defineConfig((options: Options) => ({
-  entryPoints: ['src/index.ts'],
+  entryPoints: ['src/index.ts', 'src/testing.ts'],
   sourcemap: process.env.NODE_ENV === 'development' ? 'inline' : false,
   outDir: 'dist',
   clean: true,